@@ -0,0 +1,9 @@
+import { WaybillReport } from '@widgets/transportation-planner'
+
+export default function Waybills() {
+  return (
+    <main className='mx-auto max-w-5xl px-4 py-10 print:max-w-none print:p-0'>
+      <WaybillReport />
+    </main>
+  )
+}
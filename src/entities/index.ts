@@ -1,3 +1,16 @@
+export * from './transportation/comparison'
+export * from './transportation/costs'
+export * from './transportation/diagnostics'
+export * from './transportation/export'
+export * from './transportation/network'
 export * from './transportation/planner'
+export * from './transportation/playback'
+export * from './transportation/priorities'
+export * from './transportation/request-import'
+export * from './transportation/scenario'
 export * from './transportation/types'
 export * from './transportation/utils'
+export * from './transportation/validation'
+export * from './transportation/waybills'
+export * from './transportation/work-rules'
+export * from './transportation/xlsx'
@@ -0,0 +1,109 @@
+import type { Locale, PlanSummary } from './types'
+
+export type ComparisonMetricKey =
+  | 'totalTrips'
+  | 'vehiclesRequired'
+  | 'totalDistance'
+  | 'emptyDistance'
+  | 'utilization'
+  | 'totalTime'
+  | 'maxCompletionTime'
+  | 'totalCost'
+  | 'margin'
+
+interface ComparisonMetric {
+  key: ComparisonMetricKey
+  label: Record<Locale, string>
+  // null marks metrics where a change is neither better nor worse.
+  lowerIsBetter: boolean | null
+  read: (summary: PlanSummary) => number
+}
+
+export interface MetricDelta {
+  key: ComparisonMetricKey
+  label: string
+  base: number
+  value: number
+  delta: number
+  improved: boolean | null
+}
+
+export const comparisonMetrics: ComparisonMetric[] = [
+  {
+    key: 'totalTrips',
+    label: { ru: 'Рейсов', en: 'Trips' },
+    lowerIsBetter: null,
+    read: (summary) => summary.totalTrips,
+  },
+  {
+    key: 'vehiclesRequired',
+    label: { ru: 'Автомобилей', en: 'Vehicles' },
+    lowerIsBetter: true,
+    read: (summary) => summary.vehiclesRequired,
+  },
+  {
+    key: 'totalDistance',
+    label: { ru: 'Общий пробег, км', en: 'Total distance, km' },
+    lowerIsBetter: true,
+    read: (summary) => summary.totalDistance,
+  },
+  {
+    key: 'emptyDistance',
+    label: { ru: 'Пробег без груза, км', en: 'Empty distance, km' },
+    lowerIsBetter: true,
+    read: (summary) => summary.emptyDistance,
+  },
+  {
+    key: 'utilization',
+    label: { ru: 'Коэффициент пробега', en: 'Loaded distance ratio' },
+    lowerIsBetter: false,
+    read: (summary) => summary.utilization,
+  },
+  {
+    key: 'totalTime',
+    label: { ru: 'Время в рейсах, ч', en: 'Time on trips, h' },
+    lowerIsBetter: true,
+    read: (summary) => summary.totalTime,
+  },
+  {
+    key: 'maxCompletionTime',
+    label: { ru: 'Завершение работ, ч', en: 'Completion time, h' },
+    lowerIsBetter: true,
+    read: (summary) => summary.maxCompletionTime,
+  },
+  {
+    key: 'totalCost',
+    label: { ru: 'Затраты, ₽', en: 'Costs, ₽' },
+    lowerIsBetter: true,
+    read: (summary) => summary.finance.totalCost,
+  },
+  {
+    key: 'margin',
+    label: { ru: 'Маржа, ₽', en: 'Margin, ₽' },
+    lowerIsBetter: false,
+    read: (summary) => summary.finance.margin,
+  },
+]
+
+export function compareSummaries(
+  base: PlanSummary,
+  other: PlanSummary,
+  locale: Locale = 'ru',
+): MetricDelta[] {
+  return comparisonMetrics.map((metric) => {
+    const baseValue = metric.read(base)
+    const value = metric.read(other)
+    const delta = value - baseValue
+    return {
+      key: metric.key,
+      label: metric.label[locale],
+      base: baseValue,
+      value,
+      delta,
+      improved:
+        metric.lowerIsBetter === null || Math.abs(delta) < 1e-6
+          ? null
+          : metric.lowerIsBetter === delta < 0,
+    }
+  })
+}
@@ -0,0 +1,73 @@
+import type {
+  CostModel,
+  FinancialBreakdown,
+  RequestInput,
+  RouteDistance,
+  RouteTiming,
+} from './types'
+
+export const defaultCostModel: CostModel = {
+  fuelCostPerKm: 35,
+  driverCostPerHour: 450,
+  vehicleDailyCost: 2500,
+  revenuePerTonne: 1200,
+}
+
+export function resolveRevenuePerTonne(
+  request: RequestInput,
+  costs: CostModel,
+): number {
+  return request.revenuePerTonne !== undefined &&
+    Number.isFinite(request.revenuePerTonne) &&
+    request.revenuePerTonne >= 0
+    ? request.revenuePerTonne
+    : costs.revenuePerTonne
+}
+
+export function calculateTripFinance(
+  deliveries: Array<{ request: RequestInput; load: number }>,
+  distances: RouteDistance,
+  timing: RouteTiming,
+  costs: CostModel,
+): FinancialBreakdown {
+  const fuelCost = distances.total * costs.fuelCostPerKm
+  const driverCost = timing.total * costs.driverCostPerHour
+  const revenue = deliveries.reduce(
+    (acc, delivery) =>
+      acc + delivery.load * resolveRevenuePerTonne(delivery.request, costs),
+    0,
+  )
+  return withTotals({
+    fuelCost,
+    driverCost,
+    fixedCost: 0,
+    revenue,
+  })
+}
+
+export function sumFinance(
+  items: FinancialBreakdown[],
+  fixedCost = 0,
+): FinancialBreakdown {
+  const total = items.reduce(
+    (acc, item) => ({
+      fuelCost: acc.fuelCost + item.fuelCost,
+      driverCost: acc.driverCost + item.driverCost,
+      fixedCost: acc.fixedCost + item.fixedCost,
+      revenue: acc.revenue + item.revenue,
+    }),
+    { fuelCost: 0, driverCost: 0, fixedCost, revenue: 0 },
+  )
+  return withTotals(total)
+}
+
+function withTotals(
+  values: Omit<FinancialBreakdown, 'totalCost' | 'margin'>,
+): FinancialBreakdown {
+  const totalCost = values.fuelCost + values.driverCost + values.fixedCost
+  return {
+    ...values,
+    totalCost,
+    margin: values.revenue - totalCost,
+  }
+}
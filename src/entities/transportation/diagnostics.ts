@@ -0,0 +1,211 @@
+import type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  Locale,
+} from './types'
+import { formatDistance, formatHours, localeTags } from './utils'
+
+type DiagnosticDetails = Partial<Omit<Diagnostic, 'code' | 'severity'>>
+
+type MessageTemplate = (
+  values: Record<string, number>,
+  labels: Record<string, string>,
+) => string
+
+const diagnosticSeverity: Record<DiagnosticCode, DiagnosticSeverity> = {
+  'invalid-grid': 'error',
+  'depot-invalid-location': 'error',
+  'depot-impassable': 'error',
+  'request-missing-address': 'error',
+  'request-empty-volume': 'error',
+  'request-invalid-location': 'error',
+  'request-unreachable': 'error',
+  'fleet-empty': 'error',
+  'depots-missing': 'error',
+  'fleet-exhausted': 'error',
+  'work-rules-violated': 'error',
+  'shipper-window-exceeded': 'warning',
+  'receiver-window-exceeded': 'warning',
+  'trip-exceeds-shift': 'warning',
+  'continuous-driving-exceeded': 'warning',
+  'driving-time-exceeded': 'warning',
+  'working-time-exceeded': 'warning',
+  'trip-unknown-vehicle': 'error',
+  'trip-over-capacity': 'error',
+  'trip-load-mismatch': 'error',
+  'trip-unknown-request': 'error',
+  'request-volume-mismatch': 'error',
+  'trips-overlap': 'error',
+  'stop-times-inconsistent': 'error',
+  'trip-timing-mismatch': 'error',
+  'trip-distance-mismatch': 'error',
+  'shift-limit-exceeded': 'error',
+}
+
+// Numbers in the messages are written the way the rest of the interface
+// writes them for the locale.
+const numberFormats = (locale: Locale) => ({
+  hours: (value: number) => formatHours(value, locale),
+  tonnes: (value: number) =>
+    value.toLocaleString(localeTags[locale], {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }),
+  kilometres: (value: number) => formatDistance(value, locale),
+})
+const ru = numberFormats('ru')
+const en = numberFormats('en')
+
+const diagnosticMessages: Record<
+  Locale,
+  Record<DiagnosticCode, MessageTemplate>
+> = {
+  ru: {
+    'invalid-grid': () => 'Параметры сетки заданы неверно.',
+    'depot-invalid-location': (_, labels) =>
+      `АТП «${labels.depot}»: неверный код расположения ${labels.location}.`,
+    'depot-impassable': (_, labels) =>
+      `АТП «${labels.depot}» расположено в непроезжей клетке.`,
+    'request-missing-address': (_, labels) =>
+      `Заявка с кодом ${labels.request} не содержит адресов.`,
+    'request-empty-volume': (_, labels) =>
+      `Заявка ${labels.shipper}-${labels.receiver} имеет нулевой объём.`,
+    'request-invalid-location': (_, labels) =>
+      `Заявка ${labels.shipper}-${labels.receiver}: неверный код клиента.`,
+    'request-unreachable': (_, labels) =>
+      `Заявка ${labels.shipper}-${labels.receiver}: маршрут по дорожной сети недоступен.`,
+    'fleet-empty': () => 'Автопарк не задан: добавьте хотя бы один автомобиль.',
+    'depots-missing': () =>
+      'Не задано ни одного АТП: добавьте место базирования автомобилей.',
+    'fleet-exhausted': (values) =>
+      values.planningDays > 1
+        ? 'Автопарка недостаточно: часть рейсов не помещается в горизонт планирования и назначена сверх смены последнего дня.'
+        : 'Автопарка недостаточно: часть рейсов назначена сверх длительности смены.',
+    'work-rules-violated': (values) =>
+      `Нарушены нормы режима труда и отдыха водителей: ${values.vehicles} автомобил(ей). Подробности — в таблице автомобилей.`,
+    'shipper-window-exceeded': (values, labels) =>
+      `Погрузка у отправителя ${labels.location} завершается после закрытия (${ru.hours(values.departure)} ч > ${ru.hours(values.close)} ч).`,
+    'receiver-window-exceeded': (values) =>
+      `Работы у клиента превышают рабочее время (${ru.hours(values.departure)} ч > ${ru.hours(values.close)} ч).`,
+    'trip-exceeds-shift': (values) =>
+      `Продолжительность рейса превышает смену (${ru.hours(values.duration)} ч > ${ru.hours(values.workdayLength)} ч).`,
+    'continuous-driving-exceeded': (values, labels) =>
+      `Рейс #${values.tripNumber} (${labels.trip}): непрерывное управление ${ru.hours(values.driving)} ч превышает норму ${ru.hours(values.limit)} ч без перерыва.`,
+    'driving-time-exceeded': (values) =>
+      `Суммарное время управления ${ru.hours(values.driving)} ч превышает норму ${ru.hours(values.limit)} ч.`,
+    'working-time-exceeded': (values) =>
+      `Рабочее время водителя ${ru.hours(values.working)} ч превышает норму ${ru.hours(values.limit)} ч.`,
+    'trip-unknown-vehicle': (values) =>
+      `Рейс #${values.tripNumber} назначен автомобилю #${values.vehicle}, которого нет в автопарке.`,
+    'trip-over-capacity': (values) =>
+      `Автомобиль #${values.vehicle}, рейс #${values.tripNumber}: загрузка ${ru.tonnes(values.load)} т превышает грузоподъёмность ${ru.tonnes(values.capacity)} т.`,
+    'trip-load-mismatch': (values) =>
+      `Автомобиль #${values.vehicle}, рейс #${values.tripNumber}: загрузка ${ru.tonnes(values.load)} т не совпадает с суммой выгрузок ${ru.tonnes(values.dropped)} т.`,
+    'trip-unknown-request': (values, labels) =>
+      `Автомобиль #${values.vehicle}, рейс #${values.tripNumber}: выгрузка у ${labels.location} не относится ни к одной заявке.`,
+    'request-volume-mismatch': (values, labels) =>
+      `Заявка ${labels.shipper}-${labels.receiver}: доставлено ${ru.tonnes(values.delivered)} т из ${ru.tonnes(values.volume)} т.`,
+    'trips-overlap': (values) =>
+      `Автомобиль #${values.vehicle}: рейс #${values.tripNumber} начинается в ${ru.hours(values.start)} ч, до окончания рейса #${values.otherTripNumber} в ${ru.hours(values.previousEnd)} ч.`,
+    'stop-times-inconsistent': (values, labels) =>
+      `Автомобиль #${values.vehicle}, рейс #${values.tripNumber}: время прибытия, начала работ и отправления у ${labels.location} не согласовано.`,
+    'trip-timing-mismatch': (values) =>
+      `Автомобиль #${values.vehicle}, рейс #${values.tripNumber}: итоги по времени (${ru.hours(values.total)} ч) не сходятся с расписанием остановок (${ru.hours(values.scheduled)} ч).`,
+    'trip-distance-mismatch': (values) =>
+      `Автомобиль #${values.vehicle}, рейс #${values.tripNumber}: пробег ${ru.kilometres(values.total)} км не сходится с суммой участков ${ru.kilometres(values.legs)} км.`,
+    'shift-limit-exceeded': (values) =>
+      `Автомобиль #${values.vehicle}, рейс #${values.tripNumber} выходит за пределы смены (${ru.hours(values.start)}–${ru.hours(values.end)} ч при смене ${ru.hours(values.workdayLength)} ч).`,
+  },
+  en: {
+    'invalid-grid': () => 'The grid parameters are invalid.',
+    'depot-invalid-location': (_, labels) =>
+      `Depot "${labels.depot}": invalid location code ${labels.location}.`,
+    'depot-impassable': (_, labels) =>
+      `Depot "${labels.depot}" is located in a blocked cell.`,
+    'request-missing-address': (_, labels) =>
+      `Request ${labels.request} has no addresses.`,
+    'request-empty-volume': (_, labels) =>
+      `Request ${labels.shipper}-${labels.receiver} has zero volume.`,
+    'request-invalid-location': (_, labels) =>
+      `Request ${labels.shipper}-${labels.receiver}: invalid customer code.`,
+    'request-unreachable': (_, labels) =>
+      `Request ${labels.shipper}-${labels.receiver}: no route through the road network.`,
+    'fleet-empty': () => 'The fleet is empty: add at least one vehicle.',
+    'depots-missing': () => 'No depots defined: add a vehicle base.',
+    'fleet-exhausted': (values) =>
+      values.planningDays > 1
+        ? "The fleet is too small: some trips do not fit into the planning horizon and overrun the last day's shift."
+        : 'The fleet is too small: some trips overrun the shift.',
+    'work-rules-violated': (values) =>
+      `Driver working time rules are broken for ${values.vehicles} vehicle(s). See the vehicle table for details.`,
+    'shipper-window-exceeded': (values, labels) =>
+      `Loading at shipper ${labels.location} ends after closing time (${en.hours(values.departure)} h > ${en.hours(values.close)} h).`,
+    'receiver-window-exceeded': (values) =>
+      `Work at the customer runs past business hours (${en.hours(values.departure)} h > ${en.hours(values.close)} h).`,
+    'trip-exceeds-shift': (values) =>
+      `The trip is longer than the shift (${en.hours(values.duration)} h > ${en.hours(values.workdayLength)} h).`,
+    'continuous-driving-exceeded': (values, labels) =>
+      `Trip #${values.tripNumber} (${labels.trip}): continuous driving of ${en.hours(values.driving)} h exceeds the ${en.hours(values.limit)} h limit without a break.`,
+    'driving-time-exceeded': (values) =>
+      `Total driving time of ${en.hours(values.driving)} h exceeds the ${en.hours(values.limit)} h limit.`,
+    'working-time-exceeded': (values) =>
+      `Driver working time of ${en.hours(values.working)} h exceeds the ${en.hours(values.limit)} h limit.`,
+    'trip-unknown-vehicle': (values) =>
+      `Trip #${values.tripNumber} is assigned to vehicle #${values.vehicle}, which is not in the fleet.`,
+    'trip-over-capacity': (values) =>
+      `Vehicle #${values.vehicle}, trip #${values.tripNumber}: the load of ${en.tonnes(values.load)} t exceeds the ${en.tonnes(values.capacity)} t capacity.`,
+    'trip-load-mismatch': (values) =>
+      `Vehicle #${values.vehicle}, trip #${values.tripNumber}: the load of ${en.tonnes(values.load)} t does not match the ${en.tonnes(values.dropped)} t of drops.`,
+    'trip-unknown-request': (values, labels) =>
+      `Vehicle #${values.vehicle}, trip #${values.tripNumber}: the drop at ${labels.location} does not belong to any request.`,
+    'request-volume-mismatch': (values, labels) =>
+      `Request ${labels.shipper}-${labels.receiver}: ${en.tonnes(values.delivered)} t of ${en.tonnes(values.volume)} t delivered.`,
+    'trips-overlap': (values) =>
+      `Vehicle #${values.vehicle}: trip #${values.tripNumber} starts at ${en.hours(values.start)} h, before trip #${values.otherTripNumber} ends at ${en.hours(values.previousEnd)} h.`,
+    'stop-times-inconsistent': (values, labels) =>
+      `Vehicle #${values.vehicle}, trip #${values.tripNumber}: arrival, service and departure times at ${labels.location} are inconsistent.`,
+    'trip-timing-mismatch': (values) =>
+      `Vehicle #${values.vehicle}, trip #${values.tripNumber}: the time totals (${en.hours(values.total)} h) do not match the stop schedule (${en.hours(values.scheduled)} h).`,
+    'trip-distance-mismatch': (values) =>
+      `Vehicle #${values.vehicle}, trip #${values.tripNumber}: the distance of ${en.kilometres(values.total)} km does not match the ${en.kilometres(values.legs)} km of its legs.`,
+    'shift-limit-exceeded': (values) =>
+      `Vehicle #${values.vehicle}, trip #${values.tripNumber} runs outside the shift (${en.hours(values.start)}–${en.hours(values.end)} h with a ${en.hours(values.workdayLength)} h shift).`,
+  },
+}
+
+const dayPrefixes: Record<Locale, (day: number) => string> = {
+  ru: (day) => `День ${day}`,
+  en: (day) => `Day ${day}`,
+}
+
+export function createDiagnostic(
+  code: DiagnosticCode,
+  details: DiagnosticDetails = {},
+): Diagnostic {
+  return {
+    code,
+    severity: diagnosticSeverity[code],
+    ...details,
+    values: details.values ?? {},
+    labels: details.labels ?? {},
+  }
+}
+
+/**
+ * Renders a diagnostic as a user-facing message. Diagnostics tied to a day of
+ * a multi-day plan carry a zero-based `day` value and get a day prefix.
+ */
+export function formatDiagnostic(
+  diagnostic: Diagnostic,
+  locale: Locale = 'ru',
+): string {
+  const message = diagnosticMessages[locale][diagnostic.code](
+    diagnostic.values,
+    diagnostic.labels,
+  )
+  const { day } = diagnostic.values
+  return day === undefined
+    ? message
+    : `${dayPrefixes[locale](day + 1)}: ${message}`
+}
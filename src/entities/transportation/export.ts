@@ -0,0 +1,533 @@
+import { formatDiagnostic } from './diagnostics'
+import type {
+  Locale,
+  PlanResult,
+  PlanSummary,
+  TripPlan,
+  VehicleSchedule,
+  VehicleType,
+} from './types'
+import { describeTripRoute, localeTags } from './utils'
+import type { SpreadsheetCell, SpreadsheetSheet } from './xlsx'
+import { createXlsxWorkbook } from './xlsx'
+
+export const PLAN_EXPORT_FORMAT = 'light-track/plan'
+export const PLAN_EXPORT_VERSION = 1
+
+const exportMessages = {
+  ru: {
+    summary: 'Сводка',
+    totalTrips: 'Количество рейсов',
+    totalVolume: 'Перевезённый объём, т',
+    totalDistance: 'Пробег общий, км',
+    loadedDistance: 'Пробег с грузом, км',
+    emptyDistance: 'Пробег без груза, км',
+    utilization: 'Коэффициент использования',
+    vehiclesRequired: 'Автомобилей задействовано',
+    daysUsed: 'Дней в плане',
+    baselineVehicles: 'Автомобилей без оптимизации',
+    fuelCost: 'Затраты на топливо, ₽',
+    driverCost: 'Оплата водителей, ₽',
+    fixedCost: 'Постоянные затраты, ₽',
+    totalCost: 'Затраты всего, ₽',
+    revenue: 'Выручка, ₽',
+    margin: 'Маржа, ₽',
+    trips: 'Рейсы',
+    vehicle: 'Авто',
+    vehicleType: 'Тип автомобиля',
+    trip: 'Рейс',
+    route: 'Маршрут',
+    scheme: 'Схема движения',
+    load: 'Тоннаж, т',
+    drops: 'Выгрузки, т',
+    distance: 'Расстояние, км',
+    time: 'Время, ч',
+    waiting: 'Ожидание, ч',
+    day: 'День',
+    start: 'Начало, ч',
+    end: 'Окончание, ч',
+    tripCost: 'Затраты, ₽',
+    tripRevenue: 'Выручка, ₽',
+    tripMargin: 'Маржа, ₽',
+    notes: 'Примечания',
+    issues: 'Замечания',
+    vehicles: 'Автомобили',
+    capacity: 'Грузоподъёмность, т',
+    depot: 'АТП',
+    tripCount: 'Рейсов',
+    driving: 'Управление, ч',
+    breaks: 'Перерывов',
+    violations: 'Нарушения РТО',
+    calendarName: (id: number) => `Автомобиль #${id}`,
+    calendarTrip: (number: number, label: string) =>
+      `Рейс #${number}: ${label}`,
+    calendarBreak: 'Перерыв водителя',
+    calendarStop: {
+      depot: 'АТП',
+      shipper: 'погрузка',
+      receiver: 'выгрузка',
+    },
+    calendarLoad: (load: string) => `Груз: ${load} т`,
+  },
+  en: {
+    summary: 'Summary',
+    totalTrips: 'Number of trips',
+    totalVolume: 'Transported volume, t',
+    totalDistance: 'Total distance, km',
+    loadedDistance: 'Loaded distance, km',
+    emptyDistance: 'Empty distance, km',
+    utilization: 'Utilisation ratio',
+    vehiclesRequired: 'Vehicles used',
+    daysUsed: 'Days in plan',
+    baselineVehicles: 'Vehicles without optimisation',
+    fuelCost: 'Fuel costs, ₽',
+    driverCost: 'Driver pay, ₽',
+    fixedCost: 'Fixed costs, ₽',
+    totalCost: 'Total costs, ₽',
+    revenue: 'Revenue, ₽',
+    margin: 'Margin, ₽',
+    trips: 'Trips',
+    vehicle: 'Vehicle',
+    vehicleType: 'Vehicle type',
+    trip: 'Trip',
+    route: 'Route',
+    scheme: 'Route scheme',
+    load: 'Load, t',
+    drops: 'Drops, t',
+    distance: 'Distance, km',
+    time: 'Time, h',
+    waiting: 'Waiting, h',
+    day: 'Day',
+    start: 'Start, h',
+    end: 'End, h',
+    tripCost: 'Costs, ₽',
+    tripRevenue: 'Revenue, ₽',
+    tripMargin: 'Margin, ₽',
+    notes: 'Notes',
+    issues: 'Issues',
+    vehicles: 'Vehicles',
+    capacity: 'Capacity, t',
+    depot: 'Depot',
+    tripCount: 'Trips',
+    driving: 'Driving, h',
+    breaks: 'Breaks',
+    violations: 'WTR violations',
+    calendarName: (id: number) => `Vehicle #${id}`,
+    calendarTrip: (number: number, label: string) =>
+      `Trip #${number}: ${label}`,
+    calendarBreak: 'Driver break',
+    calendarStop: {
+      depot: 'depot',
+      shipper: 'loading',
+      receiver: 'unloading',
+    },
+    calendarLoad: (load: string) => `Load: ${load} t`,
+  },
+}
+
+type ExportMessages = (typeof exportMessages)[Locale]
+
+type ExportLabel = {
+  [K in keyof ExportMessages]: ExportMessages[K] extends string ? K : never
+}[keyof ExportMessages]
+
+/**
+ * One column of an exported table. Numbers stay numbers in the workbook;
+ * `digits` rounds them for CSV, where every value is written as text.
+ */
+interface ExportColumn<T> {
+  label: ExportLabel
+  read: (item: T, locale: Locale) => SpreadsheetCell
+  digits?: number
+  // Written with the locale's decimal separator in CSV.
+  localized?: boolean
+}
+
+const summaryColumns: ExportColumn<PlanResult>[] = [
+  { label: 'totalTrips', read: ({ summary }) => summary.totalTrips },
+  {
+    label: 'totalVolume',
+    read: ({ summary }) => summary.totalVolume,
+    digits: 2,
+  },
+  {
+    label: 'totalDistance',
+    read: ({ summary }) => summary.totalDistance,
+    digits: 1,
+  },
+  {
+    label: 'loadedDistance',
+    read: ({ summary }) => summary.loadedDistance,
+    digits: 1,
+  },
+  {
+    label: 'emptyDistance',
+    read: ({ summary }) => summary.emptyDistance,
+    digits: 1,
+  },
+  {
+    label: 'utilization',
+    read: ({ summary }) => summary.utilization,
+    digits: 2,
+    localized: true,
+  },
+  {
+    label: 'vehiclesRequired',
+    read: ({ summary }) => summary.vehiclesRequired,
+  },
+  { label: 'daysUsed', read: ({ summary }) => summary.daysUsed },
+]
+
+const optimizationColumns: ExportColumn<PlanResult>[] = [
+  {
+    label: 'baselineVehicles',
+    read: ({ optimization }) => optimization?.baselineVehicles ?? '',
+  },
+]
+
+const financeColumns: ExportColumn<PlanSummary['finance']>[] = [
+  { label: 'fuelCost', read: (finance) => finance.fuelCost, digits: 2 },
+  { label: 'driverCost', read: (finance) => finance.driverCost, digits: 2 },
+  { label: 'fixedCost', read: (finance) => finance.fixedCost, digits: 2 },
+  { label: 'totalCost', read: (finance) => finance.totalCost, digits: 2 },
+  { label: 'revenue', read: (finance) => finance.revenue, digits: 2 },
+  { label: 'margin', read: (finance) => finance.margin, digits: 2 },
+]
+
+interface TripRow {
+  trip: TripPlan
+  vehicleType: VehicleType | undefined
+}
+
+const tripColumns: ExportColumn<TripRow>[] = [
+  { label: 'vehicle', read: ({ trip }) => `#${trip.vehicleId}` },
+  { label: 'vehicleType', read: ({ vehicleType }) => vehicleType?.name ?? '' },
+  { label: 'trip', read: ({ trip }) => trip.tripNumber },
+  { label: 'route', read: ({ trip }) => trip.requestLabel },
+  {
+    label: 'scheme',
+    read: ({ trip }, locale) => describeTripRoute(trip, locale),
+  },
+  { label: 'load', read: ({ trip }) => trip.load, digits: 2 },
+  {
+    label: 'drops',
+    read: ({ trip }) =>
+      trip.drops
+        .map((drop) => `${drop.receiverCode}: ${drop.load.toFixed(2)}`)
+        .join(', '),
+  },
+  { label: 'distance', read: ({ trip }) => trip.distances.total, digits: 1 },
+  { label: 'time', read: ({ trip }) => trip.timing.total, digits: 2 },
+  { label: 'waiting', read: ({ trip }) => trip.timing.waiting, digits: 2 },
+  { label: 'day', read: ({ trip }) => trip.schedule.day + 1 },
+  { label: 'start', read: ({ trip }) => trip.schedule.startTime, digits: 2 },
+  { label: 'end', read: ({ trip }) => trip.schedule.endTime, digits: 2 },
+  { label: 'tripCost', read: ({ trip }) => trip.finance.totalCost, digits: 2 },
+  { label: 'tripRevenue', read: ({ trip }) => trip.finance.revenue, digits: 2 },
+  { label: 'tripMargin', read: ({ trip }) => trip.finance.margin, digits: 2 },
+  {
+    label: 'notes',
+    read: ({ trip }, locale) =>
+      trip.warnings
+        .map((warning) => formatDiagnostic(warning, locale))
+        .join(' '),
+  },
+]
+
+const vehicleColumns: ExportColumn<VehicleSchedule>[] = [
+  { label: 'vehicle', read: (vehicle) => `#${vehicle.vehicleId}` },
+  { label: 'vehicleType', read: (vehicle) => vehicle.vehicleType.name },
+  {
+    label: 'capacity',
+    read: (vehicle) => vehicle.vehicleType.capacity,
+    digits: 2,
+  },
+  {
+    label: 'depot',
+    read: (vehicle) => `${vehicle.homeDepot.name} (${vehicle.homeDepot.code})`,
+  },
+  { label: 'tripCount', read: (vehicle) => vehicle.trips.length },
+  { label: 'distance', read: (vehicle) => vehicle.totalDistance, digits: 1 },
+  { label: 'time', read: (vehicle) => vehicle.totalTime, digits: 2 },
+  { label: 'driving', read: (vehicle) => vehicle.drivingTime, digits: 2 },
+  { label: 'breaks', read: (vehicle) => vehicle.breaks.length },
+  {
+    label: 'tripCost',
+    read: (vehicle) => vehicle.finance.totalCost,
+    digits: 2,
+  },
+  { label: 'tripMargin', read: (vehicle) => vehicle.finance.margin, digits: 2 },
+  {
+    label: 'violations',
+    read: (vehicle, locale) =>
+      vehicle.violations
+        .map((violation) => formatDiagnostic(violation, locale))
+        .join(' '),
+  },
+]
+
+// A column read for one item, ready to be written in either format.
+interface ExportValue {
+  label: ExportLabel
+  value: SpreadsheetCell
+  digits?: number
+  localized?: boolean
+}
+
+function readColumns<T>(
+  columns: ExportColumn<T>[],
+  item: T,
+  locale: Locale,
+): ExportValue[] {
+  return columns.map(({ read, ...column }) => ({
+    ...column,
+    value: read(item, locale),
+  }))
+}
+
+function tripRows(plan: PlanResult): TripRow[] {
+  const vehicleTypes = new Map(
+    plan.vehicles.map((vehicle) => [vehicle.vehicleId, vehicle.vehicleType]),
+  )
+  return plan.trips.map((trip) => ({
+    trip,
+    vehicleType: vehicleTypes.get(trip.vehicleId),
+  }))
+}
+
+function summaryValues(plan: PlanResult, locale: Locale): ExportValue[] {
+  return [
+    ...readColumns(summaryColumns, plan, locale),
+    ...(plan.optimization
+      ? readColumns(optimizationColumns, plan, locale)
+      : []),
+    ...readColumns(financeColumns, plan.summary.finance, locale),
+  ]
+}
+
+function formatCsvCell(
+  { value, digits, localized }: ExportValue,
+  locale: Locale,
+): string {
+  if (typeof value !== 'number' || digits === undefined) {
+    return String(value)
+  }
+  return localized
+    ? value.toLocaleString(localeTags[locale], {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      })
+    : value.toFixed(digits)
+}
+
+// Every cell is quoted: depot and vehicle type names are free text and may
+// contain the separator, quotes or line breaks.
+function quoteCsvCell(cell: string): string {
+  return `"${cell.replace(/"/g, '""')}"`
+}
+
+/**
+ * Semicolon-separated summary, trip table and plan issues, in the layout
+ * spreadsheet applications open with the Russian regional settings.
+ * Quoting and line breaks follow RFC 4180.
+ */
+export function serializePlanCsv(plan: PlanResult, locale: Locale): string {
+  const messages = exportMessages[locale]
+  const rows: string[][] = [[messages.summary]]
+  for (const item of summaryValues(plan, locale)) {
+    rows.push([messages[item.label], formatCsvCell(item, locale)])
+  }
+
+  rows.push([])
+  rows.push([messages.trips])
+  rows.push(tripColumns.map((column) => messages[column.label]))
+  for (const row of tripRows(plan)) {
+    rows.push(
+      readColumns(tripColumns, row, locale).map((item) =>
+        formatCsvCell(item, locale),
+      ),
+    )
+  }
+
+  if (plan.errors.length > 0) {
+    rows.push([])
+    rows.push([messages.issues])
+    for (const error of plan.errors) {
+      rows.push([formatDiagnostic(error, locale)])
+    }
+  }
+
+  return rows.map((row) => row.map(quoteCsvCell).join(';')).join('\r\n')
+}
+
+/**
+ * Workbook with the plan summary, the trip table and the fleet table on
+ * separate sheets. Values keep full precision.
+ */
+export function serializePlanXlsx(
+  plan: PlanResult,
+  locale: Locale,
+): Uint8Array<ArrayBuffer> {
+  const messages = exportMessages[locale]
+  const summary: SpreadsheetCell[][] = summaryValues(plan, locale).map(
+    (item) => [messages[item.label], item.value],
+  )
+  if (plan.errors.length > 0) {
+    summary.push([], [messages.issues])
+    for (const error of plan.errors) {
+      summary.push([formatDiagnostic(error, locale)])
+    }
+  }
+
+  const sheets: SpreadsheetSheet[] = [
+    { name: messages.summary, rows: summary },
+    {
+      name: messages.trips,
+      rows: [
+        tripColumns.map((column) => messages[column.label]),
+        ...tripRows(plan).map((row) =>
+          tripColumns.map((column) => column.read(row, locale)),
+        ),
+      ],
+      headerRows: [0],
+    },
+    {
+      name: messages.vehicles,
+      rows: [
+        vehicleColumns.map((column) => messages[column.label]),
+        ...plan.vehicles.map((vehicle) =>
+          vehicleColumns.map((column) => column.read(vehicle, locale)),
+        ),
+      ],
+      headerRows: [0],
+    },
+  ]
+  return createXlsxWorkbook(sheets)
+}
+
+// JSON has no literal for these numbers, so they are written as tagged
+// strings instead of the `null` JSON.stringify would put in their place.
+const NON_FINITE_PREFIX = '$number:'
+
+/**
+ * Complete `PlanResult` as JSON: every field is kept, including infinite
+ * values.
+ */
+export function serializePlanJson(plan: PlanResult): string {
+  return JSON.stringify(
+    { format: PLAN_EXPORT_FORMAT, version: PLAN_EXPORT_VERSION, plan },
+    (_key, value) =>
+      typeof value === 'number' && !Number.isFinite(value)
+        ? `${NON_FINITE_PREFIX}${value}`
+        : value,
+    2,
+  )
+}
+
+const ICS_LINE_LIMIT = 75
+const HOUR_MS = 60 * 60 * 1000
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space.
+function foldIcsLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const code = char.codePointAt(0) ?? 0
+    const bytes = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+    const limit = parts.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1
+    if (size + bytes > limit) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * iCalendar file with the trips and driver breaks of one vehicle. Plan times
+ * count hours from `shiftStart`, the beginning of the first working day.
+ */
+export function serializeVehicleCalendar(
+  vehicle: VehicleSchedule,
+  shiftStart: Date,
+  locale: Locale,
+  generatedAt: Date = new Date(),
+): string {
+  const messages = exportMessages[locale]
+  const at = (hours: number) => new Date(shiftStart.getTime() + hours * HOUR_MS)
+  const clock = (hours: number) =>
+    at(hours).toLocaleTimeString(localeTags[locale], {
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  const stamp = formatIcsDate(generatedAt)
+
+  const trips = [...vehicle.trips]
+    .sort((a, b) => a.schedule.startTime - b.schedule.startTime)
+    .map((trip) => {
+      const stops = trip.schedule.stops.map(
+        (stop) =>
+          `${clock(stop.arrival)}–${clock(stop.departure)} ${stop.code}, ${messages.calendarStop[stop.kind]}`,
+      )
+      const shipper = trip.schedule.stops.find(
+        (stop) => stop.kind === 'shipper',
+      )
+      return [
+        'BEGIN:VEVENT',
+        `UID:${trip.id}@light-track`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatIcsDate(at(trip.schedule.startTime))}`,
+        `DTEND:${formatIcsDate(at(trip.schedule.endTime))}`,
+        `SUMMARY:${escapeIcsText(messages.calendarTrip(trip.tripNumber, trip.requestLabel))}`,
+        ...(shipper ? [`LOCATION:${escapeIcsText(shipper.code)}`] : []),
+        `DESCRIPTION:${escapeIcsText(
+          [messages.calendarLoad(trip.load.toFixed(2)), ...stops].join('\n'),
+        )}`,
+        'END:VEVENT',
+      ]
+    })
+
+  const breaks = vehicle.breaks.map((pause, index) => [
+    'BEGIN:VEVENT',
+    `UID:vehicle-${vehicle.vehicleId}-break-${index + 1}-${formatIcsDate(at(pause.start))}@light-track`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatIcsDate(at(pause.start))}`,
+    `DTEND:${formatIcsDate(at(pause.end))}`,
+    `SUMMARY:${escapeIcsText(messages.calendarBreak)}`,
+    'END:VEVENT',
+  ])
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Light Track//Transportation planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(messages.calendarName(vehicle.vehicleId))}`,
+    ...trips.flat(),
+    ...breaks.flat(),
+    'END:VCALENDAR',
+  ]
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`
+}
@@ -0,0 +1,315 @@
+import type {
+  GridConfig,
+  GridPoint,
+  Locale,
+  PlannerParameters,
+  RoadNetwork,
+} from './types'
+import { calculateDistance, formatGridCode, parseGridCode } from './utils'
+
+export interface NetworkRoute {
+  distance: number
+  travelCost: number
+  path: GridPoint[]
+}
+
+export interface RouteFinder {
+  isPassable: (point: GridPoint) => boolean
+  route: (from: GridPoint, to: GridPoint) => NetworkRoute
+}
+
+type RouteFinderParameters = Pick<
+  PlannerParameters,
+  'grid' | 'network' | 'cellSize' | 'distanceMode'
+>
+
+interface ShortestPathTree {
+  costs: Float64Array
+  previous: Int32Array
+}
+
+interface HeapEntry {
+  node: number
+  priority: number
+}
+
+const NEIGHBOUR_OFFSETS: Array<[number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+]
+
+const networkMessages = {
+  ru: {
+    blockedOutside: (code: string) =>
+      `Непроезжая клетка ${code} находится вне сетки.`,
+    invalidCode: (from: string, to: string) =>
+      `Участок ${from}–${to}: неверный код клетки.`,
+    notAdjacent: (from: string, to: string) =>
+      `Участок ${from}–${to}: клетки должны быть соседними.`,
+    invalidWeight: (from: string, to: string) =>
+      `Участок ${from}–${to}: коэффициент должен быть больше нуля.`,
+  },
+  en: {
+    blockedOutside: (code: string) =>
+      `Blocked cell ${code} lies outside the grid.`,
+    invalidCode: (from: string, to: string) =>
+      `Segment ${from}–${to}: invalid cell code.`,
+    notAdjacent: (from: string, to: string) =>
+      `Segment ${from}–${to}: cells must be adjacent.`,
+    invalidWeight: (from: string, to: string) =>
+      `Segment ${from}–${to}: the factor must be greater than zero.`,
+  },
+}
+
+export const emptyRoadNetwork: RoadNetwork = {
+  blockedCells: [],
+  edgeWeights: [],
+}
+
+export function validateRoadNetwork(
+  network: RoadNetwork,
+  grid: GridConfig,
+  locale: Locale = 'ru',
+): string | null {
+  const messages = networkMessages[locale]
+  for (const code of network.blockedCells) {
+    if (!parseGridCode(code, grid)) {
+      return messages.blockedOutside(code)
+    }
+  }
+
+  for (const edge of network.edgeWeights) {
+    const from = parseGridCode(edge.from, grid)
+    const to = parseGridCode(edge.to, grid)
+    if (!from || !to) {
+      return messages.invalidCode(edge.from || '—', edge.to || '—')
+    }
+    if (Math.abs(from.column - to.column) + Math.abs(from.row - to.row) !== 1) {
+      return messages.notAdjacent(from.code, to.code)
+    }
+    if (!Number.isFinite(edge.weight) || edge.weight <= 0) {
+      return messages.invalidWeight(from.code, to.code)
+    }
+  }
+
+  return null
+}
+
+export function createRouteFinder(params: RouteFinderParameters): RouteFinder {
+  const { distanceMode } = params
+  if (distanceMode !== 'network') {
+    return {
+      isPassable: () => true,
+      route: (from, to) => {
+        const distance = calculateDistance(
+          from,
+          to,
+          params.cellSize,
+          distanceMode,
+        )
+        return {
+          distance,
+          travelCost: distance,
+          path:
+            distanceMode === 'manhattan'
+              ? manhattanPath(from, to, params.grid)
+              : [from, to],
+        }
+      },
+    }
+  }
+
+  const { grid, network, cellSize } = params
+  const toIndex = (point: GridPoint) => point.row * grid.columns + point.column
+
+  const blocked = new Set<number>()
+  for (const code of network.blockedCells) {
+    const point = parseGridCode(code, grid)
+    if (point) {
+      blocked.add(toIndex(point))
+    }
+  }
+
+  const weights = new Map<string, number>()
+  for (const edge of network.edgeWeights) {
+    const from = parseGridCode(edge.from, grid)
+    const to = parseGridCode(edge.to, grid)
+    if (from && to && edge.weight > 0) {
+      weights.set(edgeKey(toIndex(from), toIndex(to)), edge.weight)
+    }
+  }
+
+  const trees = new Map<number, ShortestPathTree>()
+  const getTree = (source: number) => {
+    const cached = trees.get(source)
+    if (cached) {
+      return cached
+    }
+    const tree = buildShortestPathTree(source, grid, blocked, (a, b) => {
+      return cellSize * (weights.get(edgeKey(a, b)) ?? 1)
+    })
+    trees.set(source, tree)
+    return tree
+  }
+
+  const toPoint = (index: number): GridPoint => {
+    const column = index % grid.columns
+    const row = Math.floor(index / grid.columns)
+    return { code: formatGridCode(column, row, grid), column, row }
+  }
+
+  return {
+    isPassable: (point) => !blocked.has(toIndex(point)),
+    route: (from, to) => {
+      const source = toIndex(from)
+      const target = toIndex(to)
+      if (source === target) {
+        return { distance: 0, travelCost: 0, path: [from] }
+      }
+
+      const tree = getTree(source)
+      const travelCost = tree.costs[target]
+      if (!Number.isFinite(travelCost)) {
+        return { distance: Infinity, travelCost: Infinity, path: [] }
+      }
+
+      const indices: number[] = []
+      for (let node = target; node !== -1; node = tree.previous[node]) {
+        indices.unshift(node)
+      }
+      const path = indices.map((index, position) =>
+        position === 0
+          ? from
+          : position === indices.length - 1
+            ? to
+            : toPoint(index),
+      )
+
+      return {
+        distance: cellSize * (path.length - 1),
+        travelCost,
+        path,
+      }
+    },
+  }
+}
+
+/**
+ * Grid-aligned path of a manhattan leg: along the row of `from` to the column
+ * of `to`, then along that column. Only the corner is added between the ends.
+ */
+function manhattanPath(
+  from: GridPoint,
+  to: GridPoint,
+  grid: GridConfig,
+): GridPoint[] {
+  if (from.column === to.column || from.row === to.row) {
+    return [from, to]
+  }
+  const corner = {
+    code: formatGridCode(to.column, from.row, grid),
+    column: to.column,
+    row: from.row,
+  }
+  return [from, corner, to]
+}
+
+function edgeKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`
+}
+
+function buildShortestPathTree(
+  source: number,
+  grid: GridConfig,
+  blocked: Set<number>,
+  edgeCost: (a: number, b: number) => number,
+): ShortestPathTree {
+  const size = grid.columns * grid.rows
+  const costs = new Float64Array(size).fill(Infinity)
+  const previous = new Int32Array(size).fill(-1)
+  const heap: HeapEntry[] = []
+
+  costs[source] = 0
+  heapPush(heap, { node: source, priority: 0 })
+
+  while (heap.length > 0) {
+    const current = heapPop(heap)
+    if (current.priority > costs[current.node]) {
+      continue
+    }
+
+    const column = current.node % grid.columns
+    const row = Math.floor(current.node / grid.columns)
+
+    for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+      const nextColumn = column + dx
+      const nextRow = row + dy
+      if (
+        nextColumn < 0 ||
+        nextRow < 0 ||
+        nextColumn >= grid.columns ||
+        nextRow >= grid.rows
+      ) {
+        continue
+      }
+
+      const next = nextRow * grid.columns + nextColumn
+      if (blocked.has(next)) {
+        continue
+      }
+
+      const cost = costs[current.node] + edgeCost(current.node, next)
+      if (cost < costs[next] - 1e-12) {
+        costs[next] = cost
+        previous[next] = current.node
+        heapPush(heap, { node: next, priority: cost })
+      }
+    }
+  }
+
+  return { costs, previous }
+}
+
+function heapPush(heap: HeapEntry[], entry: HeapEntry) {
+  heap.push(entry)
+  let index = heap.length - 1
+  while (index > 0) {
+    const parent = (index - 1) >> 1
+    if (heap[parent].priority <= heap[index].priority) {
+      break
+    }
+    ;[heap[parent], heap[index]] = [heap[index], heap[parent]]
+    index = parent
+  }
+}
+
+function heapPop(heap: HeapEntry[]): HeapEntry {
+  const top = heap[0]
+  const last = heap.pop() as HeapEntry
+  if (heap.length > 0) {
+    heap[0] = last
+    let index = 0
+    while (true) {
+      const left = index * 2 + 1
+      const right = left + 1
+      let smallest = index
+      if (left < heap.length && heap[left].priority < heap[smallest].priority) {
+        smallest = left
+      }
+      if (
+        right < heap.length &&
+        heap[right].priority < heap[smallest].priority
+      ) {
+        smallest = right
+      }
+      if (smallest === index) {
+        break
+      }
+      ;[heap[smallest], heap[index]] = [heap[index], heap[smallest]]
+      index = smallest
+    }
+  }
+  return top
+}
@@ -0,0 +1,160 @@
+import { compareRequestUrgency } from './priorities'
+import type { PlanResult, RequestInput } from './types'
+
+const MAX_EVALUATIONS = 400
+
+interface OrderSearchResult {
+  plan: PlanResult
+  order: RequestInput[]
+  evaluations: number
+}
+
+/**
+ * Orders plans by feasibility first (scheduling errors, trips with warnings,
+ * vehicles with work-rule violations and requests delivered late), then by
+ * fleet size, then by total working time.
+ */
+export function comparePlans(a: PlanResult, b: PlanResult): number {
+  const issuesDelta = countIssues(a) - countIssues(b)
+  if (issuesDelta !== 0) {
+    return issuesDelta
+  }
+  const vehiclesDelta = a.summary.vehiclesRequired - b.summary.vehiclesRequired
+  if (vehiclesDelta !== 0) {
+    return vehiclesDelta
+  }
+  const timeDelta = a.summary.totalTime - b.summary.totalTime
+  return Math.abs(timeDelta) > 1e-6 ? timeDelta : 0
+}
+
+/**
+ * Searches for a request order that lets the greedy planner pack trips into
+ * fewer vehicles. Starts from the better of the input order and the
+ * longest-workload-first order, then applies first-improvement insertion
+ * moves until no move helps or the evaluation budget runs out. Requests only
+ * trade places with requests of the same urgency, and orders that deliver a
+ * high-priority or deadline request later than the baseline are rejected.
+ */
+export function optimizeRequestOrder(
+  requests: RequestInput[],
+  baseline: PlanResult,
+  workload: (request: RequestInput) => number,
+  evaluate: (order: RequestInput[]) => PlanResult,
+): OrderSearchResult {
+  let best: OrderSearchResult = {
+    plan: baseline,
+    order: requests,
+    evaluations: 0,
+  }
+  const urgent = requests.filter(
+    (request) => request.priority === 'high' || request.deadline !== undefined,
+  )
+  const baselineCompletion = completionTimes(baseline)
+  const keepsUrgentOnTime = (plan: PlanResult) => {
+    const completion = completionTimes(plan)
+    return urgent.every(
+      (request) =>
+        (completion.get(request.id) ?? Number.POSITIVE_INFINITY) <=
+        (baselineCompletion.get(request.id) ?? Number.POSITIVE_INFINITY) + 1e-6,
+    )
+  }
+
+  const longestFirst = [...requests].sort(
+    (a, b) =>
+      compareRequestUrgency(a, b) ||
+      workload(b) - workload(a) ||
+      b.volume - a.volume,
+  )
+  best = tryOrder(best, longestFirst, evaluate, keepsUrgentOnTime)
+
+  let improved = true
+  while (improved && best.evaluations < MAX_EVALUATIONS) {
+    improved = false
+    for (const [from, to] of insertionMoves(best.order)) {
+      if (best.evaluations >= MAX_EVALUATIONS) {
+        break
+      }
+      const candidate = tryOrder(
+        best,
+        moveItem(best.order, from, to),
+        evaluate,
+        keepsUrgentOnTime,
+      )
+      improved = candidate.order !== best.order
+      best = candidate
+      if (improved) {
+        break
+      }
+    }
+  }
+
+  return best
+}
+
+function tryOrder(
+  current: OrderSearchResult,
+  order: RequestInput[],
+  evaluate: (order: RequestInput[]) => PlanResult,
+  acceptable: (plan: PlanResult) => boolean,
+): OrderSearchResult {
+  const plan = evaluate(order)
+  const evaluations = current.evaluations + 1
+  return comparePlans(plan, current.plan) < 0 && acceptable(plan)
+    ? { plan, order, evaluations }
+    : { ...current, evaluations }
+}
+
+// When the last cargo of each request is unloaded; receiver stops of a trip
+// follow the order of its drops.
+function completionTimes(plan: PlanResult): Map<string, number> {
+  const completion = new Map<string, number>()
+  for (const trip of plan.trips) {
+    const receiverStops = trip.schedule.stops.filter(
+      (stop) => stop.kind === 'receiver',
+    )
+    trip.drops.forEach((drop, index) => {
+      const departure = receiverStops[index]?.departure
+      if (departure !== undefined) {
+        completion.set(
+          drop.requestId,
+          Math.max(completion.get(drop.requestId) ?? departure, departure),
+        )
+      }
+    })
+  }
+  return completion
+}
+
+// Moves that keep the order sorted by urgency: the item may only pass over
+// requests exactly as urgent as itself.
+function* insertionMoves(order: RequestInput[]): Generator<[number, number]> {
+  for (let from = 0; from < order.length; from += 1) {
+    for (let to = 0; to < order.length; to += 1) {
+      const passed = order.slice(Math.min(from, to), Math.max(from, to) + 1)
+      if (
+        from !== to &&
+        passed.every(
+          (request) => compareRequestUrgency(request, order[from]) === 0,
+        )
+      ) {
+        yield [from, to]
+      }
+    }
+  }
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items]
+  const [item] = result.splice(from, 1)
+  result.splice(to, 0, item)
+  return result
+}
+
+function countIssues(plan: PlanResult): number {
+  return (
+    plan.errors.length +
+    plan.trips.filter((trip) => trip.warnings.length > 0).length +
+    plan.vehicles.filter((vehicle) => vehicle.violations.length > 0).length +
+    plan.infeasible.length
+  )
+}
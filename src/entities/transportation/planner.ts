@@ -1,186 +1,616 @@
+import { calculateTripFinance, defaultCostModel, sumFinance } from './costs'
+import { createDiagnostic } from './diagnostics'
+import {
+  createRouteFinder,
+  emptyRoadNetwork,
+  type RouteFinder,
+} from './network'
+import { optimizeRequestOrder } from './optimizer'
+import {
+  compareRequestUrgency,
+  findInfeasibleRequests,
+  prioritizeRequests,
+} from './priorities'
 import type {
+  Depot,
+  Diagnostic,
+  DiagnosticCode,
+  DriverBreak,
+  GridPoint,
   PlannerParameters,
   PlanResult,
   RequestInput,
   RouteDistance,
+  RouteLeg,
   RouteTiming,
+  StopKind,
+  TimeWindow,
   TripPlan,
+  TripStop,
   VehicleSchedule,
+  VehicleType,
 } from './types'
-import { calculateDistance, depotPoint, parseGridCode } from './utils'
+import { defaultGrid, HOURS_IN_DAY, parseGridCode, validateGrid } from './utils'
+import { checkWorkRules, defaultWorkRules } from './work-rules'
+
+interface Waypoint {
+  kind: StopKind
+  point: GridPoint
+  load: number
+  window?: TimeWindow
+}
+
+interface Delivery {
+  request: RequestInput
+  load: number
+}
+
+interface TripDraft {
+  // Kept when an existing trip is laid out again.
+  id?: string
+  day: number
+  request: RequestInput
+  deliveries: Delivery[]
+  tripNumber: number
+  load: number
+  startTime: number
+  // Stops after the point of departure, which depends on the trip before.
+  waypoints: Waypoint[]
+  locked: boolean
+}
+
+interface ScheduledRoute {
+  stops: TripStop[]
+  legs: RouteLeg[]
+  distances: RouteDistance
+  timing: RouteTiming
+  endTime: number
+}
+
+interface DepotLocation {
+  depot: Depot
+  waypoint: Waypoint
+}
+
+interface LockedTrip {
+  trip: TripPlan
+  draft: TripDraft
+}
+
+interface LockedVehicle {
+  id: number
+  type: VehicleType
+  homeDepot: DepotLocation
+  trips: LockedTrip[]
+}
+
+interface PlanningContext {
+  params: PlannerParameters
+  routes: RouteFinder
+  fleet: VehicleType[]
+  depots: DepotLocation[]
+  locked: LockedVehicle[]
+}
 
 interface VehicleState {
   id: number
+  type: VehicleType
+  homeDepot: DepotLocation
+  day: number
   availableTime: number
-  trips: TripPlan[]
-  totalDistance: number
-  totalTime: number
+  position: Waypoint
+  drafts: TripDraft[]
+  locked: LockedTrip[]
+  breaks: DriverBreak[]
+  drivingSinceBreak: number
+  drivingTime: number
+  workingTime: number
 }
 
-const HOURS_IN_DAY = 24
+type DayState = Pick<
+  VehicleState,
+  | 'day'
+  | 'availableTime'
+  | 'position'
+  | 'drivingSinceBreak'
+  | 'drivingTime'
+  | 'workingTime'
+>
+
+interface VehicleAssignment {
+  vehicle: VehicleState
+  // The vehicle's state the trip starts from.
+  state: DayState
+  day: number
+  startTime: number
+  load: number
+  deliveries: Array<{ drop: CargoDrop; load: number }>
+  waypoints: Waypoint[]
+  route: ScheduledRoute
+  drivingSinceBreak: number
+  completionTime: number
+  windowsRespected: boolean
+  withinLimits: boolean
+  overflow: boolean
+}
 
+/**
+ * Plans trips for the requests. Locked trips of `previous` stay on their
+ * vehicles at their times; the planner delivers only the volume they leave
+ * and routes new trips around them.
+ */
 export function buildPlan(
   requests: RequestInput[],
   params: PlannerParameters,
+  previous: PlanResult | null = null,
 ): PlanResult {
-  const errors: string[] = []
-  const trips: TripPlan[] = []
-  const vehicles: VehicleState[] = []
+  const errors: Diagnostic[] = []
+
+  const gridError = validateGrid(params.grid)
+  if (gridError) {
+    errors.push(createDiagnostic('invalid-grid'))
+  }
 
-  const sanitizedRequests = requests.filter((request) => {
+  const routes = createRouteFinder(params)
+
+  const depots = (gridError ? [] : params.depots).flatMap(
+    (depot): DepotLocation[] => {
+      const point = parseGridCode(depot.code, params.grid)
+      if (!point) {
+        errors.push(
+          createDiagnostic('depot-invalid-location', {
+            depotId: depot.id,
+            labels: { depot: depot.name, location: depot.code },
+          }),
+        )
+        return []
+      }
+      if (!routes.isPassable(point)) {
+        errors.push(
+          createDiagnostic('depot-impassable', {
+            depotId: depot.id,
+            labels: { depot: depot.name, location: depot.code },
+          }),
+        )
+        return []
+      }
+      return [{ depot, waypoint: { kind: 'depot', point, load: 0 } }]
+    },
+  )
+
+  const sanitizedRequests = (gridError ? [] : requests).filter((request) => {
+    const requestDiagnostic = (
+      code: Extract<DiagnosticCode, `request-${string}`>,
+    ) =>
+      createDiagnostic(code, {
+        requestId: request.id,
+        values: { volume: request.volume },
+        labels: {
+          request: request.id,
+          shipper: request.shipperCode,
+          receiver: request.receiverCode,
+        },
+      })
     if (!request.shipperCode || !request.receiverCode) {
-      errors.push(`Заявка с кодом ${request.id} не содержит адресов.`)
+      errors.push(requestDiagnostic('request-missing-address'))
       return false
     }
     if (request.volume <= 0) {
-      errors.push(
-        `Заявка ${request.shipperCode}-${request.receiverCode} имеет нулевой объём.`,
-      )
+      errors.push(requestDiagnostic('request-empty-volume'))
       return false
     }
-    const shipperPoint = parseGridCode(request.shipperCode)
-    const receiverPoint = parseGridCode(request.receiverCode)
+    const shipperPoint = parseGridCode(request.shipperCode, params.grid)
+    const receiverPoint = parseGridCode(request.receiverCode, params.grid)
     if (!shipperPoint || !receiverPoint) {
-      errors.push(
-        `Заявка ${request.shipperCode}-${request.receiverCode}: неверный код клиента.`,
-      )
+      errors.push(requestDiagnostic('request-invalid-location'))
+      return false
+    }
+    const reachable =
+      routes.isPassable(shipperPoint) &&
+      routes.isPassable(receiverPoint) &&
+      Number.isFinite(routes.route(shipperPoint, receiverPoint).distance) &&
+      (depots.length === 0 ||
+        depots.some((location) =>
+          Number.isFinite(
+            routes.route(location.waypoint.point, shipperPoint).distance,
+          ),
+        ))
+    if (!reachable) {
+      errors.push(requestDiagnostic('request-unreachable'))
       return false
     }
     return true
   })
 
-  let totalVolume = 0
+  const fleet = params.fleet.filter(
+    (type) => type.count > 0 && type.capacity > 0 && type.speed > 0,
+  )
+  const fleetSize = fleet.reduce((acc, type) => acc + type.count, 0)
+  if (fleetSize === 0 && sanitizedRequests.length > 0) {
+    errors.push(createDiagnostic('fleet-empty'))
+  }
 
-  for (const request of sanitizedRequests) {
-    const shipperPoint = parseGridCode(request.shipperCode)
-    const receiverPoint = parseGridCode(request.receiverCode)
-    if (!shipperPoint || !receiverPoint) {
+  if (depots.length === 0 && sanitizedRequests.length > 0) {
+    errors.push(createDiagnostic('depots-missing'))
+  }
+
+  const canSchedule = fleetSize > 0 && depots.length > 0
+  const schedulable = canSchedule ? prioritizeRequests(sanitizedRequests) : []
+  const baseContext: PlanningContext = {
+    params,
+    routes,
+    fleet,
+    depots,
+    locked: [],
+  }
+  const context: PlanningContext = {
+    ...baseContext,
+    locked: collectLockedVehicles(previous, schedulable, baseContext),
+  }
+
+  const baseline = schedulePlan(schedulable, context)
+  const plan =
+    params.optimizationMode === 'fleet' && schedulable.length > 1
+      ? optimizePlan(schedulable, baseline, context)
+      : baseline
+
+  return { ...plan, errors: [...errors, ...plan.errors] }
+}
+
+export interface TripPlacement {
+  vehicleId: number
+  startTime: number
+}
+
+/**
+ * Moves a trip to another vehicle or start time, as a dispatcher does in the
+ * Gantt chart, and lays out the vehicles involved again. The moved trip is
+ * locked at its new place; later trips of the vehicle are pushed back when it
+ * runs into them. Conflicts that remain, such as an overlap with an earlier
+ * trip or a load above the vehicle's capacity, are left for `validatePlan`.
+ */
+export function rescheduleTrip(
+  requests: RequestInput[],
+  params: PlannerParameters,
+  plan: PlanResult,
+  tripId: string,
+  placement: TripPlacement,
+): PlanResult {
+  const moved = plan.trips.find((trip) => trip.id === tripId)
+  if (!moved) {
+    return plan
+  }
+
+  const routes = createRouteFinder(params)
+  const context: PlanningContext = {
+    params,
+    routes,
+    fleet: params.fleet,
+    depots: params.depots.flatMap((depot) => {
+      const point = parseGridCode(depot.code, params.grid)
+      return point
+        ? [{ depot, waypoint: { kind: 'depot' as const, point, load: 0 } }]
+        : []
+    }),
+    locked: [],
+  }
+
+  const vehicles = plan.vehicles.flatMap((schedule): VehicleState[] => {
+    const homeDepot = context.depots.find(
+      (location) => location.depot.id === schedule.homeDepot.id,
+    )
+    return homeDepot
+      ? [
+          {
+            ...createVehicle(
+              schedule.vehicleId,
+              schedule.vehicleType,
+              homeDepot,
+            ),
+            breaks: schedule.breaks,
+          },
+        ]
+      : []
+  })
+  const target = vehicles.find((vehicle) => vehicle.id === placement.vehicleId)
+  const source = vehicles.find((vehicle) => vehicle.id === moved.vehicleId)
+  // A vehicle whose home depot was removed cannot be laid out again.
+  if (!target || !source || vehicles.length < plan.vehicles.length) {
+    return plan
+  }
+
+  // Requests removed since the calculation are replaced with stand-ins built
+  // from the trip, so that the trip keeps its drops and revenue.
+  const requestsById = new Map(requests.map((request) => [request.id, request]))
+  const findRequest = (trip: TripPlan) => (id: string) =>
+    requestsById.get(id) ?? {
+      id,
+      shipperCode: trip.shipperCode,
+      receiverCode:
+        trip.drops.find((drop) => drop.requestId === id)?.receiverCode ??
+        trip.receiverCode,
+      volume: trip.load,
+      shipperWindow: { open: 0, close: params.workdayLength },
+      receiverWindow: { open: 0, close: params.workdayLength },
+      revenuePerTonne: trip.load > 0 ? trip.finance.revenue / trip.load : 0,
+    }
+
+  const day = Math.max(Math.floor(placement.startTime / HOURS_IN_DAY), 0)
+  for (const trip of plan.trips) {
+    if (trip.vehicleId !== source.id && trip.vehicleId !== target.id) {
       continue
     }
-    let remaining = request.volume
-    let tripCounter = 1
+    if (trip.id === moved.id) {
+      const draft = draftFromTrip(
+        trip,
+        findRequest(trip),
+        context,
+        day,
+        Math.max(placement.startTime, dayStartTime(day)),
+      )
+      if (!draft) {
+        return plan
+      }
+      target.drafts.push({ ...draft, locked: true })
+      continue
+    }
+    const draft = draftFromTrip(trip, findRequest(trip), context)
+    if (!draft) {
+      return plan
+    }
+    const vehicle = trip.vehicleId === source.id ? source : target
+    vehicle.drafts.push(draft)
+  }
 
-    while (remaining > 0) {
-      const load = Math.min(params.capacity, remaining)
-      remaining -= load
+  const laidOut = new Map<string, TripPlan>()
+  for (const vehicle of source === target ? [target] : [source, target]) {
+    for (const trip of sequenceVehicle(vehicle, context).values()) {
+      laidOut.set(trip.id, trip)
+    }
+  }
 
-      const distances: RouteDistance = {
-        toShipper: calculateDistance(
-          depotPoint,
-          shipperPoint,
-          params.cellSize,
-          params.distanceMode,
-        ),
-        toReceiver: calculateDistance(
-          shipperPoint,
-          receiverPoint,
-          params.cellSize,
-          params.distanceMode,
-        ),
-        toDepot: calculateDistance(
-          receiverPoint,
-          depotPoint,
-          params.cellSize,
-          params.distanceMode,
-        ),
-        total: 0,
-      }
-      distances.total =
-        distances.toShipper + distances.toReceiver + distances.toDepot
-
-      const loadingTime = load * params.loadUnloadRate
-      const unloadingTime = load * params.loadUnloadRate
-      const travelTime =
-        distances.toShipper / params.speed +
-        distances.toReceiver / params.speed +
-        distances.toDepot / params.speed
-
-      const timing: RouteTiming = {
-        travel: travelTime,
-        loading: loadingTime,
-        unloading: unloadingTime,
-        total: travelTime + loadingTime + unloadingTime,
-      }
+  const trips = numberTrips(
+    plan.trips.map((trip) => laidOut.get(trip.id) ?? trip),
+  )
+  const summary = summarizePlan(
+    trips,
+    vehicles,
+    requests,
+    plan.summary.totalVolume,
+    context,
+  )
+  return {
+    ...summary,
+    optimization: plan.optimization,
+    errors: [
+      ...plan.errors.filter((error) => error.code !== 'work-rules-violated'),
+      ...summary.errors,
+    ],
+  }
+}
+
+export function setTripLock(
+  plan: PlanResult,
+  tripId: string,
+  locked: boolean,
+): PlanResult {
+  const update = (trip: TripPlan) =>
+    trip.id === tripId ? { ...trip, locked } : trip
+  return {
+    ...plan,
+    trips: plan.trips.map(update),
+    vehicles: plan.vehicles.map((vehicle) => ({
+      ...vehicle,
+      trips: vehicle.trips.map(update),
+    })),
+  }
+}
+
+function schedulePlan(
+  requests: RequestInput[],
+  context: PlanningContext,
+): PlanResult {
+  const { params } = context
+  const errors: Diagnostic[] = []
+  const vehicles: VehicleState[] = context.locked.map((locked) => ({
+    ...createVehicle(locked.id, locked.type, locked.homeDepot),
+    drafts: locked.trips.map(({ draft }) => draft),
+    locked: locked.trips,
+  }))
+  const drafts: TripDraft[] = vehicles.flatMap((vehicle) => vehicle.drafts)
 
-      const vehicle = selectVehicle(
-        vehicles,
-        timing.total,
-        params.workdayLength,
+  let totalVolume = 0
+  let fleetExhausted = false
+  const tripCounters = new Map<string, number>()
+  const lockedLoads = new Map<string, number>()
+  for (const draft of drafts) {
+    tripCounters.set(
+      draft.request.id,
+      Math.max(tripCounters.get(draft.request.id) ?? 1, draft.tripNumber + 1),
+    )
+    for (const delivery of draft.deliveries) {
+      lockedLoads.set(
+        delivery.request.id,
+        (lockedLoads.get(delivery.request.id) ?? 0) + delivery.load,
       )
-      const startTime = vehicle.availableTime
-
-      const schedule = {
-        startTime,
-        arrivalShipper: startTime + distances.toShipper / params.speed,
-        departureShipper:
-          startTime + distances.toShipper / params.speed + loadingTime,
-        arrivalReceiver:
-          startTime +
-          distances.toShipper / params.speed +
-          loadingTime +
-          distances.toReceiver / params.speed,
-        departureReceiver:
-          startTime +
-          distances.toShipper / params.speed +
-          loadingTime +
-          distances.toReceiver / params.speed +
-          unloadingTime,
-        endTime: startTime + timing.total,
-      }
+    }
+  }
+  const fullLoad = Math.max(...context.fleet.map((type) => type.capacity))
 
-      const warnings: string[] = []
-      if (schedule.departureReceiver > request.workingHours) {
-        warnings.push(
-          `Работы у клиента превышают рабочее время (${schedule.departureReceiver.toFixed(2)} ч > ${request.workingHours.toFixed(2)} ч).`,
-        )
-      }
+  const dispatch = (cargo: CargoRun, fullLoadsOnly: boolean) => {
+    while (
+      cargoVolume(cargo) > 1e-9 &&
+      (!fullLoadsOnly || cargoVolume(cargo) >= fullLoad - 1e-9)
+    ) {
+      const assignment = selectVehicle(vehicles, cargo, context)
+      const { vehicle, load } = assignment
+      fleetExhausted = fleetExhausted || assignment.overflow
+      Object.assign(vehicle, assignment.state)
 
-      if (timing.total > params.workdayLength) {
-        warnings.push(
-          `Продолжительность рейса превышает смену (${timing.total.toFixed(2)} ч > ${params.workdayLength.toFixed(2)} ч).`,
-        )
-      }
+      const deliveries = assignment.deliveries.map(({ drop, load }) => {
+        drop.remaining -= load
+        return { request: drop.request, load }
+      })
+      const request = deliveries[0].request
+      const tripNumber = tripCounters.get(request.id) ?? 1
+      tripCounters.set(request.id, tripNumber + 1)
 
-      const trip: TripPlan = {
-        id: crypto.randomUUID(),
-        requestId: request.id,
-        requestLabel: `${request.shipperCode} → ${request.receiverCode}`,
-        shipperCode: request.shipperCode,
-        receiverCode: request.receiverCode,
-        tripNumber: tripCounter,
+      const draft: TripDraft = {
+        day: assignment.day,
+        request,
+        deliveries,
+        tripNumber,
         load,
-        distances,
-        timing,
-        schedule,
-        vehicleId: vehicle.id,
-        warnings,
+        startTime: assignment.startTime,
+        waypoints: assignment.waypoints.slice(1),
+        locked: false,
       }
 
-      vehicle.trips.push(trip)
-      vehicle.availableTime = schedule.endTime
-      vehicle.totalDistance += distances.total
-      vehicle.totalTime += timing.total
+      vehicle.drafts.push(draft)
+      vehicle.availableTime = assignment.route.endTime
+      vehicle.drivingSinceBreak = assignment.drivingSinceBreak
+      vehicle.drivingTime += assignment.route.timing.travel
+      vehicle.workingTime += assignment.route.timing.total
+      const lastWaypoint = assignment.waypoints[assignment.waypoints.length - 1]
+      vehicle.position = {
+        kind: lastWaypoint.kind,
+        point: lastWaypoint.point,
+        load: 0,
+      }
 
-      trips.push(trip)
-      tripCounter += 1
+      drafts.push(draft)
     }
+  }
 
+  // Full loads go out request by request; with consolidation enabled the
+  // partial remainders are held back and combined into multi-drop runs.
+  const leftovers: CargoRun[] = []
+  for (const request of requests) {
+    const cargo = createCargoRun(
+      request,
+      params.grid,
+      lockedLoads.get(request.id) ?? 0,
+    )
+    if (!cargo) {
+      continue
+    }
+    dispatch(cargo, params.consolidation !== 'none')
+    if (cargoVolume(cargo) > 1e-9) {
+      leftovers.push(cargo)
+    }
     totalVolume += request.volume
   }
 
-  const vehicleSchedules: VehicleSchedule[] = vehicles.map((vehicle) => ({
-    vehicleId: vehicle.id,
-    trips: vehicle.trips,
-    totalDistance: vehicle.totalDistance,
-    totalTime: vehicle.totalTime,
-  }))
+  for (const cargo of consolidateLeftovers(leftovers, fullLoad, context)) {
+    dispatch(cargo, false)
+  }
+
+  if (fleetExhausted) {
+    errors.push(
+      createDiagnostic('fleet-exhausted', {
+        values: { planningDays: params.planningDays },
+      }),
+    )
+  }
+
+  const tripByDraft = new Map<TripDraft, TripPlan>()
+  for (const vehicle of vehicles) {
+    for (const [draft, trip] of sequenceVehicle(vehicle, context)) {
+      tripByDraft.set(draft, trip)
+    }
+  }
+
+  const trips = numberTrips(
+    drafts.flatMap((draft) => {
+      const trip = tripByDraft.get(draft)
+      return trip ? [trip] : []
+    }),
+  )
+
+  const plan = summarizePlan(trips, vehicles, requests, totalVolume, context)
+  return { ...plan, errors: [...errors, ...plan.errors] }
+}
+
+/**
+ * Totals a laid-out plan: per-vehicle schedules with their work-rule checks,
+ * the plan summary and the requests delivered late.
+ */
+function summarizePlan(
+  trips: TripPlan[],
+  vehicles: VehicleState[],
+  requests: RequestInput[],
+  totalVolume: number,
+  context: PlanningContext,
+): PlanResult {
+  const { params } = context
+  const errors: Diagnostic[] = []
+  const vehicleSchedules: VehicleSchedule[] = [...vehicles]
+    .sort((a, b) => a.id - b.id)
+    .map((vehicle) => {
+      const vehicleTrips = trips
+        .filter((trip) => trip.vehicleId === vehicle.id)
+        .sort((a, b) => a.schedule.startTime - b.schedule.startTime)
+      const workingDays = Array.from(
+        new Set(vehicleTrips.map((trip) => trip.schedule.day)),
+      )
+      return {
+        vehicleId: vehicle.id,
+        vehicleType: vehicle.type,
+        homeDepot: vehicle.homeDepot.depot,
+        trips: vehicleTrips,
+        breaks: vehicle.breaks,
+        totalDistance: vehicleTrips.reduce(
+          (acc, trip) => acc + trip.distances.total,
+          0,
+        ),
+        totalTime: vehicleTrips.reduce(
+          (acc, trip) => acc + trip.timing.total,
+          0,
+        ),
+        drivingTime: vehicleTrips.reduce(
+          (acc, trip) => acc + trip.timing.travel,
+          0,
+        ),
+        finance: sumFinance(
+          vehicleTrips.map((trip) => trip.finance),
+          params.costs.vehicleDailyCost * workingDays.length,
+        ),
+        // Driving and working limits apply per day: the overnight rest at the
+        // depot resets every counter.
+        violations: workingDays.flatMap((day) =>
+          checkWorkRules(
+            vehicleTrips.filter((trip) => trip.schedule.day === day),
+            vehicle.breaks.filter((pause) => isWithinDay(pause.start, day)),
+            params.workRules,
+          ).map((violation) => ({
+            ...violation,
+            vehicleId: vehicle.id,
+            values:
+              params.planningDays > 1
+                ? { ...violation.values, day }
+                : violation.values,
+          })),
+        ),
+      }
+    })
+
+  const violatingVehicles = vehicleSchedules.filter(
+    (vehicle) => vehicle.violations.length > 0,
+  ).length
+  if (violatingVehicles > 0) {
+    errors.push(
+      createDiagnostic('work-rules-violated', {
+        values: { vehicles: violatingVehicles },
+      }),
+    )
+  }
 
   const totalDistance = trips.reduce(
     (acc, trip) => acc + trip.distances.total,
     0,
   )
   const loadedDistance = trips.reduce(
-    (acc, trip) => acc + trip.distances.toReceiver,
+    (acc, trip) => acc + trip.distances.loaded,
     0,
   )
   const emptyDistance = totalDistance - loadedDistance
@@ -190,6 +620,10 @@ export function buildPlan(
     0,
   )
   const vehiclesRequired = vehicleSchedules.length
+  const daysUsed = trips.reduce(
+    (acc, trip) => Math.max(acc, trip.schedule.day + 1),
+    0,
+  )
 
   return {
     trips,
@@ -204,50 +638,1002 @@ export function buildPlan(
       totalTime,
       maxCompletionTime,
       vehiclesRequired,
+      daysUsed,
+      finance: sumFinance(vehicleSchedules.map((vehicle) => vehicle.finance)),
     },
+    optimization: null,
+    infeasible: findInfeasibleRequests(requests, trips, params),
     errors,
   }
 }
 
+function optimizePlan(
+  requests: RequestInput[],
+  baseline: PlanResult,
+  context: PlanningContext,
+): PlanResult {
+  const { plan, evaluations } = optimizeRequestOrder(
+    requests,
+    baseline,
+    (request) => estimateWorkload(request, context),
+    (order) => schedulePlan(order, context),
+  )
+
+  return {
+    ...plan,
+    optimization: {
+      baselineVehicles: baseline.summary.vehiclesRequired,
+      baselineTotalTime: baseline.summary.totalTime,
+      vehicles: plan.summary.vehiclesRequired,
+      totalTime: plan.summary.totalTime,
+      evaluations,
+    },
+  }
+}
+
+function collectLockedVehicles(
+  previous: PlanResult | null,
+  requests: RequestInput[],
+  context: PlanningContext,
+): LockedVehicle[] {
+  if (!previous) {
+    return []
+  }
+  const requestsById = new Map(requests.map((request) => [request.id, request]))
+  return previous.vehicles.flatMap((schedule): LockedVehicle[] => {
+    const type = context.fleet.find(
+      (candidate) => candidate.id === schedule.vehicleType.id,
+    )
+    const homeDepot = context.depots.find(
+      (location) => location.depot.id === schedule.homeDepot.id,
+    )
+    if (!type || !homeDepot) {
+      return []
+    }
+    // Locks on trips of deleted requests are dropped together with them.
+    const trips = previous.trips
+      .filter((trip) => trip.locked && trip.vehicleId === schedule.vehicleId)
+      .flatMap((trip): LockedTrip[] => {
+        const draft = draftFromTrip(trip, (id) => requestsById.get(id), context)
+        return draft ? [{ trip, draft }] : []
+      })
+      .sort((a, b) => a.trip.schedule.startTime - b.trip.schedule.startTime)
+    return trips.length > 0
+      ? [{ id: schedule.vehicleId, type, homeDepot, trips }]
+      : []
+  })
+}
+
+/**
+ * Rebuilds the draft of a planned trip, optionally on another day and start
+ * time. The departure point and the return to the home depot are dropped:
+ * `sequenceVehicle` adds them back from the trips around it.
+ */
+function draftFromTrip(
+  trip: TripPlan,
+  findRequest: (id: string) => RequestInput | undefined,
+  context: PlanningContext,
+  day = trip.schedule.day,
+  startTime = trip.schedule.startTime,
+): TripDraft | null {
+  const request = findRequest(trip.requestId)
+  const deliveries = trip.drops.flatMap((drop): Delivery[] => {
+    const dropRequest = findRequest(drop.requestId)
+    return dropRequest ? [{ request: dropRequest, load: drop.load }] : []
+  })
+  if (!request || deliveries.length !== trip.drops.length) {
+    return null
+  }
+
+  const offset = dayStartTime(day) - dayStartTime(trip.schedule.day)
+  const stops = trip.schedule.stops.slice(1)
+  if (stops[stops.length - 1]?.kind === 'depot') {
+    stops.pop()
+  }
+  const waypoints = stops.flatMap((stop): Waypoint[] => {
+    const point = parseGridCode(stop.code, context.params.grid)
+    return point
+      ? [
+          {
+            kind: stop.kind,
+            point,
+            load: stop.load,
+            window: stop.window && shiftWindow(stop.window, offset),
+          },
+        ]
+      : []
+  })
+  if (waypoints.length !== stops.length || waypoints.length === 0) {
+    return null
+  }
+  if (context.params.routingMode === 'pendulum' && context.depots.length > 0) {
+    waypoints.push(
+      findNearestDepot(waypoints[waypoints.length - 1].point, context).waypoint,
+    )
+  }
+
+  return {
+    id: trip.id,
+    day,
+    request,
+    deliveries,
+    tripNumber: trip.tripNumber,
+    load: trip.load,
+    startTime,
+    waypoints,
+    locked: trip.locked === true,
+  }
+}
+
+/**
+ * Rough hours of work a request needs: shuttle runs with the largest vehicle
+ * plus loading and unloading at the average fleet rate.
+ */
+function estimateWorkload(
+  request: RequestInput,
+  context: PlanningContext,
+): number {
+  const { params, fleet } = context
+  const shipperPoint = parseGridCode(request.shipperCode, params.grid)
+  const receiverPoint = parseGridCode(request.receiverCode, params.grid)
+  if (!shipperPoint || !receiverPoint) {
+    return 0
+  }
+  const capacity = Math.max(...fleet.map((type) => type.capacity))
+  const speed = fleet.reduce((acc, type) => acc + type.speed, 0) / fleet.length
+  const handlingRate =
+    fleet.reduce((acc, type) => acc + type.loadUnloadRate, 0) / fleet.length
+  const runs = Math.ceil(request.volume / capacity - 1e-9)
+  const travelCost = context.routes.route(
+    shipperPoint,
+    receiverPoint,
+  ).travelCost
+  return (runs * 2 * travelCost) / speed + request.volume * 2 * handlingRate
+}
+
+/**
+ * Lays out a vehicle's trips in time order. Each trip leaves from where the
+ * previous one ended and the last trip of a day returns to the home depot.
+ * Unlocked trips are pushed back when the trip before them, or the break the
+ * driver needs after it, runs late; locked trips keep their start time.
+ */
+function sequenceVehicle(
+  vehicle: VehicleState,
+  context: PlanningContext,
+): Map<TripDraft, TripPlan> {
+  const { workRules } = context.params
+  const drafts = [...vehicle.drafts].sort(
+    (a, b) =>
+      a.day - b.day ||
+      a.startTime - b.startTime ||
+      Number(b.locked) - Number(a.locked),
+  )
+  const trips = new Map<TripDraft, TripPlan>()
+  const breaks: DriverBreak[] = []
+  let previous: { trip: TripPlan; position: Waypoint } | null = null
+  let drivingSinceBreak = 0
+
+  drafts.forEach((draft, index) => {
+    const sameDay =
+      previous !== null && previous.trip.schedule.day === draft.day
+    const availableTime =
+      previous && sameDay
+        ? previous.trip.schedule.endTime
+        : dayStartTime(draft.day)
+    const waypoints = [
+      previous && sameDay ? previous.position : vehicle.homeDepot.waypoint,
+      ...draft.waypoints,
+    ]
+    const next = drafts[index + 1]
+    const endsDay = !next || next.day !== draft.day
+    if (endsDay) {
+      if (waypoints[waypoints.length - 1].kind === 'depot') {
+        waypoints.pop()
+      }
+      waypoints.push(vehicle.homeDepot.waypoint)
+    }
+
+    let startTime = draft.locked
+      ? draft.startTime
+      : Math.max(draft.startTime, availableTime)
+    let route = scheduleRoute(waypoints, startTime, vehicle.type, context)
+    // The return to the home depot at the end of the day is driving too.
+    const travel = route.timing.travel
+    const needsBreak =
+      sameDay &&
+      drivingSinceBreak > 1e-9 &&
+      drivingSinceBreak + travel > workRules.drivingBeforeBreak + 1e-6
+    if (needsBreak) {
+      const breakEnd = availableTime + workRules.breakDuration
+      if (!draft.locked && startTime < breakEnd - 1e-9) {
+        startTime = breakEnd
+        route = scheduleRoute(waypoints, startTime, vehicle.type, context)
+      }
+      if (startTime >= breakEnd - 1e-9) {
+        breaks.push({ start: availableTime, end: breakEnd })
+      }
+    }
+    const rested =
+      !sameDay || startTime - availableTime >= workRules.breakDuration - 1e-9
+    drivingSinceBreak = (rested ? 0 : drivingSinceBreak) + travel
+
+    const trip = createTrip(
+      { ...draft, startTime, waypoints },
+      route,
+      vehicle,
+      context,
+    )
+    trips.set(draft, trip)
+    previous = {
+      trip,
+      position: departurePoint(draft),
+    }
+  })
+
+  vehicle.breaks = breaks
+  return trips
+}
+
+/**
+ * Numbers the trips of each request in the order they run. Trips are planned
+ * out of time order around locked trips and when the plan is rearranged.
+ */
+function numberTrips(trips: TripPlan[]): TripPlan[] {
+  const ordered = [...trips].sort(
+    (a, b) => a.schedule.startTime - b.schedule.startTime,
+  )
+  const counters = new Map<string, number>()
+  const numbers = new Map<string, number>()
+  for (const trip of ordered) {
+    const tripNumber = (counters.get(trip.requestId) ?? 0) + 1
+    counters.set(trip.requestId, tripNumber)
+    numbers.set(trip.id, tripNumber)
+  }
+  return trips.map((trip) => {
+    const tripNumber = numbers.get(trip.id) ?? trip.tripNumber
+    return tripNumber === trip.tripNumber ? trip : { ...trip, tripNumber }
+  })
+}
+
+function createTrip(
+  draft: TripDraft,
+  route: ScheduledRoute,
+  vehicle: VehicleState,
+  context: PlanningContext,
+): TripPlan {
+  const { request } = draft
+  const { params } = context
+
+  const id = draft.id ?? crypto.randomUUID()
+  const warnings: Diagnostic[] = []
+  for (const stop of route.stops) {
+    if (!stop.window || stop.departure <= stop.window.close + 1e-6) {
+      continue
+    }
+    warnings.push(
+      createDiagnostic(
+        stop.kind === 'shipper'
+          ? 'shipper-window-exceeded'
+          : 'receiver-window-exceeded',
+        {
+          requestId: request.id,
+          tripId: id,
+          vehicleId: vehicle.id,
+          values: { departure: stop.departure, close: stop.window.close },
+          labels: { location: stop.code },
+        },
+      ),
+    )
+  }
+
+  if (route.timing.total > params.workdayLength) {
+    warnings.push(
+      createDiagnostic('trip-exceeds-shift', {
+        requestId: request.id,
+        tripId: id,
+        vehicleId: vehicle.id,
+        values: {
+          duration: route.timing.total,
+          workdayLength: params.workdayLength,
+        },
+      }),
+    )
+  }
+
+  const receiverCodes = Array.from(
+    new Set(draft.deliveries.map((delivery) => delivery.request.receiverCode)),
+  )
+
+  return {
+    id,
+    requestId: request.id,
+    requestLabel: `${request.shipperCode} → ${receiverCodes.join(', ')}`,
+    shipperCode: request.shipperCode,
+    receiverCode: request.receiverCode,
+    tripNumber: draft.tripNumber,
+    load: draft.load,
+    drops: draft.deliveries.map((delivery) => ({
+      requestId: delivery.request.id,
+      receiverCode: delivery.request.receiverCode,
+      load: delivery.load,
+    })),
+    legs: route.legs,
+    distances: route.distances,
+    timing: route.timing,
+    finance: calculateTripFinance(
+      draft.deliveries,
+      route.distances,
+      route.timing,
+      params.costs,
+    ),
+    schedule: {
+      day: draft.day,
+      startTime: draft.startTime,
+      stops: route.stops,
+      endTime: route.endTime,
+    },
+    vehicleId: vehicle.id,
+    vehicleTypeId: vehicle.type.id,
+    warnings,
+    locked: draft.locked,
+  }
+}
+
+function scheduleRoute(
+  waypoints: Waypoint[],
+  startTime: number,
+  vehicleType: VehicleType,
+  context: PlanningContext,
+): ScheduledRoute {
+  const stops: TripStop[] = []
+  const legs: RouteLeg[] = []
+  const distances: RouteDistance = { loaded: 0, empty: 0, total: 0 }
+  const timing: RouteTiming = {
+    travel: 0,
+    waiting: 0,
+    loading: 0,
+    unloading: 0,
+    total: 0,
+  }
+  let clock = startTime
+  let onboard = 0
+
+  waypoints.forEach((waypoint, index) => {
+    if (index > 0) {
+      const previous = waypoints[index - 1]
+      const { distance, travelCost, path } = context.routes.route(
+        previous.point,
+        waypoint.point,
+      )
+      const loaded = onboard > 1e-9
+      legs.push({
+        from: previous.point.code,
+        to: waypoint.point.code,
+        path: path.map((point) => point.code),
+        distance,
+        loaded,
+      })
+      if (loaded) {
+        distances.loaded += distance
+      } else {
+        distances.empty += distance
+      }
+      timing.travel += travelCost / vehicleType.speed
+      clock += travelCost / vehicleType.speed
+    }
+
+    const arrival = clock
+    if (waypoint.window && clock < waypoint.window.open) {
+      timing.waiting += waypoint.window.open - clock
+      clock = waypoint.window.open
+    }
+
+    const handlingTime = waypoint.load * vehicleType.loadUnloadRate
+    if (waypoint.kind === 'shipper') {
+      timing.loading += handlingTime
+      onboard += waypoint.load
+    } else if (waypoint.kind === 'receiver') {
+      timing.unloading += handlingTime
+      onboard -= waypoint.load
+    }
+
+    stops.push({
+      kind: waypoint.kind,
+      code: waypoint.point.code,
+      load: waypoint.load,
+      window: waypoint.window,
+      arrival,
+      serviceStart: clock,
+      departure: clock + handlingTime,
+    })
+    clock += handlingTime
+  })
+
+  distances.total = distances.loaded + distances.empty
+  timing.total =
+    timing.travel + timing.waiting + timing.loading + timing.unloading
+
+  return { stops, legs, distances, timing, endTime: clock }
+}
+
 function selectVehicle(
   vehicles: VehicleState[],
-  tripDuration: number,
-  workdayLength: number,
-): VehicleState {
-  if (vehicles.length === 0) {
-    const newVehicle = createVehicle(1)
-    vehicles.push(newVehicle)
-    return newVehicle
+  cargo: CargoRun,
+  context: PlanningContext,
+): VehicleAssignment {
+  const { params } = context
+  const candidates = vehicles.map((vehicle) =>
+    assignTrip(vehicle, cargo, context),
+  )
+  const withinShift = candidates.filter((assignment) =>
+    fitsShift(assignment, params),
+  )
+  const feasible = withinShift.filter(
+    (assignment) => assignment.windowsRespected,
+  )
+
+  if (feasible.length > 0) {
+    return pickBestAssignment(feasible)
+  }
+
+  const vehicleType = pickVehicleType(
+    context.fleet,
+    vehicles,
+    cargoVolume(cargo),
+  )
+  if (vehicleType) {
+    const newVehicle = createVehicle(
+      nextVehicleId(vehicles),
+      vehicleType,
+      pickHomeDepot(vehicleType, cargo.shipperPoint, context),
+    )
+    const assignment = assignTrip(newVehicle, cargo, context)
+    if (assignment.windowsRespected || withinShift.length === 0) {
+      vehicles.push(newVehicle)
+      return assignment
+    }
   }
 
-  vehicles.sort((a, b) => a.availableTime - b.availableTime)
+  // With a multi-day horizon, cargo the fleet cannot carry today waits for
+  // the next morning, when vehicles leave their home depots again.
+  const carriedOver = vehicles
+    .filter((vehicle) => vehicle.day + 1 < params.planningDays)
+    .map((vehicle) => assignTrip(vehicle, cargo, context, vehicle.day + 1))
+    .filter((assignment) => fitsShift(assignment, params))
+  const carriedOverFeasible = carriedOver.filter(
+    (assignment) => assignment.windowsRespected,
+  )
+  if (carriedOverFeasible.length > 0) {
+    return pickBestAssignment(carriedOverFeasible)
+  }
 
-  for (const vehicle of vehicles) {
-    if (vehicle.availableTime + tripDuration <= workdayLength + 1e-6) {
-      return vehicle
+  if (withinShift.length > 0) {
+    return pickBestAssignment(withinShift)
+  }
+  if (carriedOver.length > 0) {
+    return pickBestAssignment(carriedOver)
+  }
+
+  const fallback = candidates.reduce<VehicleAssignment | null>(
+    (acc, assignment) =>
+      !acc || assignment.completionTime < acc.completionTime ? assignment : acc,
+    null,
+  )
+
+  if (!fallback) {
+    throw new Error('Fleet is empty: no vehicle can be assigned.')
+  }
+
+  return { ...fallback, overflow: true }
+}
+
+function fitsShift(
+  assignment: VehicleAssignment,
+  params: PlannerParameters,
+): boolean {
+  return (
+    assignment.completionTime <=
+      dayStartTime(assignment.day) + params.workdayLength + 1e-6 &&
+    assignment.withinLimits
+  )
+}
+
+function pickBestAssignment(
+  assignments: VehicleAssignment[],
+): VehicleAssignment {
+  return assignments.reduce((best, assignment) =>
+    isBetterAssignment(assignment, best) ? assignment : best,
+  )
+}
+
+function isBetterAssignment(
+  candidate: VehicleAssignment,
+  current: VehicleAssignment,
+): boolean {
+  if (Math.abs(candidate.load - current.load) > 1e-9) {
+    return candidate.load > current.load
+  }
+  return arrivalAtShipper(candidate) < arrivalAtShipper(current) - 1e-9
+}
+
+function pickVehicleType(
+  fleet: VehicleType[],
+  vehicles: VehicleState[],
+  remaining: number,
+): VehicleType | null {
+  const available = fleet.filter(
+    (type) =>
+      vehicles.filter((vehicle) => vehicle.type.id === type.id).length <
+      type.count,
+  )
+  if (available.length === 0) {
+    return null
+  }
+
+  const sufficient = available
+    .filter((type) => type.capacity >= remaining - 1e-9)
+    .sort((a, b) => a.capacity - b.capacity || b.speed - a.speed)
+  if (sufficient.length > 0) {
+    return sufficient[0]
+  }
+
+  return [...available].sort(
+    (a, b) => b.capacity - a.capacity || b.speed - a.speed,
+  )[0]
+}
+
+interface CargoDrop {
+  request: RequestInput
+  point: GridPoint
+  remaining: number
+}
+
+interface CargoRun {
+  shipperPoint: GridPoint
+  shipperWindow: TimeWindow
+  drops: CargoDrop[]
+}
+
+function createCargoRun(
+  request: RequestInput,
+  grid: PlannerParameters['grid'],
+  lockedLoad: number,
+): CargoRun | null {
+  const shipperPoint = parseGridCode(request.shipperCode, grid)
+  const receiverPoint = parseGridCode(request.receiverCode, grid)
+  if (!shipperPoint || !receiverPoint) {
+    return null
+  }
+  return {
+    shipperPoint,
+    shipperWindow: request.shipperWindow,
+    drops: [
+      {
+        request,
+        point: receiverPoint,
+        remaining: Math.max(request.volume - lockedLoad, 0),
+      },
+    ],
+  }
+}
+
+function cargoVolume(cargo: CargoRun): number {
+  return cargo.drops.reduce((acc, drop) => acc + drop.remaining, 0)
+}
+
+/**
+ * Packs partial loads into multi-drop runs, first-fit decreasing against the
+ * largest vehicle. Only loads from the same shipper with the same loading
+ * window are combined; in 'nearby' mode a receiver must also lie within the
+ * consolidation radius of the run's first receiver.
+ */
+function consolidateLeftovers(
+  leftovers: CargoRun[],
+  fullLoad: number,
+  context: PlanningContext,
+): CargoRun[] {
+  const { params, routes } = context
+  const runs: CargoRun[] = []
+  const sorted = [...leftovers].sort((a, b) => cargoVolume(b) - cargoVolume(a))
+
+  for (const leftover of sorted) {
+    const run = runs.find(
+      (candidate) =>
+        candidate.shipperPoint.code === leftover.shipperPoint.code &&
+        candidate.shipperWindow.open === leftover.shipperWindow.open &&
+        candidate.shipperWindow.close === leftover.shipperWindow.close &&
+        cargoVolume(candidate) + cargoVolume(leftover) <= fullLoad + 1e-9 &&
+        (params.consolidation !== 'nearby' ||
+          routes.route(candidate.drops[0].point, leftover.drops[0].point)
+            .distance <=
+            params.consolidationRadius + 1e-9),
+    )
+    if (run) {
+      run.drops.push(...leftover.drops)
+    } else {
+      runs.push({ ...leftover, drops: [...leftover.drops] })
     }
   }
 
-  const newVehicle = createVehicle(vehicles.length + 1)
-  vehicles.push(newVehicle)
-  return newVehicle
+  return runs
+    .map((run) => ({ ...run, drops: orderDrops(run, context) }))
+    .sort((a, b) => compareRequestUrgency(mostUrgent(a), mostUrgent(b)))
+}
+
+function mostUrgent(run: CargoRun): RequestInput {
+  return run.drops
+    .map((drop) => drop.request)
+    .reduce((urgent, request) =>
+      compareRequestUrgency(request, urgent) < 0 ? request : urgent,
+    )
+}
+
+function orderDrops(run: CargoRun, context: PlanningContext): CargoDrop[] {
+  const pending = [...run.drops]
+  const ordered: CargoDrop[] = []
+  let position = run.shipperPoint
+  while (pending.length > 0) {
+    const travelCost = (drop: CargoDrop) =>
+      context.routes.route(position, drop.point).travelCost
+    const next = pending.reduce((nearest, drop) =>
+      travelCost(drop) < travelCost(nearest) - 1e-9 ? drop : nearest,
+    )
+    pending.splice(pending.indexOf(next), 1)
+    ordered.push(next)
+    position = next.point
+  }
+  return ordered
+}
+
+function assignTrip(
+  vehicle: VehicleState,
+  cargo: CargoRun,
+  context: PlanningContext,
+  day = vehicle.day,
+  state: DayState = day === vehicle.day ? vehicle : startDay(vehicle, day),
+): VehicleAssignment {
+  const { params } = context
+  const dayStart = dayStartTime(day)
+  const load = Math.min(vehicle.type.capacity, cargoVolume(cargo))
+  let unallocated = load
+  const deliveries = cargo.drops.flatMap((drop) => {
+    const dropLoad = Math.min(drop.remaining, unallocated)
+    unallocated -= dropLoad
+    return dropLoad > 1e-9 ? [{ drop, load: dropLoad }] : []
+  })
+  const waypoints: Waypoint[] = [
+    state.position,
+    {
+      kind: 'shipper',
+      point: cargo.shipperPoint,
+      load,
+      window: shiftWindow(cargo.shipperWindow, dayStart),
+    },
+    ...deliveries.map(
+      ({ drop, load }): Waypoint => ({
+        kind: 'receiver',
+        point: drop.point,
+        load,
+        window: shiftWindow(drop.request.receiverWindow, dayStart),
+      }),
+    ),
+  ]
+  if (params.routingMode === 'pendulum') {
+    const lastDrop = deliveries[deliveries.length - 1].drop
+    waypoints.push(findNearestDepot(lastDrop.point, context).waypoint)
+  }
+
+  const { workRules } = params
+  let { startTime, route } = scheduleDeparture(
+    waypoints,
+    state.availableTime,
+    vehicle.type,
+    context,
+  )
+
+  const lastPoint = waypoints[waypoints.length - 1].point
+  const returnTime =
+    context.routes.route(lastPoint, vehicle.homeDepot.waypoint.point)
+      .travelCost / vehicle.type.speed
+
+  // A break is only inserted between trips: if the next trip would push
+  // continuous driving over the limit, the driver rests first, reusing idle
+  // time before the departure when it is long enough. Any trip may turn out
+  // to be the last of the day, so the return to the depot is counted too.
+  const idleTime = startTime - state.availableTime
+  const needsBreak =
+    state.drivingSinceBreak > 1e-9 &&
+    state.drivingSinceBreak + route.timing.travel + returnTime >
+      workRules.drivingBeforeBreak + 1e-6
+  if (needsBreak && idleTime < workRules.breakDuration - 1e-9) {
+    const delayed = scheduleDeparture(
+      waypoints,
+      state.availableTime + workRules.breakDuration,
+      vehicle.type,
+      context,
+    )
+    startTime = delayed.startTime
+    route = delayed.route
+  }
+  const rested = needsBreak || idleTime >= workRules.breakDuration - 1e-9
+
+  // Locked trips stay where the dispatcher put them: a trip that would run
+  // into one is planned again from the end of the locked trip.
+  const blocking = vehicle.locked.find(
+    ({ trip }) =>
+      trip.schedule.day === day &&
+      trip.schedule.startTime < route.endTime - 1e-6 &&
+      trip.schedule.endTime > state.availableTime + 1e-6,
+  )
+  // The driver also has to manage the locked trip that follows without
+  // going over the continuous driving limit, unless there is time to rest.
+  const drivingSinceBreak =
+    (rested ? 0 : state.drivingSinceBreak) + route.timing.travel
+  const following = vehicle.locked.find(
+    ({ trip }) =>
+      trip.schedule.day === day &&
+      trip.schedule.startTime >= route.endTime - 1e-6,
+  )
+  const overDrivingLimit =
+    following !== undefined &&
+    following.trip.schedule.startTime - route.endTime <
+      workRules.breakDuration - 1e-9 &&
+    drivingSinceBreak +
+      lockedTripTravel(
+        following,
+        waypoints[waypoints.length - 1],
+        vehicle,
+        context,
+      ) >
+      workRules.drivingBeforeBreak + 1e-6
+  const resumeAfter = blocking ?? (overDrivingLimit ? following : undefined)
+  if (resumeAfter) {
+    return assignTrip(
+      vehicle,
+      cargo,
+      context,
+      day,
+      resumeAfterLockedTrip(state, resumeAfter, workRules),
+    )
+  }
+
+  const receiverStops = route.stops.filter((stop) => stop.kind === 'receiver')
+
+  return {
+    vehicle,
+    state,
+    day,
+    startTime,
+    load,
+    deliveries,
+    waypoints,
+    route,
+    drivingSinceBreak,
+    completionTime: route.endTime + returnTime,
+    // Delivery deadlines are treated as one more window to respect.
+    windowsRespected:
+      route.stops.every(
+        (stop) => !stop.window || stop.departure <= stop.window.close + 1e-6,
+      ) &&
+      deliveries.every(
+        ({ drop }, index) =>
+          drop.request.deadline === undefined ||
+          receiverStops[index].departure <= drop.request.deadline + 1e-6,
+      ),
+    withinLimits:
+      state.drivingTime + route.timing.travel + returnTime <=
+        workRules.maxDrivingTime + 1e-6 &&
+      state.workingTime + route.timing.total + returnTime <=
+        workRules.maxWorkingTime + 1e-6,
+    overflow: false,
+  }
+}
+
+// Driving of a locked trip when it leaves from `position`, with the return
+// to the home depot when nothing else is planned after it that day.
+function lockedTripTravel(
+  { trip, draft }: LockedTrip,
+  position: Waypoint,
+  vehicle: VehicleState,
+  context: PlanningContext,
+): number {
+  const endsDay = !vehicle.drafts.some(
+    (other) =>
+      other.day === draft.day && other.startTime > trip.schedule.startTime,
+  )
+  const waypoints = [position, ...draft.waypoints]
+  if (endsDay) {
+    waypoints.push(vehicle.homeDepot.waypoint)
+  }
+  return scheduleRoute(
+    waypoints,
+    trip.schedule.startTime,
+    vehicle.type,
+    context,
+  ).timing.travel
 }
 
-function createVehicle(id: number): VehicleState {
+function resumeAfterLockedTrip(
+  state: DayState,
+  { trip, draft }: LockedTrip,
+  workRules: PlannerParameters['workRules'],
+): DayState {
+  const rested =
+    trip.schedule.startTime - state.availableTime >=
+    workRules.breakDuration - 1e-9
+  return {
+    day: state.day,
+    availableTime: trip.schedule.endTime,
+    position: departurePoint(draft),
+    drivingSinceBreak:
+      (rested ? 0 : state.drivingSinceBreak) + trip.timing.travel,
+    drivingTime: state.drivingTime + trip.timing.travel,
+    workingTime: state.workingTime + trip.timing.total,
+  }
+}
+
+function scheduleDeparture(
+  waypoints: Waypoint[],
+  earliestStart: number,
+  vehicleType: VehicleType,
+  context: PlanningContext,
+): { startTime: number; route: ScheduledRoute } {
+  let startTime = earliestStart
+  let route = scheduleRoute(waypoints, startTime, vehicleType, context)
+  const firstStop = route.stops[1]
+  const initialWait = firstStop ? firstStop.serviceStart - firstStop.arrival : 0
+  if (initialWait > 1e-9) {
+    startTime += initialWait
+    route = scheduleRoute(waypoints, startTime, vehicleType, context)
+  }
+  return { startTime, route }
+}
+
+function arrivalAtShipper(assignment: VehicleAssignment): number {
+  const shipperStop = assignment.route.stops.find(
+    (stop) => stop.kind === 'shipper',
+  )
+  return shipperStop?.arrival ?? assignment.route.endTime
+}
+
+function findNearestDepot(
+  point: GridPoint,
+  context: PlanningContext,
+): DepotLocation {
+  const travelCost = (location: DepotLocation) =>
+    context.routes.route(point, location.waypoint.point).travelCost
+  return context.depots.reduce((nearest, candidate) =>
+    travelCost(candidate) < travelCost(nearest) - 1e-9 ? candidate : nearest,
+  )
+}
+
+function pickHomeDepot(
+  type: VehicleType,
+  shipperPoint: GridPoint,
+  context: PlanningContext,
+): DepotLocation {
+  const assigned = context.depots.find(
+    (location) => location.depot.id === type.depotId,
+  )
+  if (
+    assigned &&
+    Number.isFinite(
+      context.routes.route(assigned.waypoint.point, shipperPoint).travelCost,
+    )
+  ) {
+    return assigned
+  }
+  return findNearestDepot(shipperPoint, context)
+}
+
+function dayStartTime(day: number): number {
+  return day * HOURS_IN_DAY
+}
+
+function isWithinDay(time: number, day: number): boolean {
+  return time >= dayStartTime(day) && time < dayStartTime(day + 1)
+}
+
+// Request windows are given for a single day and repeat on every day of the
+// horizon.
+function shiftWindow(window: TimeWindow, offset: number): TimeWindow {
+  return { open: window.open + offset, close: window.close + offset }
+}
+
+function startDay(vehicle: VehicleState, day: number): DayState {
+  return {
+    day,
+    availableTime: dayStartTime(day),
+    position: vehicle.homeDepot.waypoint,
+    drivingSinceBreak: 0,
+    drivingTime: 0,
+    workingTime: 0,
+  }
+}
+
+// Where the vehicle stands after a trip, ready for the next one.
+function departurePoint(draft: TripDraft): Waypoint {
+  const { kind, point } = draft.waypoints[draft.waypoints.length - 1]
+  return { kind, point, load: 0 }
+}
+
+function nextVehicleId(vehicles: VehicleState[]): number {
+  const used = new Set(vehicles.map((vehicle) => vehicle.id))
+  let id = 1
+  while (used.has(id)) {
+    id += 1
+  }
+  return id
+}
+
+function createVehicle(
+  id: number,
+  type: VehicleType,
+  homeDepot: DepotLocation,
+): VehicleState {
   return {
     id,
+    type,
+    homeDepot,
+    day: 0,
     availableTime: 0,
-    trips: [],
-    totalDistance: 0,
-    totalTime: 0,
+    position: homeDepot.waypoint,
+    drafts: [],
+    locked: [],
+    breaks: [],
+    drivingSinceBreak: 0,
+    drivingTime: 0,
+    workingTime: 0,
   }
 }
 
+export const defaultDepots: Depot[] = [
+  { id: 'depot-1', name: 'АТП-1', code: 'D5' },
+]
+
+export const defaultFleet: VehicleType[] = [
+  {
+    id: 'truck-3t',
+    name: 'Автомобиль 3 т',
+    depotId: null,
+    count: 2,
+    capacity: 3,
+    speed: 45,
+    loadUnloadRate: 0.1,
+  },
+  {
+    id: 'truck-6t',
+    name: 'Автомобиль 6 т',
+    depotId: null,
+    count: 4,
+    capacity: 6,
+    speed: 40,
+    loadUnloadRate: 0.1,
+  },
+  {
+    id: 'truck-10t',
+    name: 'Автомобиль 10 т',
+    depotId: null,
+    count: 2,
+    capacity: 10,
+    speed: 35,
+    loadUnloadRate: 0.08,
+  },
+]
+
 export const defaultParameters: PlannerParameters = {
-  capacity: 6,
-  loadUnloadRate: 0.1,
+  grid: defaultGrid,
+  network: emptyRoadNetwork,
+  depots: defaultDepots,
+  fleet: defaultFleet,
   cellSize: 4,
-  speed: 40,
   distanceMode: 'manhattan',
+  routingMode: 'pendulum',
   workdayLength: HOURS_IN_DAY,
+  planningDays: 1,
+  workRules: defaultWorkRules,
+  optimizationMode: 'greedy',
+  consolidation: 'shipper',
+  consolidationRadius: 8,
+  costs: defaultCostModel,
 }
@@ -0,0 +1,174 @@
+import type { GridConfig, PlanResult, TripPlan, VehicleSchedule } from './types'
+import { parseGridCode } from './utils'
+
+export type VehicleActivity =
+  | 'idle'
+  | 'empty-run'
+  | 'waiting'
+  | 'loading'
+  | 'loaded-run'
+  | 'unloading'
+
+export interface VehiclePosition {
+  vehicleId: number
+  tripId: string | null
+  requestId: string | null
+  // Fractional grid coordinates: a vehicle on the road sits between cells.
+  column: number
+  row: number
+  activity: VehicleActivity
+  load: number
+}
+
+interface Coordinates {
+  column: number
+  row: number
+}
+
+/**
+ * Where every vehicle of the plan is at `time` and what it is doing, replayed
+ * from the trip schedules. Between trips a vehicle stands where its last trip
+ * ended; before its first trip it is at the home depot.
+ */
+export function locateVehicles(
+  plan: PlanResult,
+  time: number,
+  grid: GridConfig,
+): VehiclePosition[] {
+  return plan.vehicles.flatMap((vehicle) => {
+    const position = locateVehicle(vehicle, time, grid)
+    return position ? [position] : []
+  })
+}
+
+function locateVehicle(
+  vehicle: VehicleSchedule,
+  time: number,
+  grid: GridConfig,
+): VehiclePosition | null {
+  const trips = [...vehicle.trips].sort(
+    (a, b) => a.schedule.startTime - b.schedule.startTime,
+  )
+  const current = trips.find(
+    (trip) => trip.schedule.startTime <= time && time < trip.schedule.endTime,
+  )
+  if (current) {
+    return locateOnTrip(vehicle.vehicleId, current, time, grid)
+  }
+
+  // The last trip of a day ends at the home depot, so the last finished trip
+  // tells where the vehicle stands.
+  const finished = trips.filter((trip) => trip.schedule.endTime <= time)
+  const lastStops = finished[finished.length - 1]?.schedule.stops ?? []
+  const standing =
+    lastStops[lastStops.length - 1]?.code ?? vehicle.homeDepot.code
+  const point = parseGridCode(standing, grid)
+  if (!point) {
+    return null
+  }
+  return {
+    vehicleId: vehicle.vehicleId,
+    tripId: null,
+    requestId: null,
+    column: point.column,
+    row: point.row,
+    activity: 'idle',
+    load: 0,
+  }
+}
+
+function locateOnTrip(
+  vehicleId: number,
+  trip: TripPlan,
+  time: number,
+  grid: GridConfig,
+): VehiclePosition | null {
+  const { stops } = trip.schedule
+  const base = { vehicleId, tripId: trip.id, requestId: trip.requestId }
+  let load = 0
+
+  for (const [index, stop] of stops.entries()) {
+    const previous = stops[index - 1]
+    if (previous && time < stop.arrival) {
+      const leg = trip.legs[index - 1]
+      const path = (leg?.path ?? [previous.code, stop.code]).flatMap((code) => {
+        const point = parseGridCode(code, grid)
+        return point ? [{ column: point.column, row: point.row }] : []
+      })
+      const span = stop.arrival - previous.departure
+      const position = interpolatePath(
+        path,
+        span > 0 ? (time - previous.departure) / span : 1,
+      )
+      return position
+        ? {
+            ...base,
+            ...position,
+            activity: load > 1e-9 ? 'loaded-run' : 'empty-run',
+            load,
+          }
+        : null
+    }
+
+    const point = parseGridCode(stop.code, grid)
+    if (time < stop.departure || index === stops.length - 1) {
+      if (!point) {
+        return null
+      }
+      const activity: VehicleActivity =
+        time < stop.serviceStart
+          ? 'waiting'
+          : stop.kind === 'shipper'
+            ? 'loading'
+            : stop.kind === 'receiver'
+              ? 'unloading'
+              : 'idle'
+      return {
+        ...base,
+        column: point.column,
+        row: point.row,
+        activity,
+        load,
+      }
+    }
+
+    if (stop.kind === 'shipper') {
+      load += stop.load
+    } else if (stop.kind === 'receiver') {
+      load = Math.max(load - stop.load, 0)
+    }
+  }
+
+  return null
+}
+
+function interpolatePath(
+  path: Coordinates[],
+  fraction: number,
+): Coordinates | null {
+  if (path.length === 0) {
+    return null
+  }
+  const segments = path.slice(1).map((point, index) => ({
+    from: path[index],
+    to: point,
+    length: Math.hypot(
+      point.column - path[index].column,
+      point.row - path[index].row,
+    ),
+  }))
+  const total = segments.reduce((acc, segment) => acc + segment.length, 0)
+  let remaining = Math.min(Math.max(fraction, 0), 1) * total
+
+  for (const { from, to, length } of segments) {
+    if (remaining <= length && length > 0) {
+      const ratio = remaining / length
+      return {
+        column: from.column + (to.column - from.column) * ratio,
+        row: from.row + (to.row - from.row) * ratio,
+      }
+    }
+    remaining -= length
+  }
+  return path[path.length - 1]
+}
@@ -0,0 +1,158 @@
+import type {
+  InfeasibilityReason,
+  Locale,
+  PlannerParameters,
+  RequestInfeasibility,
+  RequestInput,
+  RequestPriority,
+  TripPlan,
+} from './types'
+import { HOURS_IN_DAY } from './utils'
+
+export const requestPriorityLabels: Record<
+  Locale,
+  Record<RequestPriority, string>
+> = {
+  ru: { high: 'Высокий', normal: 'Обычный', low: 'Низкий' },
+  en: { high: 'High', normal: 'Normal', low: 'Low' },
+}
+
+export const infeasibilityReasonLabels: Record<
+  Locale,
+  Record<InfeasibilityReason, string>
+> = {
+  ru: {
+    deadline: 'Срок доставки',
+    'shipper-window': 'Окно погрузки',
+    'receiver-window': 'Окно выгрузки',
+    shift: 'Длительность смены',
+  },
+  en: {
+    deadline: 'Delivery deadline',
+    'shipper-window': 'Loading window',
+    'receiver-window': 'Unloading window',
+    shift: 'Shift length',
+  },
+}
+
+const priorityRank: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+}
+
+export function isRequestPriority(value: unknown): value is RequestPriority {
+  // Own keys only: `in` would also accept prototype names like "constructor".
+  return typeof value === 'string' && Object.hasOwn(priorityRank, value)
+}
+
+/**
+ * Orders requests for scheduling: higher priority first, then earlier
+ * deadlines; requests without a deadline go last within their priority.
+ * Ties keep the input order.
+ */
+export function compareRequestUrgency(
+  a: RequestInput,
+  b: RequestInput,
+): number {
+  const priorityDelta =
+    priorityRank[a.priority ?? 'normal'] - priorityRank[b.priority ?? 'normal']
+  if (priorityDelta !== 0) {
+    return priorityDelta
+  }
+  if (a.deadline === undefined || b.deadline === undefined) {
+    return Number(a.deadline === undefined) - Number(b.deadline === undefined)
+  }
+  return a.deadline - b.deadline
+}
+
+export function prioritizeRequests(requests: RequestInput[]): RequestInput[] {
+  return [...requests].sort(compareRequestUrgency)
+}
+
+/**
+ * Lists requests whose cargo is not delivered on time: past the deadline,
+ * outside a loading or unloading window, or on a trip that overruns the
+ * shift. Receiver stops of a trip follow the order of its drops.
+ */
+export function findInfeasibleRequests(
+  requests: RequestInput[],
+  trips: TripPlan[],
+  params: PlannerParameters,
+): RequestInfeasibility[] {
+  const report = requests.flatMap((request): RequestInfeasibility[] => {
+    const reasons = new Set<InfeasibilityReason>()
+    let completionTime = Number.NEGATIVE_INFINITY
+    let delay = 0
+    const registerDelay = (reason: InfeasibilityReason, lateness: number) => {
+      if (lateness > 1e-6) {
+        reasons.add(reason)
+        delay = Math.max(delay, lateness)
+      }
+    }
+
+    for (const trip of trips) {
+      const receiverStops = trip.schedule.stops.filter(
+        (stop) => stop.kind === 'receiver',
+      )
+      const dropIndexes = trip.drops.flatMap((drop, index) =>
+        drop.requestId === request.id ? [index] : [],
+      )
+      if (dropIndexes.length === 0) {
+        continue
+      }
+
+      const shipperStop = trip.schedule.stops.find(
+        (stop) => stop.kind === 'shipper',
+      )
+      if (shipperStop?.window) {
+        registerDelay(
+          'shipper-window',
+          shipperStop.departure - shipperStop.window.close,
+        )
+      }
+      for (const index of dropIndexes) {
+        const stop = receiverStops[index]
+        if (!stop) {
+          continue
+        }
+        completionTime = Math.max(completionTime, stop.departure)
+        if (stop.window) {
+          registerDelay('receiver-window', stop.departure - stop.window.close)
+        }
+      }
+      registerDelay(
+        'shift',
+        trip.schedule.endTime -
+          (trip.schedule.day * HOURS_IN_DAY + params.workdayLength),
+      )
+    }
+
+    if (!Number.isFinite(completionTime)) {
+      return []
+    }
+    if (request.deadline !== undefined) {
+      registerDelay('deadline', completionTime - request.deadline)
+    }
+    if (reasons.size === 0) {
+      return []
+    }
+
+    return [
+      {
+        requestId: request.id,
+        requestLabel: `${request.shipperCode} → ${request.receiverCode}`,
+        priority: request.priority ?? 'normal',
+        deadline: request.deadline ?? null,
+        completionTime,
+        delay,
+        reasons: Array.from(reasons),
+      },
+    ]
+  })
+
+  return report.sort(
+    (a, b) =>
+      priorityRank[a.priority] - priorityRank[b.priority] || b.delay - a.delay,
+  )
+}
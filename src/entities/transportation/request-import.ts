@@ -0,0 +1,486 @@
+import { isRequestPriority, requestPriorityLabels } from './priorities'
+import type {
+  GridConfig,
+  Locale,
+  RequestInput,
+  RequestPriority,
+  TimeWindow,
+} from './types'
+import { parseGridCode } from './utils'
+
+export type RequestImportField =
+  | 'shipperCode'
+  | 'receiverCode'
+  | 'volume'
+  | 'shipperOpen'
+  | 'shipperClose'
+  | 'receiverOpen'
+  | 'receiverClose'
+  | 'revenuePerTonne'
+  | 'priority'
+  | 'deadline'
+
+export type ColumnMapping = Record<RequestImportField, number | null>
+
+export interface CsvTable {
+  header: string[]
+  rows: string[][]
+  // Physical line in the file where each row starts, 1-based.
+  lines: number[]
+}
+
+export interface RequestImportRow {
+  line: number
+  request: RequestInput | null
+  errors: string[]
+}
+
+interface ImportFieldDefinition {
+  field: RequestImportField
+  label: Record<Locale, string>
+  required: boolean
+  aliases: string[]
+}
+
+const importMessages = {
+  ru: {
+    missingColumns: (columns: string) => `Укажите столбцы: ${columns}.`,
+    shipper: 'Отправитель',
+    receiver: 'Получатель',
+    loadingWindow: 'Окно погрузки',
+    unloadingWindow: 'Окно выгрузки',
+    missingCode: (label: string) => `${label}: код не указан.`,
+    unknownCode: (label: string, code: string) =>
+      `${label}: код ${code} не найден на сетке.`,
+    invalidTime: (label: string) => `${label}: неверное время.`,
+    invertedWindow: (label: string) =>
+      `${label}: окончание окна должно быть позже начала.`,
+    volume: 'Объём должен быть положительным числом.',
+    revenue: 'Тариф должен быть неотрицательным числом.',
+    priority: (value: string, options: string) =>
+      `Приоритет ${value} не распознан: укажите ${options}.`,
+    deadline: 'Срок доставки должен быть неотрицательным временем.',
+  },
+  en: {
+    missingColumns: (columns: string) => `Select columns: ${columns}.`,
+    shipper: 'Shipper',
+    receiver: 'Receiver',
+    loadingWindow: 'Loading window',
+    unloadingWindow: 'Unloading window',
+    missingCode: (label: string) => `${label}: code is missing.`,
+    unknownCode: (label: string, code: string) =>
+      `${label}: code ${code} is not on the grid.`,
+    invalidTime: (label: string) => `${label}: invalid time.`,
+    invertedWindow: (label: string) =>
+      `${label}: the window must end after it starts.`,
+    volume: 'Volume must be a positive number.',
+    revenue: 'Rate must be a non-negative number.',
+    priority: (value: string, options: string) =>
+      `Priority ${value} is not recognised: use ${options}.`,
+    deadline: 'Deadline must be a non-negative time.',
+  },
+}
+
+// Window columns come first so that headers like «Погрузка с» are not
+// claimed by the broader shipper/receiver aliases.
+export const requestImportFields: ImportFieldDefinition[] = [
+  {
+    field: 'shipperOpen',
+    label: { ru: 'Погрузка с, ч', en: 'Loading from, h' },
+    required: false,
+    aliases: [
+      'погрузка с',
+      'отправитель с',
+      'shipper open',
+      'loading from',
+      'pickup from',
+    ],
+  },
+  {
+    field: 'shipperClose',
+    label: { ru: 'Погрузка до, ч', en: 'Loading until, h' },
+    required: false,
+    aliases: [
+      'погрузка до',
+      'отправитель до',
+      'shipper close',
+      'loading until',
+      'pickup to',
+    ],
+  },
+  {
+    field: 'receiverOpen',
+    label: { ru: 'Выгрузка с, ч', en: 'Unloading from, h' },
+    required: false,
+    aliases: [
+      'выгрузка с',
+      'получатель с',
+      'receiver open',
+      'unloading from',
+      'delivery from',
+    ],
+  },
+  {
+    field: 'receiverClose',
+    label: { ru: 'Выгрузка до, ч', en: 'Unloading until, h' },
+    required: false,
+    aliases: [
+      'выгрузка до',
+      'получатель до',
+      'receiver close',
+      'unloading until',
+      'delivery to',
+    ],
+  },
+  {
+    field: 'shipperCode',
+    label: { ru: 'Отправитель', en: 'Shipper' },
+    required: true,
+    aliases: ['отправитель', 'откуда', 'shipper', 'from'],
+  },
+  {
+    field: 'receiverCode',
+    label: { ru: 'Получатель', en: 'Receiver' },
+    required: true,
+    aliases: ['получатель', 'куда', 'receiver', 'to'],
+  },
+  {
+    field: 'volume',
+    label: { ru: 'Объём, т', en: 'Volume, t' },
+    required: true,
+    aliases: ['объём', 'объем', 'тоннаж', 'вес', 'volume', 'weight'],
+  },
+  {
+    field: 'revenuePerTonne',
+    label: { ru: 'Тариф, ₽/т', en: 'Rate, ₽/t' },
+    required: false,
+    aliases: ['тариф', 'ставка', 'tariff', 'rate'],
+  },
+  {
+    field: 'priority',
+    label: { ru: 'Приоритет', en: 'Priority' },
+    required: false,
+    aliases: ['приоритет', 'важность', 'priority'],
+  },
+  {
+    field: 'deadline',
+    label: { ru: 'Срок доставки, ч', en: 'Deadline, h' },
+    required: false,
+    aliases: ['срок', 'крайний срок', 'дедлайн', 'deadline', 'due'],
+  },
+]
+
+/**
+ * Parses CSV text exported from spreadsheets: strips the UTF-8 BOM, picks
+ * `;` or `,` as the delimiter from the header line and honours quoted fields.
+ * Quoted fields may span lines, so each row keeps the line it starts on.
+ */
+export function parseCsv(text: string): CsvTable {
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter =
+    countOutsideQuotes(firstLine, ';') >= countOutsideQuotes(firstLine, ',')
+      ? ';'
+      : ','
+
+  const records: string[][] = []
+  const starts: number[] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordStart = 1
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index]
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n' || (char === '\r' && content[index + 1] !== '\n')) {
+          line += 1
+        }
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index += 1
+      }
+      record.push(field)
+      records.push(record)
+      starts.push(recordStart)
+      record = []
+      field = ''
+      line += 1
+      recordStart = line
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+    starts.push(recordStart)
+  }
+
+  const [header = [], ...rows] = records.map((row) =>
+    row.map((cell) => cell.trim()),
+  )
+  return { header, rows, lines: starts.slice(1) }
+}
+
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const mapping = Object.fromEntries(
+    requestImportFields.map(({ field }) => [field, null]),
+  ) as ColumnMapping
+  const titles = header.map(normalizeTitle)
+  const used = new Set<number>()
+  // Column labels of every locale are recognised, so files the application
+  // wrote in any language map back without manual setup.
+  const candidates = requestImportFields.map((definition) => ({
+    definition,
+    aliases: [...Object.values(definition.label), ...definition.aliases].map(
+      normalizeTitle,
+    ),
+  }))
+
+  // Exact titles are matched for every field before any partial match, so a
+  // broad alias cannot take a column another field names exactly.
+  const assign = (
+    matches: (title: string, aliases: string[]) => boolean,
+  ): void => {
+    for (const { definition, aliases } of candidates) {
+      if (mapping[definition.field] !== null) {
+        continue
+      }
+      const column = titles.findIndex(
+        (title, index) => !used.has(index) && matches(title, aliases),
+      )
+      if (column >= 0) {
+        mapping[definition.field] = column
+        used.add(column)
+      }
+    }
+  }
+  assign((title, aliases) => aliases.includes(title))
+  assign((title, aliases) =>
+    aliases.some((alias) => alias.length > 2 && containsWords(title, alias)),
+  )
+
+  return mapping
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ').trim()
+}
+
+// Whether the words of `phrase` appear in `title` next to each other and
+// whole: «unloading from» does not contain «loading from».
+function containsWords(title: string, phrase: string): boolean {
+  const words = (text: string) =>
+    text.split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 0)
+  const titleWords = words(title)
+  const phraseWords = words(phrase)
+  if (phraseWords.length === 0) {
+    return false
+  }
+  return titleWords.some((_, start) =>
+    phraseWords.every((word, offset) => titleWords[start + offset] === word),
+  )
+}
+
+export function validateColumnMapping(
+  mapping: ColumnMapping,
+  locale: Locale = 'ru',
+): string | null {
+  const missing = requestImportFields.filter(
+    (definition) => definition.required && mapping[definition.field] === null,
+  )
+  return missing.length > 0
+    ? importMessages[locale].missingColumns(
+        missing.map((definition) => definition.label[locale]).join(', '),
+      )
+    : null
+}
+
+/**
+ * Converts mapped CSV rows into requests. Codes are checked against the grid
+ * with `parseGridCode`; missing windows default to the whole workday.
+ * Line numbers are the file lines the rows start on.
+ */
+export function mapRequestRows(
+  table: CsvTable,
+  mapping: ColumnMapping,
+  grid: GridConfig,
+  workdayLength: number,
+  locale: Locale = 'ru',
+): RequestImportRow[] {
+  const messages = importMessages[locale]
+  return table.rows.flatMap((row, index): RequestImportRow[] => {
+    if (row.every((cell) => cell === '')) {
+      return []
+    }
+    const errors: string[] = []
+    const cell = (field: RequestImportField) => {
+      const column = mapping[field]
+      return column === null ? '' : (row[column] ?? '').trim()
+    }
+
+    const readCode = (field: 'shipperCode' | 'receiverCode', label: string) => {
+      const value = cell(field)
+      if (!value) {
+        errors.push(messages.missingCode(label))
+        return null
+      }
+      const point = parseGridCode(value, grid)
+      if (!point) {
+        errors.push(messages.unknownCode(label, value))
+        return null
+      }
+      return point.code
+    }
+
+    const readWindow = (
+      openField: RequestImportField,
+      closeField: RequestImportField,
+      label: string,
+    ): TimeWindow | null => {
+      const openText = cell(openField)
+      const closeText = cell(closeField)
+      const open = openText ? parseHours(openText) : 0
+      const close = closeText ? parseHours(closeText) : workdayLength
+      if (open === null || close === null || open < 0) {
+        errors.push(messages.invalidTime(label))
+        return null
+      }
+      if (close <= open) {
+        errors.push(messages.invertedWindow(label))
+        return null
+      }
+      return { open, close }
+    }
+
+    const shipperCode = readCode('shipperCode', messages.shipper)
+    const receiverCode = readCode('receiverCode', messages.receiver)
+
+    const volume = parseNumber(cell('volume'))
+    if (volume === null || volume <= 0) {
+      errors.push(messages.volume)
+    }
+
+    const shipperWindow = readWindow(
+      'shipperOpen',
+      'shipperClose',
+      messages.loadingWindow,
+    )
+    const receiverWindow = readWindow(
+      'receiverOpen',
+      'receiverClose',
+      messages.unloadingWindow,
+    )
+
+    const revenueText = cell('revenuePerTonne')
+    const revenuePerTonne = revenueText ? parseNumber(revenueText) : undefined
+    if (revenuePerTonne === null || (revenuePerTonne ?? 0) < 0) {
+      errors.push(messages.revenue)
+    }
+
+    const priorityText = cell('priority')
+    const priority = priorityText ? parsePriority(priorityText) : undefined
+    if (priority === null) {
+      errors.push(
+        messages.priority(
+          priorityText,
+          Object.values(requestPriorityLabels[locale]).join(', ').toLowerCase(),
+        ),
+      )
+    }
+
+    const deadlineText = cell('deadline')
+    const deadline = deadlineText ? parseHours(deadlineText) : undefined
+    if (deadline === null || (deadline ?? 0) < 0) {
+      errors.push(messages.deadline)
+    }
+
+    const valid =
+      errors.length === 0 &&
+      shipperCode &&
+      receiverCode &&
+      volume !== null &&
+      shipperWindow &&
+      receiverWindow &&
+      revenuePerTonne !== null &&
+      priority !== null &&
+      deadline !== null
+
+    return [
+      {
+        line: table.lines[index],
+        request: valid
+          ? {
+              id: crypto.randomUUID(),
+              shipperCode,
+              receiverCode,
+              volume,
+              shipperWindow,
+              receiverWindow,
+              revenuePerTonne,
+              priority,
+              deadline,
+            }
+          : null,
+        errors,
+      },
+    ]
+  })
+}
+
+function parseNumber(value: string): number | null {
+  const normalized = value.replace(/\s/g, '').replace(',', '.')
+  if (!normalized) {
+    return null
+  }
+  const parsed = Number(normalized)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function parsePriority(value: string): RequestPriority | null {
+  const normalized = value.trim().toLowerCase()
+  if (isRequestPriority(normalized)) {
+    return normalized
+  }
+  const match = Object.values(requestPriorityLabels)
+    .flatMap((labels) => Object.entries(labels))
+    .find(([, label]) => label.toLowerCase() === normalized)
+  return match ? (match[0] as RequestPriority) : null
+}
+
+function parseHours(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim())
+  if (match) {
+    const minutes = Number(match[2])
+    return minutes < 60 ? Number(match[1]) + minutes / 60 : null
+  }
+  return parseNumber(value)
+}
+
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0
+  let quoted = false
+  for (const current of line) {
+    if (current === '"') {
+      quoted = !quoted
+    } else if (current === char && !quoted) {
+      count += 1
+    }
+  }
+  return count
+}
@@ -0,0 +1,565 @@
+import { defaultParameters } from './planner'
+import { isRequestPriority } from './priorities'
+import type {
+  Locale,
+  PlannerParameters,
+  PlanResult,
+  RequestInput,
+  TimeWindow,
+} from './types'
+
+export const SCENARIO_FORMAT = 'light-track/scenario'
+export const SCENARIO_VERSION = 4
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FORMAT
+  version: number
+  savedAt: string
+  requests: RequestInput[]
+  parameters: PlannerParameters
+  plan: PlanResult | null
+}
+
+export interface ScenarioParseResult {
+  scenario: ScenarioFile | null
+  errors: string[]
+  warnings: string[]
+}
+
+type JsonObject = Record<string, unknown>
+
+// Each entry upgrades a scenario from the keyed version to the next one.
+// Version 0 is the bare `{ requests, parameters }` dump without metadata,
+// with a single vehicle type in the parameters and a working-hours limit
+// per request instead of time windows;
+// version 1 predates multi-day planning, so its plans lack day indexes;
+// version 2 plans lack the report of requests delivered late; version 3
+// plans carry messages as plain strings instead of diagnostics.
+const migrations: Record<number, (data: JsonObject) => JsonObject> = {
+  0: (data) => ({
+    format: SCENARIO_FORMAT,
+    version: 1,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : null,
+    requests: Array.isArray(data.requests)
+      ? data.requests.map(migrateWorkingHours)
+      : data.requests,
+    parameters: isObject(data.parameters)
+      ? migrateVehicleParameters(data.parameters)
+      : data.parameters,
+    plan: data.plan ?? null,
+  }),
+  1: (data) => ({
+    ...data,
+    version: 2,
+    parameters: isObject(data.parameters)
+      ? { planningDays: 1, ...data.parameters }
+      : data.parameters,
+  }),
+  2: (data) => ({ ...data, version: 3 }),
+  3: (data) => ({ ...data, version: 4 }),
+}
+
+// The receiver had to be served within the request's working hours.
+function migrateWorkingHours(request: unknown): unknown {
+  if (!isObject(request) || request.receiverWindow !== undefined) {
+    return request
+  }
+  const { workingHours, ...rest } = request
+  return isFiniteNumber(workingHours)
+    ? { ...rest, receiverWindow: { open: 0, close: workingHours } }
+    : request
+}
+
+// The single vehicle of the old parameters becomes a fleet of one type; the
+// old planner added vehicles without limit, so it gets the default fleet size.
+function migrateVehicleParameters(parameters: JsonObject): JsonObject {
+  const { capacity, speed, loadUnloadRate, ...rest } = parameters
+  if (rest.fleet !== undefined || !isFiniteNumber(capacity)) {
+    return parameters
+  }
+  const template =
+    defaultParameters.fleet.find((type) => type.capacity === capacity) ??
+    defaultParameters.fleet[0]
+  return {
+    ...rest,
+    fleet: [
+      {
+        ...template,
+        name: `Автомобиль ${capacity} т`,
+        id: `truck-${capacity}t`,
+        count: defaultParameters.fleet.reduce(
+          (total, type) => total + type.count,
+          0,
+        ),
+        capacity,
+        speed: isFiniteNumber(speed) ? speed : template.speed,
+        loadUnloadRate: isFiniteNumber(loadUnloadRate)
+          ? loadUnloadRate
+          : template.loadUnloadRate,
+      },
+    ],
+  }
+}
+
+export function createScenario(
+  requests: RequestInput[],
+  parameters: PlannerParameters,
+  plan: PlanResult | null,
+  savedAt = new Date(),
+): ScenarioFile {
+  return {
+    format: SCENARIO_FORMAT,
+    version: SCENARIO_VERSION,
+    savedAt: savedAt.toISOString(),
+    requests,
+    parameters,
+    plan,
+  }
+}
+
+export function serializeScenario(scenario: ScenarioFile): string {
+  return JSON.stringify(scenario, null, 2)
+}
+
+const scenarioMessages = {
+  ru: {
+    invalidJson: 'Файл сценария не является корректным JSON.',
+    invalidStructure: 'Файл сценария имеет неверную структуру.',
+    foreignFormat: 'Файл не является сценарием планирования перевозок.',
+    newerVersion: (version: number) =>
+      `Сценарий сохранён в более новой версии формата (${version}); поддерживается версия ${SCENARIO_VERSION}.`,
+    missingMigration: (version: number) =>
+      `Не найдена миграция сценария с версии ${version}.`,
+    migrated: (version: number) =>
+      `Сценарий обновлён с версии ${version} до версии ${SCENARIO_VERSION}.`,
+    planDropped:
+      'Сохранённый план не загружен: выполните расчёт заново по параметрам сценария.',
+    missingRequests: 'Сценарий не содержит списка заявок.',
+    requestLabel: (number: number) => `Заявка №${number}`,
+    requestFields: 'не заданы отправитель, получатель или объём.',
+    requestWindows: 'окна времени имеют неверный формат.',
+    requestRevenue: 'тариф должен быть числом.',
+    requestPriority: (value: string) => `неизвестный приоритет ${value}.`,
+    requestDeadline: 'срок доставки должен быть числом.',
+    missingParameters: 'Сценарий не содержит параметров перевозки.',
+    defaultedParameters: (keys: string) =>
+      `Параметры, отсутствующие в сценарии, заданы по умолчанию: ${keys}.`,
+    invalidParameters: (keys: string) =>
+      `Параметры имеют неверный формат: ${keys}.`,
+  },
+  en: {
+    invalidJson: 'The scenario file is not valid JSON.',
+    invalidStructure: 'The scenario file has an invalid structure.',
+    foreignFormat: 'The file is not a transportation planning scenario.',
+    newerVersion: (version: number) =>
+      `The scenario was saved in a newer format version (${version}); version ${SCENARIO_VERSION} is supported.`,
+    missingMigration: (version: number) =>
+      `No scenario migration found from version ${version}.`,
+    migrated: (version: number) =>
+      `The scenario was upgraded from version ${version} to version ${SCENARIO_VERSION}.`,
+    planDropped:
+      'The saved plan was not loaded: run the calculation again with the scenario parameters.',
+    missingRequests: 'The scenario has no request list.',
+    requestLabel: (number: number) => `Request #${number}`,
+    requestFields: 'shipper, receiver or volume is missing.',
+    requestWindows: 'time windows have an invalid format.',
+    requestRevenue: 'rate must be a number.',
+    requestPriority: (value: string) => `unknown priority ${value}.`,
+    requestDeadline: 'deadline must be a number.',
+    missingParameters: 'The scenario has no transportation parameters.',
+    defaultedParameters: (keys: string) =>
+      `Parameters missing from the scenario were set to defaults: ${keys}.`,
+    invalidParameters: (keys: string) =>
+      `Parameters have an invalid format: ${keys}.`,
+  },
+}
+
+type ScenarioMessages = (typeof scenarioMessages)[Locale]
+
+/**
+ * Reads a scenario file of any known version. Older files are migrated step
+ * by step; parameters introduced after the file was saved take their default
+ * values. A stored plan is kept only when the file was written by the current
+ * version and the plan is complete, because older or edited plans may lack
+ * fields the views rely on.
+ */
+export function parseScenario(
+  text: string,
+  locale: Locale = 'ru',
+): ScenarioParseResult {
+  const messages = scenarioMessages[locale]
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return {
+      scenario: null,
+      errors: [messages.invalidJson],
+      warnings,
+    }
+  }
+  if (!isObject(data)) {
+    return {
+      scenario: null,
+      errors: [messages.invalidStructure],
+      warnings,
+    }
+  }
+  if (data.format !== undefined && data.format !== SCENARIO_FORMAT) {
+    return {
+      scenario: null,
+      errors: [messages.foreignFormat],
+      warnings,
+    }
+  }
+
+  const sourceVersion =
+    data.format === SCENARIO_FORMAT && isFiniteNumber(data.version)
+      ? data.version
+      : 0
+  if (sourceVersion > SCENARIO_VERSION) {
+    return {
+      scenario: null,
+      errors: [messages.newerVersion(sourceVersion)],
+      warnings,
+    }
+  }
+
+  let migrated: JsonObject = data
+  for (let version = sourceVersion; version < SCENARIO_VERSION; version += 1) {
+    const migrate = migrations[version]
+    if (!migrate) {
+      return {
+        scenario: null,
+        errors: [messages.missingMigration(version)],
+        warnings,
+      }
+    }
+    migrated = migrate(migrated)
+  }
+  if (sourceVersion < SCENARIO_VERSION) {
+    warnings.push(messages.migrated(sourceVersion))
+  }
+
+  const parameters = readParameters(
+    migrated.parameters,
+    messages,
+    errors,
+    warnings,
+  )
+  const requests = readRequests(
+    migrated.requests,
+    parameters.workdayLength,
+    messages,
+    errors,
+  )
+
+  let plan: PlanResult | null = null
+  if (migrated.plan !== null && migrated.plan !== undefined) {
+    if (sourceVersion === SCENARIO_VERSION && isPlanResult(migrated.plan)) {
+      plan = migrated.plan
+    } else {
+      warnings.push(messages.planDropped)
+    }
+  }
+
+  if (errors.length > 0) {
+    return { scenario: null, errors, warnings }
+  }
+
+  return {
+    scenario: {
+      format: SCENARIO_FORMAT,
+      version: SCENARIO_VERSION,
+      savedAt:
+        typeof migrated.savedAt === 'string'
+          ? migrated.savedAt
+          : new Date().toISOString(),
+      requests,
+      parameters,
+      plan,
+    },
+    errors,
+    warnings,
+  }
+}
+
+function readRequests(
+  value: unknown,
+  workdayLength: number,
+  messages: ScenarioMessages,
+  errors: string[],
+): RequestInput[] {
+  if (!Array.isArray(value)) {
+    errors.push(messages.missingRequests)
+    return []
+  }
+
+  return value.flatMap((item, index): RequestInput[] => {
+    const label = messages.requestLabel(index + 1)
+    if (
+      !isObject(item) ||
+      typeof item.shipperCode !== 'string' ||
+      typeof item.receiverCode !== 'string' ||
+      !isFiniteNumber(item.volume)
+    ) {
+      errors.push(`${label}: ${messages.requestFields}`)
+      return []
+    }
+    const shipperWindow = readWindow(item.shipperWindow, workdayLength)
+    const receiverWindow = readWindow(item.receiverWindow, workdayLength)
+    if (!shipperWindow || !receiverWindow) {
+      errors.push(`${label}: ${messages.requestWindows}`)
+      return []
+    }
+    if (
+      item.revenuePerTonne !== undefined &&
+      !isFiniteNumber(item.revenuePerTonne)
+    ) {
+      errors.push(`${label}: ${messages.requestRevenue}`)
+      return []
+    }
+    if (item.priority !== undefined && !isRequestPriority(item.priority)) {
+      errors.push(
+        `${label}: ${messages.requestPriority(String(item.priority))}`,
+      )
+      return []
+    }
+    if (item.deadline !== undefined && !isFiniteNumber(item.deadline)) {
+      errors.push(`${label}: ${messages.requestDeadline}`)
+      return []
+    }
+    return [
+      {
+        id: typeof item.id === 'string' ? item.id : crypto.randomUUID(),
+        shipperCode: item.shipperCode,
+        receiverCode: item.receiverCode,
+        volume: item.volume,
+        shipperWindow,
+        receiverWindow,
+        revenuePerTonne: item.revenuePerTonne,
+        priority: item.priority,
+        deadline: item.deadline,
+      },
+    ]
+  })
+}
+
+function readWindow(value: unknown, workdayLength: number): TimeWindow | null {
+  if (value === undefined) {
+    return { open: 0, close: workdayLength }
+  }
+  return isObject(value) &&
+    isFiniteNumber(value.open) &&
+    isFiniteNumber(value.close)
+    ? { open: value.open, close: value.close }
+    : null
+}
+
+function readParameters(
+  value: unknown,
+  messages: ScenarioMessages,
+  errors: string[],
+  warnings: string[],
+): PlannerParameters {
+  if (!isObject(value)) {
+    errors.push(messages.missingParameters)
+    return defaultParameters
+  }
+
+  const nested = <K extends 'grid' | 'network' | 'workRules' | 'costs'>(
+    key: K,
+  ): PlannerParameters[K] =>
+    isObject(value[key])
+      ? { ...defaultParameters[key], ...value[key] }
+      : defaultParameters[key]
+
+  const keys = Object.keys(defaultParameters) as Array<keyof PlannerParameters>
+  const parameters = {
+    ...Object.fromEntries(
+      keys.map((key) => [key, value[key] ?? defaultParameters[key]]),
+    ),
+    grid: nested('grid'),
+    network: nested('network'),
+    workRules: nested('workRules'),
+    costs: nested('costs'),
+  } as PlannerParameters
+
+  const defaulted = keys.filter((key) => value[key] === undefined)
+  if (defaulted.length > 0) {
+    warnings.push(messages.defaultedParameters(defaulted.join(', ')))
+  }
+
+  const invalid: string[] = []
+  const expectNumbers = (target: object, keys: string[], prefix = '') => {
+    for (const key of keys) {
+      if (!isFiniteNumber((target as JsonObject)[key])) {
+        invalid.push(`${prefix}${key}`)
+      }
+    }
+  }
+  const expectOneOf = (key: keyof PlannerParameters, options: string[]) => {
+    if (!options.includes(parameters[key] as string)) {
+      invalid.push(key)
+    }
+  }
+
+  expectNumbers(parameters, [
+    'cellSize',
+    'workdayLength',
+    'planningDays',
+    'consolidationRadius',
+  ])
+  expectNumbers(parameters.grid, ['columns', 'rows'], 'grid.')
+  expectNumbers(parameters.workRules, Object.keys(defaultParameters.workRules))
+  expectNumbers(parameters.costs, Object.keys(defaultParameters.costs))
+  expectOneOf('distanceMode', ['manhattan', 'euclidean', 'network'])
+  expectOneOf('routingMode', ['pendulum', 'chained'])
+  expectOneOf('optimizationMode', ['greedy', 'fleet'])
+  expectOneOf('consolidation', ['none', 'shipper', 'nearby'])
+
+  if (
+    parameters.grid.columnLabels !== null &&
+    !isStringArray(parameters.grid.columnLabels)
+  ) {
+    invalid.push('grid.columnLabels')
+  }
+  if (
+    !isStringArray(parameters.network.blockedCells) ||
+    !isArrayOf(
+      parameters.network.edgeWeights,
+      (edge) =>
+        typeof edge.id === 'string' &&
+        typeof edge.from === 'string' &&
+        typeof edge.to === 'string' &&
+        isFiniteNumber(edge.weight),
+    )
+  ) {
+    invalid.push('network')
+  }
+  if (
+    !isArrayOf(
+      parameters.depots,
+      (depot) =>
+        typeof depot.id === 'string' &&
+        typeof depot.name === 'string' &&
+        typeof depot.code === 'string',
+    )
+  ) {
+    invalid.push('depots')
+  }
+  if (
+    !isArrayOf(
+      parameters.fleet,
+      (type) =>
+        typeof type.id === 'string' &&
+        typeof type.name === 'string' &&
+        (type.depotId === null || typeof type.depotId === 'string') &&
+        ['count', 'capacity', 'speed', 'loadUnloadRate'].every((key) =>
+          isFiniteNumber(type[key]),
+        ),
+    )
+  ) {
+    invalid.push('fleet')
+  }
+
+  if (invalid.length > 0) {
+    errors.push(messages.invalidParameters(invalid.join(', ')))
+  }
+
+  return parameters
+}
+
+// A stored plan is shown and checked as it is, so every structure the views
+// read has to be there.
+function isPlanResult(value: unknown): value is PlanResult {
+  return (
+    isObject(value) &&
+    isArrayOf(value.trips, isTripPlan) &&
+    isArrayOf(
+      value.vehicles,
+      (vehicle) =>
+        isFiniteNumber(vehicle.vehicleId) &&
+        isObject(vehicle.vehicleType) &&
+        isObject(vehicle.homeDepot) &&
+        isArrayOf(vehicle.trips, isTripPlan) &&
+        isArrayOf(vehicle.breaks, (pause) =>
+          hasNumbers(pause, ['start', 'end']),
+        ) &&
+        hasNumbers(vehicle, ['totalDistance', 'totalTime', 'drivingTime']) &&
+        isObject(vehicle.finance) &&
+        Array.isArray(vehicle.violations),
+    ) &&
+    isObject(value.summary) &&
+    hasNumbers(value.summary, [
+      'totalTrips',
+      'totalVolume',
+      'totalDistance',
+      'loadedDistance',
+      'emptyDistance',
+      'utilization',
+      'totalTime',
+      'maxCompletionTime',
+      'vehiclesRequired',
+      'daysUsed',
+    ]) &&
+    isObject(value.summary.finance) &&
+    (value.optimization === null || isObject(value.optimization)) &&
+    Array.isArray(value.infeasible) &&
+    Array.isArray(value.errors)
+  )
+}
+
+function isTripPlan(trip: JsonObject): boolean {
+  return (
+    typeof trip.id === 'string' &&
+    typeof trip.requestId === 'string' &&
+    hasNumbers(trip, ['tripNumber', 'load', 'vehicleId']) &&
+    isArrayOf(
+      trip.drops,
+      (drop) => typeof drop.requestId === 'string' && isFiniteNumber(drop.load),
+    ) &&
+    isArrayOf(trip.legs, (leg) => isStringArray(leg.path)) &&
+    isObject(trip.distances) &&
+    isObject(trip.timing) &&
+    isObject(trip.finance) &&
+    isObject(trip.schedule) &&
+    hasNumbers(trip.schedule, ['day', 'startTime', 'endTime']) &&
+    isArrayOf(
+      trip.schedule.stops,
+      (stop) =>
+        typeof stop.code === 'string' &&
+        hasNumbers(stop, ['arrival', 'serviceStart', 'departure']),
+    ) &&
+    Array.isArray(trip.warnings)
+  )
+}
+
+function hasNumbers(value: JsonObject, keys: string[]): boolean {
+  return keys.every((key) => isFiniteNumber(value[key]))
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isArrayOf(
+  value: unknown,
+  predicate: (item: JsonObject) => boolean,
+): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => isObject(item) && predicate(item))
+  )
+}
@@ -1,20 +1,153 @@
-export type DistanceMode = 'manhattan' | 'euclidean'
+export type Locale = 'ru' | 'en'
+
+export type DistanceMode = 'manhattan' | 'euclidean' | 'network'
+
+export type GeometricDistanceMode = Exclude<DistanceMode, 'network'>
+
+export type RoutingMode = 'pendulum' | 'chained'
+
+export type OptimizationMode = 'greedy' | 'fleet'
+
+export type ConsolidationMode = 'none' | 'shipper' | 'nearby'
+
+export type StopKind = 'depot' | 'shipper' | 'receiver'
+
+export type RequestPriority = 'high' | 'normal' | 'low'
+
+export type InfeasibilityReason =
+  | 'deadline'
+  | 'shipper-window'
+  | 'receiver-window'
+  | 'shift'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export type DiagnosticCode =
+  | 'invalid-grid'
+  | 'depot-invalid-location'
+  | 'depot-impassable'
+  | 'request-missing-address'
+  | 'request-empty-volume'
+  | 'request-invalid-location'
+  | 'request-unreachable'
+  | 'fleet-empty'
+  | 'depots-missing'
+  | 'fleet-exhausted'
+  | 'work-rules-violated'
+  | 'shipper-window-exceeded'
+  | 'receiver-window-exceeded'
+  | 'trip-exceeds-shift'
+  | 'continuous-driving-exceeded'
+  | 'driving-time-exceeded'
+  | 'working-time-exceeded'
+  | 'trip-unknown-vehicle'
+  | 'trip-over-capacity'
+  | 'trip-load-mismatch'
+  | 'trip-unknown-request'
+  | 'request-volume-mismatch'
+  | 'trips-overlap'
+  | 'stop-times-inconsistent'
+  | 'trip-timing-mismatch'
+  | 'trip-distance-mismatch'
+  | 'shift-limit-exceeded'
+
+/**
+ * A machine-readable planning message. `values` holds the numbers the
+ * message is about (times, limits, counts); `labels` holds the names and
+ * grid codes it mentions. Use `formatDiagnostic` to render it as text.
+ */
+export interface Diagnostic {
+  code: DiagnosticCode
+  severity: DiagnosticSeverity
+  requestId?: string
+  tripId?: string
+  vehicleId?: number
+  depotId?: string
+  values: Record<string, number>
+  labels: Record<string, string>
+}
+
+export interface TimeWindow {
+  open: number
+  close: number
+}
 
 export interface RequestInput {
   id: string
   shipperCode: string
   receiverCode: string
   volume: number
-  workingHours: number
+  shipperWindow: TimeWindow
+  receiverWindow: TimeWindow
+  revenuePerTonne?: number
+  priority?: RequestPriority
+  // Latest completion of the delivery, in hours from the start of the horizon.
+  deadline?: number
 }
 
-export interface PlannerParameters {
+export interface Depot {
+  id: string
+  name: string
+  code: string
+}
+
+export interface VehicleType {
+  id: string
+  name: string
+  depotId: string | null
+  count: number
   capacity: number
+  speed: number
   loadUnloadRate: number
+}
+
+export interface GridConfig {
+  columns: number
+  rows: number
+  columnLabels: string[] | null
+}
+
+export interface EdgeWeight {
+  id: string
+  from: string
+  to: string
+  weight: number
+}
+
+export interface RoadNetwork {
+  blockedCells: string[]
+  edgeWeights: EdgeWeight[]
+}
+
+export interface CostModel {
+  fuelCostPerKm: number
+  driverCostPerHour: number
+  vehicleDailyCost: number
+  revenuePerTonne: number
+}
+
+export interface WorkRules {
+  drivingBeforeBreak: number
+  breakDuration: number
+  maxDrivingTime: number
+  maxWorkingTime: number
+}
+
+export interface PlannerParameters {
+  grid: GridConfig
+  network: RoadNetwork
+  depots: Depot[]
+  fleet: VehicleType[]
   cellSize: number
-  speed: number
   distanceMode: DistanceMode
+  routingMode: RoutingMode
   workdayLength: number
+  planningDays: number
+  workRules: WorkRules
+  optimizationMode: OptimizationMode
+  consolidation: ConsolidationMode
+  consolidationRadius: number
+  costs: CostModel
 }
 
 export interface GridPoint {
@@ -24,28 +157,59 @@ export interface GridPoint {
 }
 
 export interface RouteDistance {
-  toShipper: number
-  toReceiver: number
-  toDepot: number
+  loaded: number
+  empty: number
   total: number
 }
 
+export interface RouteLeg {
+  from: string
+  to: string
+  path: string[]
+  distance: number
+  loaded: boolean
+}
+
 export interface RouteTiming {
   travel: number
+  waiting: number
   loading: number
   unloading: number
   total: number
 }
 
+export interface FinancialBreakdown {
+  fuelCost: number
+  driverCost: number
+  fixedCost: number
+  totalCost: number
+  revenue: number
+  margin: number
+}
+
+export interface TripStop {
+  kind: StopKind
+  code: string
+  load: number
+  window?: TimeWindow
+  arrival: number
+  serviceStart: number
+  departure: number
+}
+
 export interface TripSchedule {
+  day: number
   startTime: number
-  arrivalShipper: number
-  departureShipper: number
-  arrivalReceiver: number
-  departureReceiver: number
+  stops: TripStop[]
   endTime: number
 }
 
+export interface TripDrop {
+  requestId: string
+  receiverCode: string
+  load: number
+}
+
 export interface TripPlan {
   id: string
   requestId: string
@@ -54,18 +218,36 @@ export interface TripPlan {
   receiverCode: string
   tripNumber: number
   load: number
+  drops: TripDrop[]
+  legs: RouteLeg[]
   distances: RouteDistance
   timing: RouteTiming
+  finance: FinancialBreakdown
   schedule: TripSchedule
   vehicleId: number
-  warnings: string[]
+  vehicleTypeId: string
+  warnings: Diagnostic[]
+  // Locked trips keep their vehicle and start time when the plan is
+  // calculated again.
+  locked?: boolean
+}
+
+export interface DriverBreak {
+  start: number
+  end: number
 }
 
 export interface VehicleSchedule {
   vehicleId: number
+  vehicleType: VehicleType
+  homeDepot: Depot
   trips: TripPlan[]
+  breaks: DriverBreak[]
   totalDistance: number
   totalTime: number
+  drivingTime: number
+  finance: FinancialBreakdown
+  violations: Diagnostic[]
 }
 
 export interface PlanSummary {
@@ -78,11 +260,33 @@ export interface PlanSummary {
   totalTime: number
   maxCompletionTime: number
   vehiclesRequired: number
+  daysUsed: number
+  finance: FinancialBreakdown
+}
+
+export interface OptimizationReport {
+  baselineVehicles: number
+  baselineTotalTime: number
+  vehicles: number
+  totalTime: number
+  evaluations: number
+}
+
+export interface RequestInfeasibility {
+  requestId: string
+  requestLabel: string
+  priority: RequestPriority
+  deadline: number | null
+  completionTime: number
+  delay: number
+  reasons: InfeasibilityReason[]
 }
 
 export interface PlanResult {
   trips: TripPlan[]
   vehicles: VehicleSchedule[]
   summary: PlanSummary
-  errors: string[]
+  optimization: OptimizationReport | null
+  infeasible: RequestInfeasibility[]
+  errors: Diagnostic[]
 }
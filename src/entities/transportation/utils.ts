@@ -1,29 +1,130 @@
-import type { DistanceMode, GridPoint } from './types'
+import type {
+  GeometricDistanceMode,
+  GridConfig,
+  GridPoint,
+  Locale,
+  TimeWindow,
+  TripPlan,
+} from './types'
 
-const LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'] as const
-const GRID_SIZE = 6
+const ALPHABET_SIZE = 26
+const DEFAULT_GRID_SIZE = 6
+
+export const HOURS_IN_DAY = 24
+// Larger grids make route search and the map too heavy to draw.
+export const MAX_GRID_SIZE = 100
+
+export const localeTags: Record<Locale, string> = {
+  ru: 'ru-RU',
+  en: 'en-US',
+}
+
+const gridMessages = {
+  ru: {
+    size: `Размеры сетки должны быть целыми числами от 1 до ${MAX_GRID_SIZE}.`,
+    labelCount: (labels: number, columns: number) =>
+      `Количество подписей столбцов (${labels}) не совпадает с числом столбцов (${columns}).`,
+    labelLetters: 'Подписи столбцов должны состоять только из латинских букв.',
+    labelDuplicates: 'Подписи столбцов не должны повторяться.',
+    depot: 'АТП',
+  },
+  en: {
+    size: `Grid dimensions must be whole numbers from 1 to ${MAX_GRID_SIZE}.`,
+    labelCount: (labels: number, columns: number) =>
+      `The number of column labels (${labels}) does not match the number of columns (${columns}).`,
+    labelLetters: 'Column labels must contain Latin letters only.',
+    labelDuplicates: 'Column labels must be unique.',
+    depot: 'Depot',
+  },
+}
+
+export const defaultGrid: GridConfig = {
+  columns: DEFAULT_GRID_SIZE,
+  rows: DEFAULT_GRID_SIZE,
+  columnLabels: null,
+}
 
 export function normalizeCode(code: string): string {
   return code.trim().toUpperCase()
 }
 
-export function parseGridCode(code: string): GridPoint | null {
+export function columnLabel(index: number): string {
+  let label = ''
+  let remainder = index + 1
+  while (remainder > 0) {
+    const offset = (remainder - 1) % ALPHABET_SIZE
+    label = String.fromCharCode(65 + offset) + label
+    remainder = Math.floor((remainder - 1) / ALPHABET_SIZE)
+  }
+  return label
+}
+
+export function getColumnLabels(grid: GridConfig): string[] {
+  if (grid.columnLabels && grid.columnLabels.length === grid.columns) {
+    return grid.columnLabels.map(normalizeCode)
+  }
+  return Array.from({ length: grid.columns }, (_, index) => columnLabel(index))
+}
+
+export function validateGrid(
+  grid: GridConfig,
+  locale: Locale = 'ru',
+): string | null {
+  const messages = gridMessages[locale]
+  if (
+    !Number.isInteger(grid.columns) ||
+    !Number.isInteger(grid.rows) ||
+    grid.columns < 1 ||
+    grid.rows < 1 ||
+    grid.columns > MAX_GRID_SIZE ||
+    grid.rows > MAX_GRID_SIZE
+  ) {
+    return messages.size
+  }
+  if (!grid.columnLabels) {
+    return null
+  }
+  const labels = grid.columnLabels.map(normalizeCode)
+  if (labels.length !== grid.columns) {
+    return messages.labelCount(labels.length, grid.columns)
+  }
+  if (labels.some((label) => !/^[A-Z]+$/.test(label))) {
+    return messages.labelLetters
+  }
+  if (new Set(labels).size !== labels.length) {
+    return messages.labelDuplicates
+  }
+  return null
+}
+
+export function formatGridCode(
+  column: number,
+  row: number,
+  grid: GridConfig = defaultGrid,
+): string {
+  return `${getColumnLabels(grid)[column] ?? columnLabel(column)}${row + 1}`
+}
+
+export function parseGridCode(
+  code: string,
+  grid: GridConfig = defaultGrid,
+): GridPoint | null {
   const normalized = normalizeCode(code)
-  const match = normalized.match(/^([A-F])(\d)$/i)
+  const match = normalized.match(/^([A-Z]+)(\d+)$/)
   if (!match) {
     return null
   }
-  const letter = match[1].toUpperCase()
+  const letters = match[1]
   const number = Number.parseInt(match[2], 10)
-  const column = LETTERS.indexOf(letter as (typeof LETTERS)[number])
+  const column = getColumnLabels(grid).indexOf(letters)
   if (column === -1) {
     return null
   }
-  if (number < 1 || number > GRID_SIZE) {
+  if (number < 1 || number > grid.rows) {
     return null
   }
   return {
-    code: normalized,
+    code: `${letters}${number}`,
     column,
     row: number - 1,
   }
@@ -33,7 +134,7 @@ export function calculateDistance(
   from: GridPoint,
   to: GridPoint,
   cellSize: number,
-  mode: DistanceMode,
+  mode: GeometricDistanceMode,
 ): number {
   const dx = Math.abs(from.column - to.column)
   const dy = Math.abs(from.row - to.row)
@@ -45,25 +146,47 @@ export function calculateDistance(
   return cellSize * Math.hypot(dx, dy)
 }
 
-export function formatHours(value: number): string {
-  return value.toLocaleString('ru-RU', {
+export function normalizeTimeWindow(
+  window: TimeWindow,
+  fallbackClose: number,
+): TimeWindow {
+  const open = Number.isFinite(window.open) && window.open > 0 ? window.open : 0
+  const close =
+    Number.isFinite(window.close) && window.close > open
+      ? window.close
+      : Math.max(fallbackClose, open)
+  return { open, close }
+}
+
+export function formatHours(value: number, locale: Locale = 'ru'): string {
+  return value.toLocaleString(localeTags[locale], {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   })
 }
 
-export function formatDistance(value: number): string {
-  return value.toLocaleString('ru-RU', {
+export function formatDistance(value: number, locale: Locale = 'ru'): string {
+  return value.toLocaleString(localeTags[locale], {
     minimumFractionDigits: 1,
     maximumFractionDigits: 1,
   })
 }
 
-export const depotPoint: GridPoint = {
-  code: 'D5',
-  column: 3,
-  row: 4,
+export function formatMoney(value: number, locale: Locale = 'ru'): string {
+  return value.toLocaleString(localeTags[locale], {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })
 }
 
-export const gridSize = GRID_SIZE
-export const gridLetters = LETTERS
+export function describeTripRoute(
+  trip: TripPlan,
+  locale: Locale = 'ru',
+): string {
+  const depot = gridMessages[locale].depot
+  return trip.schedule.stops
+    .map((stop) =>
+      stop.kind === 'depot' ? `${depot} ${stop.code}` : stop.code,
+    )
+    .join(' → ')
+}
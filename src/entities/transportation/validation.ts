@@ -0,0 +1,291 @@
+import { createDiagnostic } from './diagnostics'
+import type {
+  Diagnostic,
+  PlannerParameters,
+  PlanResult,
+  RequestInput,
+  TripPlan,
+  VehicleType,
+} from './types'
+import { HOURS_IN_DAY } from './utils'
+
+// Hand-edited plans usually carry values rounded to hundredths.
+const TOLERANCE = 0.01
+
+/**
+ * Checks a plan against the requests and parameters it claims to serve,
+ * without relying on how the planner built it: trip loads against vehicle
+ * capacity, delivered volume per request, overlapping trips of a vehicle,
+ * the arithmetic of each trip's schedule and the shift limits of every day.
+ * Trips are grouped by their own `vehicleId`, so plans edited by hand are
+ * checked the same way as calculated ones.
+ */
+export function validatePlan(
+  requests: RequestInput[],
+  params: PlannerParameters,
+  plan: PlanResult,
+): Diagnostic[] {
+  const vehicleTypes = new Map<number, VehicleType>(
+    plan.vehicles.map((vehicle) => [vehicle.vehicleId, vehicle.vehicleType]),
+  )
+  const requestIds = new Set(requests.map((request) => request.id))
+
+  return [
+    ...plan.trips.flatMap((trip) => [
+      ...checkTripLoad(
+        trip,
+        vehicleTypes.get(trip.vehicleId) ??
+          params.fleet.find((type) => type.id === trip.vehicleTypeId),
+        requestIds,
+      ),
+      ...checkTripSchedule(trip),
+      ...checkTripShift(trip, params),
+    ]),
+    ...checkRequestCoverage(requests, plan.trips),
+    ...checkVehicleOverlaps(plan.trips),
+  ]
+}
+
+function tripDetails(trip: TripPlan) {
+  return {
+    requestId: trip.requestId,
+    tripId: trip.id,
+    vehicleId: trip.vehicleId,
+  }
+}
+
+function tripValues(trip: TripPlan) {
+  return { vehicle: trip.vehicleId, tripNumber: trip.tripNumber }
+}
+
+function checkTripLoad(
+  trip: TripPlan,
+  vehicleType: VehicleType | undefined,
+  requestIds: Set<string>,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  if (!vehicleType) {
+    diagnostics.push(
+      createDiagnostic('trip-unknown-vehicle', {
+        ...tripDetails(trip),
+        values: tripValues(trip),
+      }),
+    )
+  } else if (trip.load > vehicleType.capacity + TOLERANCE) {
+    diagnostics.push(
+      createDiagnostic('trip-over-capacity', {
+        ...tripDetails(trip),
+        values: {
+          ...tripValues(trip),
+          load: trip.load,
+          capacity: vehicleType.capacity,
+        },
+      }),
+    )
+  }
+
+  const dropped = trip.drops.reduce((total, drop) => total + drop.load, 0)
+  if (Math.abs(dropped - trip.load) > TOLERANCE) {
+    diagnostics.push(
+      createDiagnostic('trip-load-mismatch', {
+        ...tripDetails(trip),
+        values: { ...tripValues(trip), load: trip.load, dropped },
+      }),
+    )
+  }
+  for (const drop of trip.drops) {
+    if (!requestIds.has(drop.requestId)) {
+      diagnostics.push(
+        createDiagnostic('trip-unknown-request', {
+          ...tripDetails(trip),
+          values: tripValues(trip),
+          labels: { location: drop.receiverCode },
+        }),
+      )
+    }
+  }
+  return diagnostics
+}
+
+function checkRequestCoverage(
+  requests: RequestInput[],
+  trips: TripPlan[],
+): Diagnostic[] {
+  const delivered = new Map<string, number>()
+  for (const trip of trips) {
+    for (const drop of trip.drops) {
+      delivered.set(
+        drop.requestId,
+        (delivered.get(drop.requestId) ?? 0) + drop.load,
+      )
+    }
+  }
+
+  return requests.flatMap((request) => {
+    const volume = delivered.get(request.id) ?? 0
+    return Math.abs(volume - request.volume) > TOLERANCE
+      ? [
+          createDiagnostic('request-volume-mismatch', {
+            requestId: request.id,
+            values: { delivered: volume, volume: request.volume },
+            labels: {
+              shipper: request.shipperCode,
+              receiver: request.receiverCode,
+            },
+          }),
+        ]
+      : []
+  })
+}
+
+function checkVehicleOverlaps(trips: TripPlan[]): Diagnostic[] {
+  const byVehicle = new Map<number, TripPlan[]>()
+  for (const trip of trips) {
+    byVehicle.set(trip.vehicleId, [
+      ...(byVehicle.get(trip.vehicleId) ?? []),
+      trip,
+    ])
+  }
+
+  return Array.from(byVehicle.values()).flatMap((vehicleTrips) => {
+    const sorted = [...vehicleTrips].sort(
+      (a, b) => a.schedule.startTime - b.schedule.startTime,
+    )
+    return sorted.slice(1).flatMap((trip, index) => {
+      const previous = sorted[index]
+      return trip.schedule.startTime < previous.schedule.endTime - TOLERANCE
+        ? [
+            createDiagnostic('trips-overlap', {
+              ...tripDetails(trip),
+              values: {
+                ...tripValues(trip),
+                otherTripNumber: previous.tripNumber,
+                start: trip.schedule.startTime,
+                previousEnd: previous.schedule.endTime,
+              },
+            }),
+          ]
+        : []
+    })
+  })
+}
+
+/**
+ * Replays the stops of a trip: times must not run backwards, a stop may only
+ * wait for its window to open, and the trip totals must add up to the gaps
+ * between stops.
+ */
+function checkTripSchedule(trip: TripPlan): Diagnostic[] {
+  const { stops, startTime, endTime } = trip.schedule
+  const diagnostics: Diagnostic[] = []
+  if (stops.length === 0) {
+    return diagnostics
+  }
+
+  let travel = 0
+  let waiting = 0
+  let handling = 0
+  stops.forEach((stop, index) => {
+    const previousDeparture =
+      index === 0 ? startTime : stops[index - 1].departure
+    const opens = stop.window?.open ?? stop.arrival
+    const ordered =
+      stop.arrival >= previousDeparture - TOLERANCE &&
+      stop.serviceStart >= stop.arrival - TOLERANCE &&
+      stop.departure >= stop.serviceStart - TOLERANCE &&
+      (stop.serviceStart <= stop.arrival + TOLERANCE ||
+        Math.abs(stop.serviceStart - opens) <= TOLERANCE)
+    if (!ordered) {
+      diagnostics.push(
+        createDiagnostic('stop-times-inconsistent', {
+          ...tripDetails(trip),
+          values: tripValues(trip),
+          labels: { location: stop.code },
+        }),
+      )
+    }
+    travel += stop.arrival - previousDeparture
+    waiting += stop.serviceStart - stop.arrival
+    handling += stop.departure - stop.serviceStart
+  })
+
+  const lastDeparture = stops[stops.length - 1].departure
+  const { timing } = trip
+  const mismatched =
+    Math.abs(lastDeparture - endTime) > TOLERANCE ||
+    Math.abs(travel - timing.travel) > TOLERANCE ||
+    Math.abs(waiting - timing.waiting) > TOLERANCE ||
+    Math.abs(handling - (timing.loading + timing.unloading)) > TOLERANCE ||
+    Math.abs(
+      timing.travel +
+        timing.waiting +
+        timing.loading +
+        timing.unloading -
+        timing.total,
+    ) > TOLERANCE ||
+    Math.abs(endTime - startTime - timing.total) > TOLERANCE
+  if (mismatched) {
+    diagnostics.push(
+      createDiagnostic('trip-timing-mismatch', {
+        ...tripDetails(trip),
+        values: {
+          ...tripValues(trip),
+          scheduled: endTime - startTime,
+          total: timing.total,
+        },
+      }),
+    )
+  }
+
+  const legDistance = trip.legs.reduce((total, leg) => total + leg.distance, 0)
+  const { distances } = trip
+  if (
+    Math.abs(distances.loaded + distances.empty - distances.total) >
+      TOLERANCE ||
+    (trip.legs.length > 0 &&
+      Math.abs(legDistance - distances.total) > TOLERANCE)
+  ) {
+    diagnostics.push(
+      createDiagnostic('trip-distance-mismatch', {
+        ...tripDetails(trip),
+        values: {
+          ...tripValues(trip),
+          legs: legDistance,
+          total: distances.total,
+        },
+      }),
+    )
+  }
+
+  return diagnostics
+}
+
+function checkTripShift(
+  trip: TripPlan,
+  params: PlannerParameters,
+): Diagnostic[] {
+  const { day, startTime, endTime } = trip.schedule
+  const dayStart = day * HOURS_IN_DAY
+  const shiftEnd = dayStart + params.workdayLength
+  const withinHorizon =
+    Number.isInteger(day) && day >= 0 && day < params.planningDays
+  if (
+    withinHorizon &&
+    startTime >= dayStart - TOLERANCE &&
+    endTime <= shiftEnd + TOLERANCE
+  ) {
+    return []
+  }
+  return [
+    createDiagnostic('shift-limit-exceeded', {
+      ...tripDetails(trip),
+      values: {
+        ...tripValues(trip),
+        day,
+        start: startTime - dayStart,
+        end: endTime - dayStart,
+        workdayLength: params.workdayLength,
+      },
+    }),
+  ]
+}
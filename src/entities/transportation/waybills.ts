@@ -0,0 +1,97 @@
+import type { PlanResult, StopKind, TripPlan, VehicleSchedule } from './types'
+import { HOURS_IN_DAY } from './utils'
+
+export interface WaybillStop {
+  kind: StopKind
+  code: string
+  // Hours since the start of the trip's day.
+  arrival: number
+  departure: number
+  // Tonnes loaded or unloaded at the stop.
+  handled: number
+  // Tonnes on board when the vehicle leaves the stop.
+  onboard: number
+  // Length of the leg that ends at this stop; zero for the first stop.
+  distance: number
+}
+
+export interface WaybillTrip {
+  tripId: string
+  tripNumber: number
+  requestLabel: string
+  day: number
+  start: number
+  end: number
+  load: number
+  distance: number
+  stops: WaybillStop[]
+}
+
+export interface VehicleWaybill {
+  vehicleId: number
+  vehicleTypeName: string
+  capacity: number
+  depotName: string
+  depotCode: string
+  trips: WaybillTrip[]
+  totalDistance: number
+  totalTime: number
+}
+
+/**
+ * Itinerary of every vehicle in the order the driver runs it. Times are
+ * given within the day of each trip, as they are printed on a waybill.
+ */
+export function buildWaybills(plan: PlanResult): VehicleWaybill[] {
+  return [...plan.vehicles]
+    .sort((a, b) => a.vehicleId - b.vehicleId)
+    .map(buildVehicleWaybill)
+}
+
+function buildVehicleWaybill(vehicle: VehicleSchedule): VehicleWaybill {
+  return {
+    vehicleId: vehicle.vehicleId,
+    vehicleTypeName: vehicle.vehicleType.name,
+    capacity: vehicle.vehicleType.capacity,
+    depotName: vehicle.homeDepot.name,
+    depotCode: vehicle.homeDepot.code,
+    trips: [...vehicle.trips]
+      .sort((a, b) => a.schedule.startTime - b.schedule.startTime)
+      .map(buildWaybillTrip),
+    totalDistance: vehicle.totalDistance,
+    totalTime: vehicle.totalTime,
+  }
+}
+
+function buildWaybillTrip(trip: TripPlan): WaybillTrip {
+  const { day, startTime, endTime, stops } = trip.schedule
+  const dayStart = day * HOURS_IN_DAY
+  let onboard = 0
+
+  return {
+    tripId: trip.id,
+    tripNumber: trip.tripNumber,
+    requestLabel: trip.requestLabel,
+    day,
+    start: startTime - dayStart,
+    end: endTime - dayStart,
+    load: trip.load,
+    distance: trip.distances.total,
+    stops: stops.map((stop, index) => {
+      if (stop.kind === 'shipper') {
+        onboard += stop.load
+      } else if (stop.kind === 'receiver') {
+        onboard = Math.max(onboard - stop.load, 0)
+      }
+      return {
+        kind: stop.kind,
+        code: stop.code,
+        arrival: stop.arrival - dayStart,
+        departure: stop.departure - dayStart,
+        handled: stop.kind === 'depot' ? 0 : stop.load,
+        onboard,
+        distance: index > 0 ? (trip.legs[index - 1]?.distance ?? 0) : 0,
+      }
+    }),
+  }
+}
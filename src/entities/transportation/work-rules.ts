@@ -0,0 +1,122 @@
+import { createDiagnostic } from './diagnostics'
+import type {
+  Diagnostic,
+  DriverBreak,
+  Locale,
+  TripPlan,
+  WorkRules,
+} from './types'
+
+export const defaultWorkRules: WorkRules = {
+  drivingBeforeBreak: 4.5,
+  breakDuration: 0.75,
+  maxDrivingTime: 9,
+  maxWorkingTime: 12,
+}
+
+const workRuleMessages = {
+  ru: {
+    positive: 'Нормы режима труда и отдыха должны быть положительными числами.',
+    continuous:
+      'Непрерывное управление не может превышать суточную норму управления.',
+    driving:
+      'Суточная норма управления не может превышать продолжительность рабочего времени.',
+  },
+  en: {
+    positive: 'Driving and rest limits must be positive numbers.',
+    continuous: 'Continuous driving cannot exceed the daily driving limit.',
+    driving: 'The daily driving limit cannot exceed the working time limit.',
+  },
+}
+
+export function validateWorkRules(
+  rules: WorkRules,
+  locale: Locale = 'ru',
+): string | null {
+  const messages = workRuleMessages[locale]
+  const values = [
+    rules.drivingBeforeBreak,
+    rules.breakDuration,
+    rules.maxDrivingTime,
+    rules.maxWorkingTime,
+  ]
+  if (values.some((value) => !Number.isFinite(value) || value <= 0)) {
+    return messages.positive
+  }
+  if (rules.drivingBeforeBreak > rules.maxDrivingTime) {
+    return messages.continuous
+  }
+  if (rules.maxDrivingTime > rules.maxWorkingTime) {
+    return messages.driving
+  }
+  return null
+}
+
+/**
+ * Replays a vehicle's day and reports every rule the driver breaks.
+ * Planned breaks and idle gaps of at least the break duration reset the
+ * continuous driving counter; waiting and handling count as working time.
+ */
+export function checkWorkRules(
+  trips: TripPlan[],
+  breaks: DriverBreak[],
+  rules: WorkRules,
+): Diagnostic[] {
+  const violations: Diagnostic[] = []
+  const sortedTrips = [...trips].sort(
+    (a, b) => a.schedule.startTime - b.schedule.startTime,
+  )
+  let drivingSinceBreak = 0
+  let drivingTime = 0
+  let workingTime = 0
+  let previousEnd = 0
+
+  for (const trip of sortedTrips) {
+    const rested =
+      breaks.some(
+        (pause) =>
+          pause.start >= previousEnd - 1e-6 &&
+          pause.end <= trip.schedule.startTime + 1e-6,
+      ) || trip.schedule.startTime - previousEnd >= rules.breakDuration - 1e-6
+    if (rested) {
+      drivingSinceBreak = 0
+    }
+
+    drivingSinceBreak += trip.timing.travel
+    drivingTime += trip.timing.travel
+    workingTime += trip.timing.total
+    previousEnd = trip.schedule.endTime
+
+    if (drivingSinceBreak > rules.drivingBeforeBreak + 1e-6) {
+      violations.push(
+        createDiagnostic('continuous-driving-exceeded', {
+          requestId: trip.requestId,
+          tripId: trip.id,
+          values: {
+            tripNumber: trip.tripNumber,
+            driving: drivingSinceBreak,
+            limit: rules.drivingBeforeBreak,
+          },
+          labels: { trip: trip.requestLabel },
+        }),
+      )
+    }
+  }
+
+  if (drivingTime > rules.maxDrivingTime + 1e-6) {
+    violations.push(
+      createDiagnostic('driving-time-exceeded', {
+        values: { driving: drivingTime, limit: rules.maxDrivingTime },
+      }),
+    )
+  }
+  if (workingTime > rules.maxWorkingTime + 1e-6) {
+    violations.push(
+      createDiagnostic('working-time-exceeded', {
+        values: { working: workingTime, limit: rules.maxWorkingTime },
+      }),
+    )
+  }
+
+  return violations
+}
@@ -0,0 +1,231 @@
+export type SpreadsheetCell = string | number
+
+export interface SpreadsheetSheet {
+  name: string
+  rows: SpreadsheetCell[][]
+  // Rows printed in bold, such as table headers.
+  headerRows?: number[]
+}
+
+const MAX_SHEET_NAME = 31
+const MAX_COLUMN_WIDTH = 60
+
+/**
+ * Writes an Office Open XML workbook: the sheets are stored uncompressed in a
+ * ZIP container, which every spreadsheet application accepts.
+ */
+export function createXlsxWorkbook(
+  sheets: SpreadsheetSheet[],
+): Uint8Array<ArrayBuffer> {
+  const names = uniqueSheetNames(sheets.map((sheet) => sheet.name))
+  const files: Array<{ path: string; content: string }> = [
+    { path: '[Content_Types].xml', content: contentTypes(sheets.length) },
+    { path: '_rels/.rels', content: ROOT_RELATIONSHIPS },
+    { path: 'xl/workbook.xml', content: workbook(names) },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: workbookRelationships(sheets.length),
+    },
+    { path: 'xl/styles.xml', content: STYLES },
+    ...sheets.map((sheet, index) => ({
+      path: `xl/worksheets/sheet${index + 1}.xml`,
+      content: worksheet(sheet),
+    })),
+  ]
+  const encoder = new TextEncoder()
+  return createZip(
+    files.map((file) => ({
+      path: file.path,
+      data: encoder.encode(file.content),
+    })),
+  )
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+
+const ROOT_RELATIONSHIPS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+// Style 0 is the default, style 1 is bold.
+const STYLES = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`
+
+function contentTypes(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+  ).join('')
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets}</Types>`
+}
+
+function workbook(names: string[]): string {
+  const sheets = names
+    .map(
+      (name, index) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`,
+    )
+    .join('')
+  return `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets}</sheets></workbook>`
+}
+
+function workbookRelationships(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+  ).join('')
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets}<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+}
+
+function worksheet(sheet: SpreadsheetSheet): string {
+  const bold = new Set(sheet.headerRows ?? [])
+  const widths: number[] = []
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const reference = rowIndex + 1
+      const cells = row
+        .map((value, columnIndex) => {
+          widths[columnIndex] = Math.max(
+            widths[columnIndex] ?? 0,
+            String(value).length,
+          )
+          const address = `${columnName(columnIndex)}${reference}`
+          const style = bold.has(rowIndex) ? ' s="1"' : ''
+          return typeof value === 'number' && Number.isFinite(value)
+            ? `<c r="${address}"${style}><v>${value}</v></c>`
+            : `<c r="${address}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+        })
+        .join('')
+      return `<row r="${reference}">${cells}</row>`
+    })
+    .join('')
+  const columns =
+    widths.length > 0
+      ? `<cols>${widths
+          .map(
+            (width, index) =>
+              `<col min="${index + 1}" max="${index + 1}" width="${Math.min(width + 2, MAX_COLUMN_WIDTH)}" customWidth="1"/>`,
+          )
+          .join('')}</cols>`
+      : ''
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${columns}<sheetData>${rows}</sheetData></worksheet>`
+}
+
+function columnName(index: number): string {
+  let name = ''
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name
+  }
+  return name
+}
+
+// Sheet names are limited to 31 characters, may not contain []:*?/\ and
+// must differ from each other.
+function uniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>()
+  return names.map((name, index) => {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').trim() || `Sheet${index + 1}`
+    let candidate = base.slice(0, MAX_SHEET_NAME)
+    for (let suffix = 2; used.has(candidate.toLowerCase()); suffix += 1) {
+      const tail = ` (${suffix})`
+      candidate = `${base.slice(0, MAX_SHEET_NAME - tail.length)}${tail}`
+    }
+    used.add(candidate.toLowerCase())
+    return candidate
+  })
+}
+
+function escapeXml(value: string): string {
+  return (
+    value
+      // Control characters are not allowed in XML 1.0.
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: stripped on purpose
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  )
+}
+
+interface ZipEntry {
+  path: string
+  data: Uint8Array
+}
+
+// 1980-01-01, the earliest date a ZIP entry can carry.
+const ZIP_DOS_DATE = 0x21
+
+function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const checksum = crc32(entry.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(12, ZIP_DOS_DATE, true)
+    local.setUint32(14, checksum, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    chunks.push(new Uint8Array(local.buffer), name, entry.data)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(14, ZIP_DOS_DATE, true)
+    central.setUint32(16, checksum, true)
+    central.setUint32(20, entry.data.length, true)
+    central.setUint32(24, entry.data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    directory.push(new Uint8Array(central.buffer), name)
+
+    offset += 30 + name.length + entry.data.length
+  }
+
+  const directorySize = directory.reduce((acc, part) => acc + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...chunks, ...directory, new Uint8Array(end.buffer)]
+  const result = new Uint8Array(
+    parts.reduce((acc, part) => acc + part.length, 0),
+  )
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let index = 0; index < 256; index += 1) {
+      let value = index
+      for (let bit = 0; bit < 8; bit += 1) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+      }
+      crcTable[index] = value >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
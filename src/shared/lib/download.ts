@@ -0,0 +1,13 @@
+export function downloadFile(
+  content: BlobPart,
+  fileName: string,
+  type: string,
+) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,44 @@
+/**
+ * Draws an SVG document onto a white canvas and encodes it as PNG. `scale`
+ * multiplies the pixel size so that text stays sharp on printouts.
+ */
+export function rasterizeSvg(
+  svg: string,
+  width: number,
+  height: number,
+  scale = 2,
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(
+      new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }),
+    )
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.ceil(width * scale)
+      canvas.height = Math.ceil(height * scale)
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas 2D context is not available'))
+        return
+      }
+      context.fillStyle = '#ffffff'
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0, width, height)
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new Error('PNG encoding failed'))
+        }
+      }, 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('SVG image could not be loaded'))
+    }
+    image.src = url
+  })
+}
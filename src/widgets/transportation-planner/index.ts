@@ -1 +1,2 @@
 export { TransportationPlanner } from './ui/transportation-planner'
+export { WaybillReport } from './ui/waybill-report'
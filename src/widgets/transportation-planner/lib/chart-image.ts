@@ -0,0 +1,98 @@
+import { downloadFile } from '@shared/lib/download'
+import { rasterizeSvg } from '@shared/lib/rasterize-svg'
+
+export type ImageFormat = 'svg' | 'png'
+
+// Self-contained SVG document and its size in CSS pixels.
+export interface ChartImage {
+  svg: string
+  width: number
+  height: number
+}
+
+export interface ImageLegendItem {
+  label: string
+  color: string
+  swatch: 'box' | 'line' | 'dashed'
+}
+
+export const IMAGE_FONT = 'Roboto, Arial, sans-serif'
+
+const LEGEND_ROW_HEIGHT = 20
+const LEGEND_SWATCH_WIDTH = 22
+// Rough glyph width of 12px text, enough to lay legend items out in rows.
+const LEGEND_CHAR_WIDTH = 6.6
+
+export function escapeSvgText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Legend rows for a chart image: a title followed by the items, wrapped to
+ * `width`. Returns the markup and the height it takes.
+ */
+export function renderImageLegend(
+  title: string,
+  items: ImageLegendItem[],
+  x: number,
+  y: number,
+  width: number,
+): { markup: string; height: number } {
+  const parts: string[] = []
+  let cursorX = x
+  let cursorY = y + LEGEND_ROW_HEIGHT / 2
+
+  const place = (itemWidth: number) => {
+    if (cursorX > x && cursorX + itemWidth > x + width) {
+      cursorX = x
+      cursorY += LEGEND_ROW_HEIGHT
+    }
+    const position = { x: cursorX, y: cursorY }
+    cursorX += itemWidth + 16
+    return position
+  }
+
+  const titleWidth = title.length * LEGEND_CHAR_WIDTH
+  const titlePosition = place(titleWidth)
+  parts.push(
+    `<text x="${titlePosition.x}" y="${titlePosition.y + 4}" font-size="12" font-weight="600" fill="#111827">${escapeSvgText(title)}</text>`,
+  )
+
+  for (const item of items) {
+    const itemWidth =
+      LEGEND_SWATCH_WIDTH + 6 + item.label.length * LEGEND_CHAR_WIDTH
+    const position = place(itemWidth)
+    const swatch =
+      item.swatch === 'box'
+        ? `<rect x="${position.x}" y="${position.y - 6}" width="12" height="12" rx="2" fill="${item.color}"/>`
+        : `<line x1="${position.x}" y1="${position.y}" x2="${position.x + LEGEND_SWATCH_WIDTH}" y2="${position.y}" stroke="${item.color}" stroke-width="${item.swatch === 'line' ? 3 : 2}"${item.swatch === 'dashed' ? ' stroke-dasharray="6 4"' : ''}/>`
+    const textX =
+      position.x + (item.swatch === 'box' ? 18 : LEGEND_SWATCH_WIDTH + 6)
+    parts.push(
+      swatch,
+      `<text x="${textX}" y="${position.y + 4}" font-size="12" fill="#374151">${escapeSvgText(item.label)}</text>`,
+    )
+  }
+
+  return {
+    markup: `<g font-family="${IMAGE_FONT}">${parts.join('')}</g>`,
+    height: cursorY - y + LEGEND_ROW_HEIGHT / 2,
+  }
+}
+
+export async function downloadChartImage(
+  image: ChartImage,
+  fileName: string,
+  format: ImageFormat,
+): Promise<void> {
+  if (format === 'svg') {
+    downloadFile(image.svg, `${fileName}.svg`, 'image/svg+xml;charset=utf-8;')
+    return
+  }
+  const png = await rasterizeSvg(image.svg, image.width, image.height)
+  downloadFile(png, `${fileName}.png`, 'image/png')
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import type { Locale } from '@entities'
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+import { en, type MessageKey, ru } from './messages'
+
+export type { MessageKey } from './messages'
+
+export type MessageParams = Record<string, string | number>
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string
+
+interface I18nContextValue {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: Translate
+}
+
+const LOCALE_STORAGE_KEY = 'light-track/locale'
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { ru, en }
+
+export const localeNames: Record<Locale, string> = {
+  ru: 'Русский',
+  en: 'English',
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in catalogs
+}
+
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+): string {
+  return catalogs[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  )
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: 'ru',
+  setLocale: () => {},
+  t: (key, params) => translate('ru', key, params),
+})
+
+interface I18nProviderProps {
+  children: ReactNode
+}
+
+/**
+ * Holds the interface language of the planner. The choice is kept in local
+ * storage; the first render always uses Russian so that server and client
+ * markup match.
+ */
+export function I18nProvider({ children }: I18nProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>('ru')
+
+  useEffect(() => {
+    try {
+      const saved = window.localStorage.getItem(LOCALE_STORAGE_KEY)
+      if (isLocale(saved)) {
+        setLocaleState(saved)
+      }
+    } catch {
+      // Storage may be blocked; the default locale stays in place.
+    }
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    try {
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, next)
+    } catch {
+      // The choice still applies to the current session.
+    }
+  }, [])
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+    }),
+    [locale, setLocale],
+  )
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext)
+}
@@ -0,0 +1,759 @@
+// Keys are grouped by the view that renders them. Placeholders in braces are
+// filled in by `translate`; numbers are formatted by the caller.
+export const ru = {
+  'common.remove': 'Удалить',
+  'common.hours': '{value} ч',
+  'common.tonnes': '{value} т',
+  'common.locale': 'Язык',
+
+  'planner.title': 'Оперативное планирование перевозок',
+  'planner.subtitle':
+    'Введите заявки клиентов, настройте параметры перевозок и выполните расчёт.',
+  'planner.storageUnavailable':
+    'Хранилище браузера недоступно: автосохранение отключено.',
+  'planner.autosaveFailed': 'Не удалось автоматически сохранить сценарий.',
+  'planner.historyDeleteFailed': 'Не удалось удалить запись истории.',
+  'planner.historySaveFailed': 'Не удалось сохранить план в историю.',
+  'planner.noRequests': 'Необходимо добавить хотя бы одну корректную заявку.',
+  'planner.negativeCosts':
+    'Стоимостные параметры не могут быть отрицательными.',
+  'planner.invalidDepot':
+    'Проверьте расположение АТП «{name}»: код {code} не найден на сетке.',
+  'planner.noDepots': 'Необходимо задать хотя бы одно АТП.',
+  'planner.invalidPlanningDays':
+    'Горизонт планирования должен быть целым числом дней от 1 до {max}.',
+  'planner.multiDayShift':
+    'При планировании на несколько дней смена не может быть длиннее {hours} ч.',
+  'planner.negativeRadius': 'Радиус консолидации не может быть отрицательным.',
+  'planner.invalidFleet':
+    'Проверьте параметры перевозки: в автопарке должен быть хотя бы один автомобиль, грузоподъёмность, скорость и размер клетки должны быть больше нуля.',
+  'planner.calculate': 'Рассчитать план',
+  'planner.lockedTrips':
+    'Закреплено рейсов: {count}. При пересчёте они останутся на своих местах.',
+  'planner.unlockTrips': 'Снять закрепление',
+  'planner.waybills': 'Путевые листы',
+
+  'requests.title': 'Заявки на перевозку',
+  'requests.add': 'Добавить заявку',
+  'requests.shipper': 'Грузоотправитель',
+  'requests.receiver': 'Грузополучатель',
+  'requests.volume': 'Объём, т',
+  'requests.rate': 'Тариф, ₽/т',
+  'requests.shipperWindow': 'Окно отправителя, ч',
+  'requests.receiverWindow': 'Окно получателя, ч',
+  'requests.priority': 'Приоритет',
+  'requests.deadline': 'Срок, ч',
+  'requests.shipperPlaceholder': 'Например, A2',
+  'requests.receiverPlaceholder': 'Например, C5',
+  'requests.windowOpen': 'Открытие, ч',
+  'requests.windowClose': 'Закрытие, ч',
+
+  'parameters.title': 'Параметры расчёта',
+  'parameters.cellSize': 'Размер клетки, км',
+  'parameters.workdayLength': 'Длительность смены, ч',
+  'parameters.planningDays': 'Горизонт планирования, дней',
+  'parameters.distanceMode': 'Метод расчёта расстояний',
+  'parameters.distanceMode.manhattan': 'Изолированный (манхэттенский)',
+  'parameters.distanceMode.euclidean': 'Топографический (евклидов)',
+  'parameters.distanceMode.network': 'Дорожная сеть (кратчайший путь)',
+  'parameters.routingMode': 'Схема маршрутов',
+  'parameters.routingMode.pendulum': 'Маятниковые рейсы с возвратом в АТП',
+  'parameters.routingMode.chained': 'Кольцевые маршруты (сцепка рейсов)',
+  'parameters.optimizationMode': 'Распределение рейсов',
+  'parameters.optimizationMode.greedy': 'В порядке заявок (жадное)',
+  'parameters.optimizationMode.fleet': 'Минимизация числа автомобилей',
+  'parameters.consolidation': 'Консолидация неполных загрузок',
+  'parameters.consolidation.none': 'Без консолидации',
+  'parameters.consolidation.shipper': 'Остатки одного отправителя',
+  'parameters.consolidation.nearby':
+    'Остатки одного отправителя для близких получателей',
+  'parameters.consolidationRadius': 'Радиус между получателями, км',
+  'parameters.costs': 'Экономика перевозок',
+  'parameters.fuelCost': 'Топливо, ₽/км',
+  'parameters.driverCost': 'Оплата водителя, ₽/ч',
+  'parameters.vehicleDailyCost': 'Постоянные затраты, ₽/сутки на авто',
+  'parameters.revenuePerTonne': 'Тариф по умолчанию, ₽/т',
+  'parameters.workRules': 'Режим труда и отдыха',
+  'parameters.drivingBeforeBreak': 'Непрерывное управление, ч',
+  'parameters.breakDuration': 'Перерыв, ч',
+  'parameters.maxDrivingTime': 'Управление за смену, ч',
+  'parameters.maxWorkingTime': 'Рабочее время за смену, ч',
+
+  'visualizations.title': 'Визуализации',
+  'visualizations.hint':
+    'Переключайтесь между схемой маршрутов и диаграммой Ганта.',
+  'visualizations.gantt': 'Диаграмма Ганта',
+  'visualizations.map': 'Схема маршрутов',
+
+  'optimization.title': 'Результат оптимизации',
+  'optimization.vehicles': 'Автомобилей: {from} → {to}',
+  'optimization.savedVehicles': ' (−{count})',
+  'optimization.totalTime': 'суммарное время: {from} → {to} ч',
+  'optimization.savedTime': ' (−{hours} ч)',
+  'optimization.alreadyOptimal':
+    'Жадное распределение уже оптимально: улучшить план не удалось.',
+  'optimization.evaluations': 'Проверено вариантов порядка заявок: {count}',
+
+  'summary.trips': 'Рейсов выполнено',
+  'summary.trips.description': 'Общее количество рейсов по всем заявкам',
+  'summary.volume': 'Перевезено, тонн',
+  'summary.volume.description': 'Совокупный объём перевозок',
+  'summary.distance': 'Общий пробег, км',
+  'summary.distance.description':
+    'Пробег за сутки, из них без груза {empty} км',
+  'summary.distance.descriptionDays':
+    'Пробег за {days} сут., из них без груза {empty} км',
+  'summary.utilization': 'Коэффициент пробега',
+  'summary.utilization.description': 'Отношение пробега с грузом к общему',
+  'summary.completion': 'Максимальное время, ч',
+  'summary.completion.description': 'Завершение последнего рейса',
+  'summary.completion.descriptionDays':
+    'Завершение последнего рейса, день {day}',
+  'summary.vehicles': 'Автомобилей задействовано',
+  'summary.vehicles.description': 'Минимальное число машин в работе',
+  'summary.costs': 'Затраты, ₽',
+  'summary.costs.description':
+    'Топливо {fuel} ₽, водители {driver} ₽, постоянные {fixed} ₽',
+  'summary.revenue': 'Выручка, ₽',
+  'summary.revenue.description': 'Тариф за тонну по всем перевезённым грузам',
+  'summary.margin': 'Маржа, ₽',
+  'summary.margin.description': 'Рентабельность {percent}% к выручке',
+  'summary.margin.noRevenue': 'Выручка по плану отсутствует',
+
+  'trips.title': 'Детализация рейсов',
+  'trips.vehicle': 'Автомобиль',
+  'trips.trip': 'Рейс',
+  'trips.route': 'Маршрут',
+  'trips.load': 'Тоннаж, т',
+  'trips.distance': 'Пробег, км',
+  'trips.time': 'Время, ч',
+  'trips.start': 'Начало',
+  'trips.end': 'Окончание',
+  'trips.margin': 'Маржа, ₽',
+  'trips.notes': 'Примечания',
+  'trips.waiting': 'ожидание {hours} ч',
+  'trips.day': 'день {day}',
+
+  'vehicles.title': 'Загрузка автопарка',
+  'vehicles.vehicle': 'Автомобиль',
+  'vehicles.type': 'Тип',
+  'vehicles.capacity': 'Грузоподъёмность, т',
+  'vehicles.trips': 'Рейсов',
+  'vehicles.distance': 'Пробег, км',
+  'vehicles.time': 'Время, ч',
+  'vehicles.driving': 'Управление, ч',
+  'vehicles.breaks': 'Перерывов',
+  'vehicles.cost': 'Затраты, ₽',
+  'vehicles.margin': 'Маржа, ₽',
+  'vehicles.violations': 'Нарушения РТО',
+
+  'infeasibility.title': 'Сроки выполнения заявок',
+  'infeasibility.allOnTime':
+    'Все заявки выполняются в срок и в пределах окон времени.',
+  'infeasibility.count': 'Заявки, которые не выполняются в срок: {count}',
+  'infeasibility.request': 'Заявка',
+  'infeasibility.priority': 'Приоритет',
+  'infeasibility.deadline': 'Срок, ч',
+  'infeasibility.completion': 'Доставка, ч',
+  'infeasibility.delay': 'Опоздание, ч',
+  'infeasibility.reasons': 'Нарушено',
+
+  'validation.title': 'Проверка плана',
+  'validation.passed':
+    'План согласован с заявками: грузоподъёмность, объёмы, расписание и смены соблюдены.',
+  'validation.count': 'Нарушения в плане: {count}',
+
+  'depots.title': 'Автотранспортные предприятия',
+  'depots.add': 'Добавить АТП',
+  'depots.name': 'Название',
+  'depots.location': 'Расположение',
+  'depots.placeholder': 'Например, D5',
+  'depots.defaultName': 'АТП-{index}',
+
+  'fleet.title': 'Автопарк',
+  'fleet.add': 'Добавить тип автомобиля',
+  'fleet.type': 'Тип автомобиля',
+  'fleet.depot': 'База',
+  'fleet.count': 'Количество, шт',
+  'fleet.capacity': 'Грузоподъёмность, т',
+  'fleet.speed': 'Скорость, км/ч',
+  'fleet.loadUnloadRate': 'Погрузка/выгрузка, ч/т',
+  'fleet.nearestDepot': 'Ближайшее АТП',
+  'fleet.defaultName': 'Новый тип',
+
+  'grid.columns': 'Столбцов сетки',
+  'grid.rows': 'Строк сетки',
+  'grid.columnLabels': 'Подписи столбцов',
+  'grid.columnLabelsPlaceholder': 'Автоматически: A, B, …, Z, AA, AB',
+  'grid.preview': 'Столбцы: {columns}; строки: 1–{rows}',
+
+  'network.title': 'Дорожная сеть',
+  'network.blockedCells': 'Непроезжие клетки (реки, закрытые улицы)',
+  'network.blockedCellsPlaceholder': 'Например, C3, C4',
+  'network.slowEdges': 'Участки с замедлением (коэффициент к времени проезда)',
+  'network.addEdge': 'Добавить участок',
+  'network.from': 'Из клетки',
+  'network.to': 'В соседнюю клетку',
+  'network.weight': 'Коэффициент',
+
+  'history.title': 'История расчётов',
+  'history.empty':
+    'Рассчитанные планы сохраняются в браузере и появятся здесь.',
+  'history.savedAt': 'Дата расчёта',
+  'history.requests': 'Заявок',
+  'history.vehicles': 'Автомобилей',
+  'history.distance': 'Пробег, км',
+  'history.restore': 'Восстановить',
+
+  'scenario.save': 'Сохранить сценарий',
+  'scenario.open': 'Открыть сценарий',
+  'scenario.includePlan': 'Сохранять рассчитанный план',
+
+  'import.hint':
+    'Импорт заявок из CSV (разделитель «;» или «,», кодировка UTF-8)',
+  'import.file': 'Файл «{name}»: строк {rows}',
+  'import.chooseFile': 'Выбрать файл',
+  'import.column': 'Столбец {index}',
+  'import.emptyFile': 'Файл не содержит строк с заявками.',
+  'import.readFailed':
+    'Не удалось прочитать файл. Сохраните его как CSV в UTF-8.',
+  'import.ready': 'Готово к импорту: {valid} из {total}.',
+  'import.skipInvalid': ' Строки с ошибками будут пропущены.',
+  'import.line': 'Строка',
+  'import.route': 'Маршрут',
+  'import.volume': 'Объём, т',
+  'import.windows': 'Окна, ч',
+  'import.check': 'Проверка',
+  'import.replace': 'Заменить заявки',
+  'import.append': 'Добавить к заявкам',
+  'import.cancel': 'Отмена',
+
+  'export.title': 'Экспорт плана',
+  'export.hint':
+    'Таблицы для отчётов, полная копия плана в JSON и календарь смены для водителей.',
+  'export.csv': 'CSV',
+  'export.xlsx': 'Excel (XLSX)',
+  'export.json': 'JSON',
+  'export.calendar': 'Календарь смены (iCalendar)',
+  'export.shiftStart': 'Начало первой смены',
+  'export.vehicleCalendar': 'Автомобиль #{id} (.ics)',
+
+  'waybill.title': 'Путевые листы',
+  'waybill.back': 'К планированию',
+  'waybill.print': 'Печать',
+  'waybill.download': 'Скачать файл',
+  'waybill.loading': 'Загрузка плана…',
+  'waybill.empty':
+    'План не рассчитан. Выполните расчёт на странице планирования, чтобы подготовить путевые листы.',
+  'waybill.loadFailed':
+    'Не удалось прочитать сохранённый план из хранилища браузера.',
+  'waybill.generated': 'Сформировано: {date}',
+  'waybill.cover': 'Сводка по плану',
+  'waybill.loadedDistance': 'Пробег с грузом, км',
+  'waybill.emptyDistance': 'Порожний пробег, км',
+  'waybill.days': 'Дней в плане',
+  'waybill.vehicle': 'Путевой лист: автомобиль #{id}',
+  'waybill.vehicleDetails':
+    '{name}, грузоподъёмность {capacity} т, АТП {depot} ({code})',
+  'waybill.vehicleTotals':
+    'Рейсов: {trips}, пробег {distance} км, время в работе {time} ч',
+  'waybill.trip': 'Рейс #{number}: {request}',
+  'waybill.tripDetails':
+    'День {day}, {start}–{end} ч, груз {load} т, пробег {distance} км',
+  'waybill.column.point': 'Пункт',
+  'waybill.column.operation': 'Операция',
+  'waybill.column.arrival': 'Прибытие, ч',
+  'waybill.column.departure': 'Отправление, ч',
+  'waybill.column.handled': 'Груз, т',
+  'waybill.column.onboard': 'В кузове, т',
+  'waybill.column.distance': 'Участок, км',
+  'waybill.operation.depot': 'АТП',
+  'waybill.operation.shipper': 'Погрузка',
+  'waybill.operation.receiver': 'Выгрузка',
+  'waybill.noTrips': 'Рейсов нет',
+  'waybill.driver': 'Водитель',
+  'waybill.dispatcher': 'Диспетчер',
+
+  'image.svg': 'SVG',
+  'image.svgHint': 'Скачать векторное изображение с легендой',
+  'image.png': 'PNG',
+  'image.pngHint': 'Скачать растровое изображение с легендой',
+  'image.failed': 'Не удалось сохранить изображение',
+  'map.title': 'Схема маршрутов',
+  'map.description': 'Маршруты автомобилей на сетке района',
+  'map.blockedCell': '{code}: непроезжая клетка',
+  'map.slowEdge': '{from}–{to}: коэффициент {weight}',
+  'map.vehicleFilter': 'Показать',
+  'map.allVehicles': 'Все автомобили',
+  'map.legLegend': 'Участки маршрута:',
+  'map.loadedLeg': 'С грузом',
+  'map.emptyLeg': 'Порожний пробег',
+  'map.legDistance': '{value} км',
+
+  'playback.play': 'Воспроизвести день',
+  'playback.pause': 'Пауза',
+  'playback.time': 'Время воспроизведения',
+  'playback.speed': 'Скорость',
+  'playback.speedOption': '{value} ч/с',
+  'playback.legend': 'Состояние автомобиля:',
+  'playback.vehicleTitle': 'Автомобиль #{id}: {activity}, груз {load} т',
+  'playback.activity.idle': 'Стоянка',
+  'playback.activity.empty-run': 'Порожний пробег',
+  'playback.activity.waiting': 'Ожидание окна',
+  'playback.activity.loading': 'Погрузка',
+  'playback.activity.loaded-run': 'С грузом',
+  'playback.activity.unloading': 'Выгрузка',
+
+  'gantt.phase.approach': 'Путь до отправителя',
+  'gantt.phase.waiting': 'Ожидание открытия',
+  'gantt.phase.loading': 'Погрузка',
+  'gantt.phase.loaded-run': 'Движение с грузом',
+  'gantt.phase.unloading': 'Выгрузка',
+  'gantt.phase.return': 'Возврат в АТП',
+  'gantt.empty':
+    'Добавьте заявки и выполните расчёт, чтобы увидеть диаграмму Ганта.',
+  'gantt.title': 'Диаграмма Ганта',
+  'gantt.horizon': 'Горизонт отображения: {hours} ч',
+  'gantt.horizonDays': ' ({days} дн.)',
+  'gantt.activeVehicles': 'Автомобилей в работе',
+  'gantt.averageLoad': 'Средняя загрузка',
+  'gantt.averageLoad.hint':
+    'Доля времени, в течение которого автомобили задействованы в рейсах',
+  'gantt.balance': 'Баланс занятости',
+  'gantt.balance.hint': 'Общее время занятости и простоя по автопарку',
+  'gantt.fleet': 'Автопарк',
+  'gantt.requestLegend': 'Легенда заявок:',
+  'gantt.phaseLegend': 'Этапы рейса:',
+  'gantt.driverBreak': 'Перерыв водителя',
+  'gantt.vehicle': 'Автомобиль #{id}',
+  'gantt.violations': 'РТО: {count}',
+  'gantt.vehicleDetails': '{name}, {capacity} т, {depot}',
+  'gantt.vehicleTrips': '{count} рейс(а), пробег {distance} км',
+  'gantt.vehicleBusy': 'Занятость {percent}%, простой {idle} ч',
+  'gantt.tripTitle': 'Рейс {number}: {start}–{end} ч',
+  'gantt.trip': 'Рейс #{number}',
+  'gantt.tripTime': '{start} – {end} ч',
+  'gantt.load': 'Т: {value} т',
+  'gantt.distance': 'П: {value} км',
+  'gantt.handling': 'Р: {value} ч',
+  'gantt.travel': 'В пути: {value} ч',
+  'gantt.waiting': 'Ож: {value} ч',
+  'gantt.idle': 'Простой',
+  'gantt.idleTitle': 'Простой: {start} – {end} ч ({duration} ч)',
+  'gantt.break': 'Перерыв',
+  'gantt.breakTitle': 'Перерыв водителя: {start} – {end} ч ({duration} ч)',
+  'gantt.day': 'День {day}',
+  'gantt.timeAxis': 'Время, ч',
+  'gantt.dragHint':
+    'Перетащите рейс на другой автомобиль или время: последующие рейсы сдвинутся, а перемещённый рейс будет закреплён.',
+  'gantt.lock': 'Закрепить рейс',
+  'gantt.unlock': 'Снять закрепление рейса',
+  'gantt.locked': 'Закреплён',
+  'gantt.conflict': 'Конфликт расписания',
+
+  'comparison.title': 'Сравнение сценариев',
+  'comparison.addVariant': 'Добавить вариант',
+  'comparison.compare': 'Сравнить',
+  'comparison.variant': 'Вариант {index}',
+  'comparison.name': 'Название',
+  'comparison.distanceMode': 'Расстояния',
+  'comparison.routingMode': 'Схема маршрутов',
+  'comparison.optimizationMode': 'Распределение',
+  'comparison.fleet': 'Автопарк',
+  'comparison.distanceMode.manhattan': 'Манхэттенский',
+  'comparison.distanceMode.euclidean': 'Евклидов',
+  'comparison.distanceMode.network': 'Дорожная сеть',
+  'comparison.routingMode.pendulum': 'Маятниковые рейсы',
+  'comparison.routingMode.chained': 'Кольцевые маршруты',
+  'comparison.optimizationMode.greedy': 'В порядке заявок',
+  'comparison.optimizationMode.fleet': 'Минимизация числа автомобилей',
+  'comparison.currentFleet': 'Текущий автопарк',
+  'comparison.singleType': 'Только «{name}»',
+  'comparison.note':
+    'Остальные параметры берутся из текущих настроек. Вариант «Только …» заменяет автопарк машинами одного типа в том же общем количестве.',
+  'comparison.noRequests':
+    'Для сравнения необходимо добавить хотя бы одну заявку.',
+  'comparison.noVariants':
+    'Добавьте хотя бы один вариант параметров для сравнения.',
+  'comparison.base': 'Текущие параметры',
+  'comparison.metrics': 'Показатели плана',
+  'comparison.metric': 'Показатель',
+  'comparison.vehicles': 'Автомобили',
+  'comparison.vehicleNumber': '№',
+  'comparison.vehicleStats': '{trips} рейс(а), {distance} км, {hours} ч',
+} as const
+
+export type MessageKey = keyof typeof ru
+
+export const en: Record<MessageKey, string> = {
+  'common.remove': 'Remove',
+  'common.hours': '{value} h',
+  'common.tonnes': '{value} t',
+  'common.locale': 'Language',
+
+  'planner.title': 'Operational transport planning',
+  'planner.subtitle':
+    'Enter customer requests, configure the transport parameters and run the calculation.',
+  'planner.storageUnavailable':
+    'Browser storage is unavailable: auto-save is disabled.',
+  'planner.autosaveFailed': 'Could not auto-save the scenario.',
+  'planner.historyDeleteFailed': 'Could not delete the history entry.',
+  'planner.historySaveFailed': 'Could not save the plan to history.',
+  'planner.noRequests': 'Add at least one valid request.',
+  'planner.negativeCosts': 'Cost parameters cannot be negative.',
+  'planner.invalidDepot':
+    'Check the location of depot "{name}": code {code} is not on the grid.',
+  'planner.noDepots': 'Add at least one depot.',
+  'planner.invalidPlanningDays':
+    'The planning horizon must be a whole number of days from 1 to {max}.',
+  'planner.multiDayShift':
+    'For multi-day planning the shift cannot be longer than {hours} h.',
+  'planner.negativeRadius': 'The consolidation radius cannot be negative.',
+  'planner.invalidFleet':
+    'Check the transport parameters: the fleet needs at least one vehicle, and capacity, speed and cell size must be greater than zero.',
+  'planner.calculate': 'Calculate plan',
+  'planner.waybills': 'Waybills',
+  'planner.lockedTrips':
+    'Locked trips: {count}. They stay in place when the plan is recalculated.',
+  'planner.unlockTrips': 'Unlock all',
+
+  'requests.title': 'Transport requests',
+  'requests.add': 'Add request',
+  'requests.shipper': 'Shipper',
+  'requests.receiver': 'Receiver',
+  'requests.volume': 'Volume, t',
+  'requests.rate': 'Rate, ₽/t',
+  'requests.shipperWindow': 'Shipper window, h',
+  'requests.receiverWindow': 'Receiver window, h',
+  'requests.priority': 'Priority',
+  'requests.deadline': 'Deadline, h',
+  'requests.shipperPlaceholder': 'e.g. A2',
+  'requests.receiverPlaceholder': 'e.g. C5',
+  'requests.windowOpen': 'Opens, h',
+  'requests.windowClose': 'Closes, h',
+
+  'parameters.title': 'Calculation parameters',
+  'parameters.cellSize': 'Cell size, km',
+  'parameters.workdayLength': 'Shift length, h',
+  'parameters.planningDays': 'Planning horizon, days',
+  'parameters.distanceMode': 'Distance method',
+  'parameters.distanceMode.manhattan': 'Rectilinear (Manhattan)',
+  'parameters.distanceMode.euclidean': 'Straight-line (Euclidean)',
+  'parameters.distanceMode.network': 'Road network (shortest path)',
+  'parameters.routingMode': 'Routing scheme',
+  'parameters.routingMode.pendulum': 'Shuttle trips returning to the depot',
+  'parameters.routingMode.chained': 'Round trips (chained runs)',
+  'parameters.optimizationMode': 'Trip assignment',
+  'parameters.optimizationMode.greedy': 'In request order (greedy)',
+  'parameters.optimizationMode.fleet': 'Minimise the number of vehicles',
+  'parameters.consolidation': 'Consolidation of partial loads',
+  'parameters.consolidation.none': 'No consolidation',
+  'parameters.consolidation.shipper': 'Remainders of the same shipper',
+  'parameters.consolidation.nearby':
+    'Remainders of the same shipper for nearby receivers',
+  'parameters.consolidationRadius': 'Radius between receivers, km',
+  'parameters.costs': 'Transport economics',
+  'parameters.fuelCost': 'Fuel, ₽/km',
+  'parameters.driverCost': 'Driver pay, ₽/h',
+  'parameters.vehicleDailyCost': 'Fixed costs, ₽/day per vehicle',
+  'parameters.revenuePerTonne': 'Default rate, ₽/t',
+  'parameters.workRules': 'Working and rest time',
+  'parameters.drivingBeforeBreak': 'Continuous driving, h',
+  'parameters.breakDuration': 'Break, h',
+  'parameters.maxDrivingTime': 'Driving per shift, h',
+  'parameters.maxWorkingTime': 'Working time per shift, h',
+
+  'visualizations.title': 'Visualisations',
+  'visualizations.hint': 'Switch between the route map and the Gantt chart.',
+  'visualizations.gantt': 'Gantt chart',
+  'visualizations.map': 'Route map',
+
+  'optimization.title': 'Optimisation result',
+  'optimization.vehicles': 'Vehicles: {from} → {to}',
+  'optimization.savedVehicles': ' (−{count})',
+  'optimization.totalTime': 'total time: {from} → {to} h',
+  'optimization.savedTime': ' (−{hours} h)',
+  'optimization.alreadyOptimal':
+    'The greedy assignment is already optimal: the plan could not be improved.',
+  'optimization.evaluations': 'Request orders evaluated: {count}',
+
+  'summary.trips': 'Trips completed',
+  'summary.trips.description': 'Total number of trips across all requests',
+  'summary.volume': 'Transported, tonnes',
+  'summary.volume.description': 'Total transported volume',
+  'summary.distance': 'Total distance, km',
+  'summary.distance.description': 'Distance per day, {empty} km of it empty',
+  'summary.distance.descriptionDays':
+    'Distance over {days} days, {empty} km of it empty',
+  'summary.utilization': 'Loaded distance ratio',
+  'summary.utilization.description': 'Loaded distance to total distance',
+  'summary.completion': 'Latest finish, h',
+  'summary.completion.description': 'End of the last trip',
+  'summary.completion.descriptionDays': 'End of the last trip, day {day}',
+  'summary.vehicles': 'Vehicles used',
+  'summary.vehicles.description': 'Minimum number of vehicles at work',
+  'summary.costs': 'Costs, ₽',
+  'summary.costs.description':
+    'Fuel {fuel} ₽, drivers {driver} ₽, fixed {fixed} ₽',
+  'summary.revenue': 'Revenue, ₽',
+  'summary.revenue.description': 'Per-tonne rate for all transported cargo',
+  'summary.margin': 'Margin, ₽',
+  'summary.margin.description': '{percent}% return on revenue',
+  'summary.margin.noRevenue': 'The plan has no revenue',
+
+  'trips.title': 'Trip details',
+  'trips.vehicle': 'Vehicle',
+  'trips.trip': 'Trip',
+  'trips.route': 'Route',
+  'trips.load': 'Load, t',
+  'trips.distance': 'Distance, km',
+  'trips.time': 'Time, h',
+  'trips.start': 'Start',
+  'trips.end': 'End',
+  'trips.margin': 'Margin, ₽',
+  'trips.notes': 'Notes',
+  'trips.waiting': 'waiting {hours} h',
+  'trips.day': 'day {day}',
+
+  'vehicles.title': 'Fleet utilisation',
+  'vehicles.vehicle': 'Vehicle',
+  'vehicles.type': 'Type',
+  'vehicles.capacity': 'Capacity, t',
+  'vehicles.trips': 'Trips',
+  'vehicles.distance': 'Distance, km',
+  'vehicles.time': 'Time, h',
+  'vehicles.driving': 'Driving, h',
+  'vehicles.breaks': 'Breaks',
+  'vehicles.cost': 'Costs, ₽',
+  'vehicles.margin': 'Margin, ₽',
+  'vehicles.violations': 'Working time violations',
+
+  'infeasibility.title': 'Request deadlines',
+  'infeasibility.allOnTime':
+    'All requests are delivered on time and within their time windows.',
+  'infeasibility.count': 'Requests not delivered on time: {count}',
+  'infeasibility.request': 'Request',
+  'infeasibility.priority': 'Priority',
+  'infeasibility.deadline': 'Deadline, h',
+  'infeasibility.completion': 'Delivered, h',
+  'infeasibility.delay': 'Delay, h',
+  'infeasibility.reasons': 'Violated',
+
+  'validation.title': 'Plan check',
+  'validation.passed':
+    'The plan matches the requests: capacity, volumes, schedules and shifts are respected.',
+  'validation.count': 'Plan violations: {count}',
+
+  'depots.title': 'Depots',
+  'depots.add': 'Add depot',
+  'depots.name': 'Name',
+  'depots.location': 'Location',
+  'depots.placeholder': 'e.g. D5',
+  'depots.defaultName': 'Depot-{index}',
+
+  'fleet.title': 'Fleet',
+  'fleet.add': 'Add vehicle type',
+  'fleet.type': 'Vehicle type',
+  'fleet.depot': 'Base',
+  'fleet.count': 'Count, pcs',
+  'fleet.capacity': 'Capacity, t',
+  'fleet.speed': 'Speed, km/h',
+  'fleet.loadUnloadRate': 'Loading/unloading, h/t',
+  'fleet.nearestDepot': 'Nearest depot',
+  'fleet.defaultName': 'New type',
+
+  'grid.columns': 'Grid columns',
+  'grid.rows': 'Grid rows',
+  'grid.columnLabels': 'Column labels',
+  'grid.columnLabelsPlaceholder': 'Automatic: A, B, …, Z, AA, AB',
+  'grid.preview': 'Columns: {columns}; rows: 1–{rows}',
+
+  'network.title': 'Road network',
+  'network.blockedCells': 'Blocked cells (rivers, closed streets)',
+  'network.blockedCellsPlaceholder': 'e.g. C3, C4',
+  'network.slowEdges': 'Slow sections (travel time multiplier)',
+  'network.addEdge': 'Add section',
+  'network.from': 'From cell',
+  'network.to': 'To adjacent cell',
+  'network.weight': 'Multiplier',
+
+  'history.title': 'Calculation history',
+  'history.empty':
+    'Calculated plans are stored in the browser and appear here.',
+  'history.savedAt': 'Calculated at',
+  'history.requests': 'Requests',
+  'history.vehicles': 'Vehicles',
+  'history.distance': 'Distance, km',
+  'history.restore': 'Restore',
+
+  'scenario.save': 'Save scenario',
+  'scenario.open': 'Open scenario',
+  'scenario.includePlan': 'Include the calculated plan',
+
+  'import.hint':
+    'Import requests from CSV (separator ";" or ",", UTF-8 encoding)',
+  'import.file': 'File "{name}": {rows} rows',
+  'import.chooseFile': 'Choose file',
+  'import.column': 'Column {index}',
+  'import.emptyFile': 'The file has no request rows.',
+  'import.readFailed': 'Could not read the file. Save it as UTF-8 CSV.',
+  'import.ready': 'Ready to import: {valid} of {total}.',
+  'import.skipInvalid': ' Rows with errors will be skipped.',
+  'import.line': 'Row',
+  'import.route': 'Route',
+  'import.volume': 'Volume, t',
+  'import.windows': 'Windows, h',
+  'import.check': 'Check',
+  'import.replace': 'Replace requests',
+  'import.append': 'Add to requests',
+  'import.cancel': 'Cancel',
+
+  'export.title': 'Plan export',
+  'export.hint':
+    'Tables for reports, a complete copy of the plan in JSON and a shift calendar for drivers.',
+  'export.csv': 'CSV',
+  'export.xlsx': 'Excel (XLSX)',
+  'export.json': 'JSON',
+  'export.calendar': 'Shift calendar (iCalendar)',
+  'export.shiftStart': 'Start of the first shift',
+  'export.vehicleCalendar': 'Vehicle #{id} (.ics)',
+
+  'waybill.title': 'Waybills',
+  'waybill.back': 'Back to planning',
+  'waybill.print': 'Print',
+  'waybill.download': 'Download file',
+  'waybill.loading': 'Loading the plan…',
+  'waybill.empty':
+    'No plan has been calculated. Run the calculation on the planning page to prepare waybills.',
+  'waybill.loadFailed': 'Could not read the saved plan from browser storage.',
+  'waybill.generated': 'Generated: {date}',
+  'waybill.cover': 'Plan summary',
+  'waybill.loadedDistance': 'Loaded distance, km',
+  'waybill.emptyDistance': 'Empty distance, km',
+  'waybill.days': 'Days in plan',
+  'waybill.vehicle': 'Waybill: vehicle #{id}',
+  'waybill.vehicleDetails':
+    '{name}, capacity {capacity} t, depot {depot} ({code})',
+  'waybill.vehicleTotals':
+    'Trips: {trips}, distance {distance} km, time on duty {time} h',
+  'waybill.trip': 'Trip #{number}: {request}',
+  'waybill.tripDetails':
+    'Day {day}, {start}–{end} h, load {load} t, distance {distance} km',
+  'waybill.column.point': 'Point',
+  'waybill.column.operation': 'Operation',
+  'waybill.column.arrival': 'Arrival, h',
+  'waybill.column.departure': 'Departure, h',
+  'waybill.column.handled': 'Cargo, t',
+  'waybill.column.onboard': 'On board, t',
+  'waybill.column.distance': 'Leg, km',
+  'waybill.operation.depot': 'Depot',
+  'waybill.operation.shipper': 'Loading',
+  'waybill.operation.receiver': 'Unloading',
+  'waybill.noTrips': 'No trips',
+  'waybill.driver': 'Driver',
+  'waybill.dispatcher': 'Dispatcher',
+
+  'image.svg': 'SVG',
+  'image.svgHint': 'Download a vector image with the legend',
+  'image.png': 'PNG',
+  'image.pngHint': 'Download a raster image with the legend',
+  'image.failed': 'Could not save the image',
+  'map.title': 'Route map',
+  'map.description': 'Vehicle routes on the district grid',
+  'map.blockedCell': '{code}: blocked cell',
+  'map.slowEdge': '{from}–{to}: multiplier {weight}',
+  'map.vehicleFilter': 'Show',
+  'map.allVehicles': 'All vehicles',
+  'map.legLegend': 'Route legs:',
+  'map.loadedLeg': 'Loaded',
+  'map.emptyLeg': 'Empty run',
+  'map.legDistance': '{value} km',
+
+  'playback.play': 'Play the day',
+  'playback.pause': 'Pause',
+  'playback.time': 'Playback time',
+  'playback.speed': 'Speed',
+  'playback.speedOption': '{value} h/s',
+  'playback.legend': 'Vehicle state:',
+  'playback.vehicleTitle': 'Vehicle #{id}: {activity}, load {load} t',
+  'playback.activity.idle': 'Parked',
+  'playback.activity.empty-run': 'Empty run',
+  'playback.activity.waiting': 'Waiting for window',
+  'playback.activity.loading': 'Loading',
+  'playback.activity.loaded-run': 'Loaded',
+  'playback.activity.unloading': 'Unloading',
+
+  'gantt.phase.approach': 'Drive to shipper',
+  'gantt.phase.waiting': 'Waiting for opening',
+  'gantt.phase.loading': 'Loading',
+  'gantt.phase.loaded-run': 'Loaded run',
+  'gantt.phase.unloading': 'Unloading',
+  'gantt.phase.return': 'Return to depot',
+  'gantt.empty': 'Add requests and run the calculation to see the Gantt chart.',
+  'gantt.title': 'Gantt chart',
+  'gantt.horizon': 'Display horizon: {hours} h',
+  'gantt.horizonDays': ' ({days} days)',
+  'gantt.activeVehicles': 'Vehicles at work',
+  'gantt.averageLoad': 'Average utilisation',
+  'gantt.averageLoad.hint': 'Share of time vehicles spend on trips',
+  'gantt.balance': 'Busy / idle balance',
+  'gantt.balance.hint': 'Total busy and idle time across the fleet',
+  'gantt.fleet': 'Fleet',
+  'gantt.requestLegend': 'Requests:',
+  'gantt.phaseLegend': 'Trip phases:',
+  'gantt.driverBreak': 'Driver break',
+  'gantt.vehicle': 'Vehicle #{id}',
+  'gantt.violations': 'WTR: {count}',
+  'gantt.vehicleDetails': '{name}, {capacity} t, {depot}',
+  'gantt.vehicleTrips': '{count} trip(s), {distance} km',
+  'gantt.vehicleBusy': 'Busy {percent}%, idle {idle} h',
+  'gantt.tripTitle': 'Trip {number}: {start}–{end} h',
+  'gantt.trip': 'Trip #{number}',
+  'gantt.tripTime': '{start} – {end} h',
+  'gantt.load': 'L: {value} t',
+  'gantt.distance': 'D: {value} km',
+  'gantt.handling': 'H: {value} h',
+  'gantt.travel': 'Driving: {value} h',
+  'gantt.waiting': 'Wait: {value} h',
+  'gantt.idle': 'Idle',
+  'gantt.idleTitle': 'Idle: {start} – {end} h ({duration} h)',
+  'gantt.break': 'Break',
+  'gantt.breakTitle': 'Driver break: {start} – {end} h ({duration} h)',
+  'gantt.day': 'Day {day}',
+  'gantt.timeAxis': 'Time, h',
+  'gantt.dragHint':
+    'Drag a trip to another vehicle or time: later trips move back and the moved trip is locked.',
+  'gantt.lock': 'Lock trip',
+  'gantt.unlock': 'Unlock trip',
+  'gantt.locked': 'Locked',
+  'gantt.conflict': 'Schedule conflict',
+
+  'comparison.title': 'Scenario comparison',
+  'comparison.addVariant': 'Add variant',
+  'comparison.compare': 'Compare',
+  'comparison.variant': 'Variant {index}',
+  'comparison.name': 'Name',
+  'comparison.distanceMode': 'Distances',
+  'comparison.routingMode': 'Routing scheme',
+  'comparison.optimizationMode': 'Assignment',
+  'comparison.fleet': 'Fleet',
+  'comparison.distanceMode.manhattan': 'Manhattan',
+  'comparison.distanceMode.euclidean': 'Euclidean',
+  'comparison.distanceMode.network': 'Road network',
+  'comparison.routingMode.pendulum': 'Shuttle trips',
+  'comparison.routingMode.chained': 'Round trips',
+  'comparison.optimizationMode.greedy': 'In request order',
+  'comparison.optimizationMode.fleet': 'Minimise vehicles',
+  'comparison.currentFleet': 'Current fleet',
+  'comparison.singleType': 'Only "{name}"',
+  'comparison.note':
+    'Other parameters come from the current settings. An "Only …" variant replaces the fleet with vehicles of one type in the same total number.',
+  'comparison.noRequests': 'Add at least one request to compare.',
+  'comparison.noVariants': 'Add at least one parameter variant to compare.',
+  'comparison.base': 'Current parameters',
+  'comparison.metrics': 'Plan metrics',
+  'comparison.metric': 'Metric',
+  'comparison.vehicles': 'Vehicles',
+  'comparison.vehicleNumber': '#',
+  'comparison.vehicleStats': '{trips} trip(s), {distance} km, {hours} h',
+}
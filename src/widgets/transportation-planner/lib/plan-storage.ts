@@ -0,0 +1,122 @@
+import type { ScenarioFile } from '@entities'
+import { serializeScenario } from '@entities'
+
+const DATABASE_NAME = 'light-track'
+const DATABASE_VERSION = 1
+const WORKSPACE_STORE = 'workspace'
+const HISTORY_STORE = 'history'
+const WORKSPACE_KEY = 'current'
+const HISTORY_LIMIT = 50
+
+export interface PlanHistoryEntry {
+  id: string
+  savedAt: string
+  requestCount: number
+  vehiclesRequired: number
+  totalDistance: number
+  scenario: string
+}
+
+export function isStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export async function loadWorkspace(): Promise<string | null> {
+  const database = await openDatabase()
+  const value = await promisify<unknown>(
+    database
+      .transaction(WORKSPACE_STORE, 'readonly')
+      .objectStore(WORKSPACE_STORE)
+      .get(WORKSPACE_KEY),
+  )
+  database.close()
+  return typeof value === 'string' ? value : null
+}
+
+export async function saveWorkspace(scenario: ScenarioFile): Promise<void> {
+  const database = await openDatabase()
+  const transaction = database.transaction(WORKSPACE_STORE, 'readwrite')
+  transaction
+    .objectStore(WORKSPACE_STORE)
+    .put(serializeScenario(scenario), WORKSPACE_KEY)
+  await completion(transaction)
+  database.close()
+}
+
+export async function listHistory(): Promise<PlanHistoryEntry[]> {
+  const database = await openDatabase()
+  const entries = await promisify<PlanHistoryEntry[]>(
+    database
+      .transaction(HISTORY_STORE, 'readonly')
+      .objectStore(HISTORY_STORE)
+      .getAll(),
+  )
+  database.close()
+  return entries.sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+}
+
+/**
+ * Stores a computed plan together with its inputs and trims the history to
+ * the most recent entries.
+ */
+export async function addHistoryEntry(
+  scenario: ScenarioFile,
+): Promise<PlanHistoryEntry> {
+  const entry: PlanHistoryEntry = {
+    id: crypto.randomUUID(),
+    savedAt: scenario.savedAt,
+    requestCount: scenario.requests.length,
+    vehiclesRequired: scenario.plan?.summary.vehiclesRequired ?? 0,
+    totalDistance: scenario.plan?.summary.totalDistance ?? 0,
+    scenario: serializeScenario(scenario),
+  }
+
+  const stale = (await listHistory()).slice(HISTORY_LIMIT - 1)
+  const database = await openDatabase()
+  const transaction = database.transaction(HISTORY_STORE, 'readwrite')
+  const store = transaction.objectStore(HISTORY_STORE)
+  store.put(entry)
+  for (const old of stale) {
+    store.delete(old.id)
+  }
+  await completion(transaction)
+  database.close()
+  return entry
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  const database = await openDatabase()
+  const transaction = database.transaction(HISTORY_STORE, 'readwrite')
+  transaction.objectStore(HISTORY_STORE).delete(id)
+  await completion(transaction)
+  database.close()
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+  request.onupgradeneeded = () => {
+    const database = request.result
+    if (!database.objectStoreNames.contains(WORKSPACE_STORE)) {
+      database.createObjectStore(WORKSPACE_STORE)
+    }
+    if (!database.objectStoreNames.contains(HISTORY_STORE)) {
+      database.createObjectStore(HISTORY_STORE, { keyPath: 'id' })
+    }
+  }
+  return promisify(request)
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
@@ -0,0 +1,28 @@
+import type { TripPlan } from '@entities'
+import type { RequestLegendEntry } from '../ui/types'
+
+const colorPalette = [
+  '#2563eb',
+  '#fb923c',
+  '#10b981',
+  '#f97316',
+  '#8b5cf6',
+  '#ec4899',
+  '#14b8a6',
+  '#f59e0b',
+]
+
+export function buildRequestColorMap(
+  trips: TripPlan[],
+): Map<string, RequestLegendEntry> {
+  const map = new Map<string, RequestLegendEntry>()
+  trips.forEach((trip, index) => {
+    if (!map.has(trip.requestId)) {
+      map.set(trip.requestId, {
+        color: colorPalette[index % colorPalette.length],
+        label: `${trip.shipperCode} → ${trip.receiverCode}`,
+      })
+    }
+  })
+  return map
+}
@@ -0,0 +1,39 @@
+import type { RequestInput } from '@entities'
+import { normalizeTimeWindow } from '@entities'
+
+export function sanitizeRequests(
+  requests: RequestInput[],
+  workdayLength: number,
+): RequestInput[] {
+  return requests
+    .map((request) => ({
+      ...request,
+      shipperCode: request.shipperCode.trim().toUpperCase(),
+      receiverCode: request.receiverCode.trim().toUpperCase(),
+      shipperWindow: normalizeTimeWindow(request.shipperWindow, workdayLength),
+      receiverWindow: normalizeTimeWindow(
+        request.receiverWindow,
+        workdayLength,
+      ),
+      volume:
+        Number.isFinite(request.volume) && request.volume > 0
+          ? request.volume
+          : 0,
+      revenuePerTonne:
+        request.revenuePerTonne !== undefined &&
+        Number.isFinite(request.revenuePerTonne) &&
+        request.revenuePerTonne >= 0
+          ? request.revenuePerTonne
+          : undefined,
+      deadline:
+        request.deadline !== undefined &&
+        Number.isFinite(request.deadline) &&
+        request.deadline >= 0
+          ? request.deadline
+          : undefined,
+    }))
+    .filter(
+      (request) =>
+        request.shipperCode && request.receiverCode && request.volume > 0,
+    )
+}
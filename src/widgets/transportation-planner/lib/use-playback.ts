@@ -0,0 +1,64 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+// Plan hours played per second of animation.
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4] as const
+
+export type PlaybackSpeed = (typeof PLAYBACK_SPEEDS)[number]
+
+export interface Playback {
+  time: number
+  end: number
+  playing: boolean
+  speed: PlaybackSpeed
+  seek: (time: number) => void
+  toggle: () => void
+  setSpeed: (speed: PlaybackSpeed) => void
+}
+
+/**
+ * Clock of the day replay shared by the route map and the Gantt chart. The
+ * clock stops at `end`; pressing play there starts the day over.
+ */
+export function usePlayback(end: number): Playback {
+  const [time, setTime] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState<PlaybackSpeed>(1)
+
+  useEffect(() => {
+    if (!playing) {
+      return
+    }
+    let frame = 0
+    let previous: number | null = null
+    const tick = (timestamp: number) => {
+      const elapsed = previous === null ? 0 : (timestamp - previous) / 1000
+      previous = timestamp
+      setTime((current) => Math.min(current + elapsed * speed, end))
+      frame = window.requestAnimationFrame(tick)
+    }
+    frame = window.requestAnimationFrame(tick)
+    return () => window.cancelAnimationFrame(frame)
+  }, [playing, speed, end])
+
+  useEffect(() => {
+    if (time >= end) {
+      setPlaying(false)
+    }
+  }, [time, end])
+
+  const seek = useCallback(
+    (next: number) => setTime(Math.min(Math.max(next, 0), end)),
+    [end],
+  )
+
+  const toggle = useCallback(() => {
+    if (!playing && time >= end) {
+      setTime(0)
+    }
+    setPlaying(!playing)
+  }, [playing, time, end])
+
+  return { time, end, playing, speed, seek, toggle, setSpeed }
+}
@@ -0,0 +1,98 @@
+import type { Locale, PlannerParameters } from '@entities'
+import {
+  HOURS_IN_DAY,
+  parseGridCode,
+  validateGrid,
+  validateRoadNetwork,
+  validateWorkRules,
+} from '@entities'
+import { translate } from './i18n'
+
+const MAX_PLANNING_DAYS = 14
+
+/**
+ * Checks the settings before a calculation and returns the first problem,
+ * in the interface language, or null when the planner can run.
+ */
+export function validateParameters(
+  parameters: PlannerParameters,
+  locale: Locale,
+): string | null {
+  const invalidVehicleType = parameters.fleet.some(
+    (type) =>
+      !Number.isFinite(type.count) ||
+      type.count < 0 ||
+      type.capacity <= 0 ||
+      type.speed <= 0 ||
+      type.loadUnloadRate < 0,
+  )
+  const fleetSize = parameters.fleet.reduce(
+    (acc, type) => acc + (type.count > 0 ? type.count : 0),
+    0,
+  )
+
+  const invalidCosts = Object.values(parameters.costs).some(
+    (value) => !Number.isFinite(value) || value < 0,
+  )
+  if (invalidCosts) {
+    return translate(locale, 'planner.negativeCosts')
+  }
+
+  const workRulesError = validateWorkRules(parameters.workRules, locale)
+  if (workRulesError) {
+    return workRulesError
+  }
+
+  const gridError = validateGrid(parameters.grid, locale)
+  if (gridError) {
+    return gridError
+  }
+
+  const networkError =
+    parameters.distanceMode === 'network'
+      ? validateRoadNetwork(parameters.network, parameters.grid, locale)
+      : null
+  if (networkError) {
+    return networkError
+  }
+
+  const invalidDepot = parameters.depots.find(
+    (depot) => !parseGridCode(depot.code, parameters.grid),
+  )
+  if (invalidDepot) {
+    return translate(locale, 'planner.invalidDepot', {
+      name: invalidDepot.name,
+      code: invalidDepot.code || '—',
+    })
+  }
+  if (parameters.depots.length === 0) {
+    return translate(locale, 'planner.noDepots')
+  }
+
+  if (
+    !Number.isInteger(parameters.planningDays) ||
+    parameters.planningDays < 1 ||
+    parameters.planningDays > MAX_PLANNING_DAYS
+  ) {
+    return translate(locale, 'planner.invalidPlanningDays', {
+      max: MAX_PLANNING_DAYS,
+    })
+  }
+  if (parameters.planningDays > 1 && parameters.workdayLength > HOURS_IN_DAY) {
+    return translate(locale, 'planner.multiDayShift', { hours: HOURS_IN_DAY })
+  }
+
+  if (
+    parameters.consolidation === 'nearby' &&
+    (!Number.isFinite(parameters.consolidationRadius) ||
+      parameters.consolidationRadius < 0)
+  ) {
+    return translate(locale, 'planner.negativeRadius')
+  }
+
+  if (invalidVehicleType || fleetSize === 0 || parameters.cellSize <= 0) {
+    return translate(locale, 'planner.invalidFleet')
+  }
+
+  return null
+}
@@ -0,0 +1,227 @@
+import type {
+  Locale,
+  PlanSummary,
+  StopKind,
+  VehicleWaybill,
+  WaybillStop,
+  WaybillTrip,
+} from '@entities'
+import { formatDistance, formatHours, formatMoney, localeTags } from '@entities'
+import { type MessageKey, translate } from './i18n'
+
+// Text of the waybills shared by the print page and the downloaded file.
+
+export const WAYBILL_COLUMNS: MessageKey[] = [
+  'waybill.column.point',
+  'waybill.column.operation',
+  'waybill.column.arrival',
+  'waybill.column.departure',
+  'waybill.column.handled',
+  'waybill.column.onboard',
+  'waybill.column.distance',
+]
+
+const OPERATIONS: Record<StopKind, MessageKey> = {
+  depot: 'waybill.operation.depot',
+  shipper: 'waybill.operation.shipper',
+  receiver: 'waybill.operation.receiver',
+}
+
+function formatTonnes(value: number, locale: Locale): string {
+  return value.toLocaleString(localeTags[locale], {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })
+}
+
+export function waybillCoverRows(
+  summary: PlanSummary,
+  locale: Locale,
+): Array<{ label: string; value: string }> {
+  const t = (key: MessageKey) => translate(locale, key)
+  return [
+    { label: t('summary.vehicles'), value: String(summary.vehiclesRequired) },
+    { label: t('summary.trips'), value: String(summary.totalTrips) },
+    {
+      label: t('summary.volume'),
+      value: formatTonnes(summary.totalVolume, locale),
+    },
+    {
+      label: t('summary.distance'),
+      value: formatDistance(summary.totalDistance, locale),
+    },
+    {
+      label: t('waybill.loadedDistance'),
+      value: formatDistance(summary.loadedDistance, locale),
+    },
+    {
+      label: t('waybill.emptyDistance'),
+      value: formatDistance(summary.emptyDistance, locale),
+    },
+    {
+      label: t('summary.utilization'),
+      value: summary.utilization.toLocaleString(localeTags[locale], {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      }),
+    },
+    {
+      label: t('summary.completion'),
+      value: formatHours(summary.maxCompletionTime, locale),
+    },
+    { label: t('waybill.days'), value: String(summary.daysUsed) },
+    {
+      label: t('summary.costs'),
+      value: formatMoney(summary.finance.totalCost, locale),
+    },
+    {
+      label: t('summary.revenue'),
+      value: formatMoney(summary.finance.revenue, locale),
+    },
+    {
+      label: t('summary.margin'),
+      value: formatMoney(summary.finance.margin, locale),
+    },
+  ]
+}
+
+export function waybillVehicleText(waybill: VehicleWaybill, locale: Locale) {
+  return {
+    title: translate(locale, 'waybill.vehicle', { id: waybill.vehicleId }),
+    details: translate(locale, 'waybill.vehicleDetails', {
+      name: waybill.vehicleTypeName,
+      capacity: formatTonnes(waybill.capacity, locale),
+      depot: waybill.depotName,
+      code: waybill.depotCode,
+    }),
+    totals: translate(locale, 'waybill.vehicleTotals', {
+      trips: waybill.trips.length,
+      distance: formatDistance(waybill.totalDistance, locale),
+      time: formatHours(waybill.totalTime, locale),
+    }),
+  }
+}
+
+export function waybillTripText(trip: WaybillTrip, locale: Locale) {
+  return {
+    title: translate(locale, 'waybill.trip', {
+      number: trip.tripNumber,
+      request: trip.requestLabel,
+    }),
+    details: translate(locale, 'waybill.tripDetails', {
+      day: trip.day + 1,
+      start: formatHours(trip.start, locale),
+      end: formatHours(trip.end, locale),
+      load: formatTonnes(trip.load, locale),
+      distance: formatDistance(trip.distance, locale),
+    }),
+  }
+}
+
+export function waybillStopCells(stop: WaybillStop, locale: Locale): string[] {
+  return [
+    stop.code,
+    translate(locale, OPERATIONS[stop.kind]),
+    formatHours(stop.arrival, locale),
+    formatHours(stop.departure, locale),
+    stop.kind === 'depot' ? '—' : formatTonnes(stop.handled, locale),
+    formatTonnes(stop.onboard, locale),
+    stop.distance > 0 ? formatDistance(stop.distance, locale) : '—',
+  ]
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const DOCUMENT_STYLES = `
+body { font-family: Arial, sans-serif; font-size: 12px; color: #111827; margin: 24px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+h2 { font-size: 16px; margin: 0 0 4px; }
+h3 { font-size: 13px; margin: 16px 0 2px; }
+p { margin: 2px 0; }
+.muted { color: #4b5563; }
+table { border-collapse: collapse; width: 100%; margin-top: 6px; }
+th, td { border: 1px solid #9ca3af; padding: 3px 6px; text-align: left; }
+th { background: #f3f4f6; }
+td.number { text-align: right; }
+section { break-before: page; page-break-before: always; }
+.signatures { display: flex; gap: 48px; margin-top: 32px; }
+.signatures span { border-top: 1px solid #111827; min-width: 180px; padding-top: 4px; }
+`
+
+/**
+ * Self-contained HTML document with the cover sheet and one waybill per
+ * vehicle, each starting on a new printed page.
+ */
+export function renderWaybillDocument(
+  summary: PlanSummary,
+  waybills: VehicleWaybill[],
+  locale: Locale,
+  generatedAt: Date,
+): string {
+  const t = (key: MessageKey) => escapeHtml(translate(locale, key))
+  const headers = WAYBILL_COLUMNS.map((key) => `<th>${t(key)}</th>`).join('')
+
+  const cover = `
+<h1>${t('waybill.title')}</h1>
+<p class="muted">${escapeHtml(
+    translate(locale, 'waybill.generated', {
+      date: generatedAt.toLocaleString(localeTags[locale]),
+    }),
+  )}</p>
+<h2>${t('waybill.cover')}</h2>
+<table>${waybillCoverRows(summary, locale)
+    .map(
+      (row) =>
+        `<tr><th>${escapeHtml(row.label)}</th><td class="number">${escapeHtml(row.value)}</td></tr>`,
+    )
+    .join('')}</table>`
+
+  const sheets = waybills.map((waybill) => {
+    const text = waybillVehicleText(waybill, locale)
+    const trips = waybill.trips.map((trip) => {
+      const tripText = waybillTripText(trip, locale)
+      const rows = trip.stops
+        .map(
+          (stop) =>
+            `<tr>${waybillStopCells(stop, locale)
+              .map((cell, index) =>
+                index < 2
+                  ? `<td>${escapeHtml(cell)}</td>`
+                  : `<td class="number">${escapeHtml(cell)}</td>`,
+              )
+              .join('')}</tr>`,
+        )
+        .join('')
+      return `
+<h3>${escapeHtml(tripText.title)}</h3>
+<p class="muted">${escapeHtml(tripText.details)}</p>
+<table><thead><tr>${headers}</tr></thead><tbody>${rows}</tbody></table>`
+    })
+    return `
+<section>
+<h2>${escapeHtml(text.title)}</h2>
+<p>${escapeHtml(text.details)}</p>
+<p class="muted">${escapeHtml(text.totals)}</p>
+${trips.length > 0 ? trips.join('') : `<p>${t('waybill.noTrips')}</p>`}
+<div class="signatures"><span>${t('waybill.driver')}</span><span>${t('waybill.dispatcher')}</span></div>
+</section>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${t('waybill.title')}</title>
+<style>${DOCUMENT_STYLES}</style>
+</head>
+<body>${cover}${sheets.join('')}
+</body>
+</html>
+`
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import type { Depot } from '@entities'
+import { Button } from '@shared/ui/button'
+import { useI18n } from '../lib/i18n'
+
+interface DepotTableProps {
+  depots: Depot[]
+  onChange: (depots: Depot[]) => void
+}
+
+function createDepot(name: string): Depot {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    code: '',
+  }
+}
+
+export function DepotTable({ depots, onChange }: DepotTableProps) {
+  const { t } = useI18n()
+
+  const handleDepotChange = (
+    id: string,
+    field: 'name' | 'code',
+    value: string,
+  ) => {
+    onChange(
+      depots.map((depot) =>
+        depot.id === id ? { ...depot, [field]: value } : depot,
+      ),
+    )
+  }
+
+  const handleAddDepot = () => {
+    onChange([
+      ...depots,
+      createDepot(t('depots.defaultName', { index: depots.length + 1 })),
+    ])
+  }
+
+  const handleRemoveDepot = (id: string) => {
+    if (depots.length === 1) {
+      return
+    }
+    onChange(depots.filter((depot) => depot.id !== id))
+  }
+
+  return (
+    <div className='space-y-3'>
+      <div className='flex items-center justify-between'>
+        <h3 className='text-base font-semibold'>{t('depots.title')}</h3>
+        <Button type='button' variant='outline' onClick={handleAddDepot}>
+          {t('depots.add')}
+        </Button>
+      </div>
+      <div className='overflow-x-auto'>
+        <table className='min-w-full divide-y divide-border text-sm'>
+          <thead className='bg-muted/50'>
+            <tr>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('depots.name')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('depots.location')}
+              </th>
+              <th className='px-3 py-2' />
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-border'>
+            {depots.map((depot) => (
+              <tr key={depot.id}>
+                <td className='px-3 py-2'>
+                  <input
+                    className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                    value={depot.name}
+                    onChange={(event) =>
+                      handleDepotChange(depot.id, 'name', event.target.value)
+                    }
+                  />
+                </td>
+                <td className='px-3 py-2'>
+                  <input
+                    className='w-28 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                    value={depot.code}
+                    onChange={(event) =>
+                      handleDepotChange(depot.id, 'code', event.target.value)
+                    }
+                    placeholder={t('depots.placeholder')}
+                  />
+                </td>
+                <td className='px-3 py-2 text-right'>
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    onClick={() => handleRemoveDepot(depot.id)}
+                    disabled={depots.length === 1}
+                  >
+                    {t('common.remove')}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import type { Depot, VehicleType } from '@entities'
+import { Button } from '@shared/ui/button'
+import type { MessageKey } from '../lib/i18n'
+import { useI18n } from '../lib/i18n'
+
+interface FleetTableProps {
+  fleet: VehicleType[]
+  depots: Depot[]
+  onChange: (fleet: VehicleType[]) => void
+}
+
+type NumericField = 'count' | 'capacity' | 'speed' | 'loadUnloadRate'
+
+const numericColumns: Array<{
+  field: NumericField
+  label: MessageKey
+  min: number
+  step: number
+}> = [
+  { field: 'count', label: 'fleet.count', min: 0, step: 1 },
+  { field: 'capacity', label: 'fleet.capacity', min: 0.5, step: 0.5 },
+  { field: 'speed', label: 'fleet.speed', min: 1, step: 1 },
+  {
+    field: 'loadUnloadRate',
+    label: 'fleet.loadUnloadRate',
+    min: 0.01,
+    step: 0.01,
+  },
+]
+
+function createVehicleType(name: string): VehicleType {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    depotId: null,
+    count: 1,
+    capacity: 6,
+    speed: 40,
+    loadUnloadRate: 0.1,
+  }
+}
+
+export function FleetTable({ fleet, depots, onChange }: FleetTableProps) {
+  const { t } = useI18n()
+
+  const handleTypeChange = <K extends keyof VehicleType>(
+    id: string,
+    field: K,
+    value: VehicleType[K],
+  ) => {
+    onChange(
+      fleet.map((type) =>
+        type.id === id ? { ...type, [field]: value } : type,
+      ),
+    )
+  }
+
+  const handleAddType = () => {
+    onChange([...fleet, createVehicleType(t('fleet.defaultName'))])
+  }
+
+  const handleRemoveType = (id: string) => {
+    if (fleet.length === 1) {
+      return
+    }
+    onChange(fleet.filter((type) => type.id !== id))
+  }
+
+  return (
+    <div className='space-y-3'>
+      <div className='flex items-center justify-between'>
+        <h3 className='text-base font-semibold'>{t('fleet.title')}</h3>
+        <Button type='button' variant='outline' onClick={handleAddType}>
+          {t('fleet.add')}
+        </Button>
+      </div>
+      <div className='overflow-x-auto'>
+        <table className='min-w-full divide-y divide-border text-sm'>
+          <thead className='bg-muted/50'>
+            <tr>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('fleet.type')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('fleet.depot')}
+              </th>
+              {numericColumns.map((column) => (
+                <th
+                  key={column.field}
+                  className='px-3 py-2 text-left font-medium text-muted-foreground'
+                >
+                  {t(column.label)}
+                </th>
+              ))}
+              <th className='px-3 py-2' />
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-border'>
+            {fleet.map((type) => (
+              <tr key={type.id}>
+                <td className='px-3 py-2'>
+                  <input
+                    className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                    value={type.name}
+                    onChange={(event) =>
+                      handleTypeChange(type.id, 'name', event.target.value)
+                    }
+                  />
+                </td>
+                <td className='px-3 py-2'>
+                  <select
+                    className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                    value={type.depotId ?? ''}
+                    onChange={(event) =>
+                      handleTypeChange(
+                        type.id,
+                        'depotId',
+                        event.target.value || null,
+                      )
+                    }
+                  >
+                    <option value=''>{t('fleet.nearestDepot')}</option>
+                    {depots.map((depot) => (
+                      <option key={depot.id} value={depot.id}>
+                        {depot.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                {numericColumns.map((column) => (
+                  <td key={column.field} className='px-3 py-2'>
+                    <input
+                      type='number'
+                      min={column.min}
+                      step={column.step}
+                      className='w-28 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                      value={type[column.field]}
+                      onChange={(event) =>
+                        handleTypeChange(
+                          type.id,
+                          column.field,
+                          Number(event.target.value),
+                        )
+                      }
+                    />
+                  </td>
+                ))}
+                <td className='px-3 py-2 text-right'>
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    onClick={() => handleRemoveType(type.id)}
+                    disabled={fleet.length === 1}
+                  >
+                    {t('common.remove')}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -1,24 +1,61 @@
 'use client'
 
 import {
+  type Diagnostic,
+  describeTripRoute,
+  formatDiagnostic,
   formatDistance,
   formatHours,
+  HOURS_IN_DAY,
+  localeTags,
+  type TripPlacement,
   type TripPlan,
   type VehicleSchedule,
 } from '@entities'
-
+import { Lock, LockOpen } from 'lucide-react'
+import { type DragEvent, useState } from 'react'
+import {
+  type ChartImage,
+  escapeSvgText,
+  IMAGE_FONT,
+  type ImageLegendItem,
+  renderImageLegend,
+} from '../lib/chart-image'
+import { type MessageKey, type Translate, useI18n } from '../lib/i18n'
+import { ImageExportButtons } from './image-export-buttons'
 import type { RequestLegendEntry } from './types'
 
 interface GanttChartProps {
   vehicles: VehicleSchedule[]
   colorMap: Map<string, RequestLegendEntry>
   horizon: number
+  // Plan violations; the trips they name are highlighted.
+  conflicts?: Diagnostic[]
+  // Without these handlers the chart is read-only.
+  onMoveTrip?: (tripId: string, placement: TripPlacement) => void
+  onToggleTripLock?: (tripId: string) => void
+  // Playback time drawn as a cursor across all rows.
+  cursorTime?: number | null
+}
+
+interface TripDrag {
+  tripId: string
+  // Hours between the trip start and the point where it was grabbed.
+  grabOffset: number
+}
+
+interface TripDragHandlers {
+  drag: TripDrag | null
+  onDragStart: (drag: TripDrag) => void
+  onDragEnd: () => void
+  onToggleLock?: (tripId: string) => void
 }
 
 interface TimeAxisConfig {
   ticks: number[]
   axisEnd: number
   majorStep: number
+  days: number
 }
 
 interface VehicleTimeline {
@@ -30,59 +67,66 @@ interface VehicleTimeline {
 
 type TimelineSegment =
   | { type: 'trip'; trip: TripPlan }
+  | { type: 'break'; start: number; end: number }
   | { type: 'idle'; start: number; end: number }
 
 interface TripPhase {
   key: string
-  label: string
+  label: MessageKey
   color: string
   duration: number
   startOffset: number
 }
 
+type PhaseKey =
+  | 'approach'
+  | 'waiting'
+  | 'loading'
+  | 'loaded-run'
+  | 'unloading'
+  | 'return'
+
 interface PhaseDefinition {
-  key: TripPhase['key']
-  label: string
-  bounds: (schedule: TripPlan['schedule']) => [number, number]
+  key: PhaseKey
+  label: MessageKey
   color: (base: string) => string
 }
 
 const HEADER_HEIGHT = 56
 const ROW_HEIGHT = 92
 const ROW_GAP = 12
+// Dropped trips start on a quarter of an hour.
+const SNAP_STEP = 0.25
 
 const phaseDefinitions: PhaseDefinition[] = [
   {
     key: 'approach',
-    label: 'Путь до отправителя',
-    bounds: (schedule) => [schedule.startTime, schedule.arrivalShipper],
+    label: 'gantt.phase.approach',
     color: (base) => darken(base, 0.25),
   },
+  {
+    key: 'waiting',
+    label: 'gantt.phase.waiting',
+    color: (base) => lighten(base, 0.8),
+  },
   {
     key: 'loading',
-    label: 'Погрузка',
-    bounds: (schedule) => [schedule.arrivalShipper, schedule.departureShipper],
+    label: 'gantt.phase.loading',
     color: (base) => lighten(base, 0.45),
   },
   {
     key: 'loaded-run',
-    label: 'Движение с грузом',
-    bounds: (schedule) => [schedule.departureShipper, schedule.arrivalReceiver],
+    label: 'gantt.phase.loaded-run',
     color: (base) => darken(base, 0.1),
   },
   {
     key: 'unloading',
-    label: 'Выгрузка',
-    bounds: (schedule) => [
-      schedule.arrivalReceiver,
-      schedule.departureReceiver,
-    ],
+    label: 'gantt.phase.unloading',
     color: (base) => lighten(base, 0.55),
   },
   {
     key: 'return',
-    label: 'Возврат в АТП',
-    bounds: (schedule) => [schedule.departureReceiver, schedule.endTime],
+    label: 'gantt.phase.return',
     color: (base) => darken(base, 0.35),
   },
 ]
@@ -131,13 +175,25 @@ function darken(color: string, amount: number) {
   return mixColor(color, '#000000', amount)
 }
 
-function buildTimeAxis(maxTime: number): TimeAxisConfig {
+function buildTimeAxis(maxTime: number, days: number): TimeAxisConfig {
   if (maxTime === 0) {
-    return { ticks: [0], axisEnd: 1, majorStep: 1 }
+    return { ticks: [0], axisEnd: 1, majorStep: 1, days }
   }
 
   const safeMax = Math.max(maxTime, 1)
-  const step = safeMax <= 6 ? 0.5 : safeMax <= 12 ? 1 : safeMax <= 24 ? 2 : 4
+  // Steps above a day divide 24 so that day boundaries fall on ticks.
+  const step =
+    safeMax <= 6
+      ? 0.5
+      : safeMax <= 12
+        ? 1
+        : safeMax <= 24
+          ? 2
+          : safeMax <= 48
+            ? 4
+            : safeMax <= 96
+              ? 6
+              : 12
   const axisEnd = Math.ceil(safeMax / step) * step
 
   const ticks: number[] = []
@@ -145,23 +201,40 @@ function buildTimeAxis(maxTime: number): TimeAxisConfig {
     ticks.push(Number(value.toFixed(2)))
   }
 
-  return { ticks, axisEnd, majorStep: step }
+  return { ticks, axisEnd, majorStep: step, days }
+}
+
+function formatTick(tick: number, axis: TimeAxisConfig): string {
+  const hour =
+    axis.days > 1 && tick > 0
+      ? tick - Math.ceil(tick / HOURS_IN_DAY - 1) * HOURS_IN_DAY
+      : tick
+  return hour.toFixed(Number.isInteger(hour) ? 0 : 1)
 }
 
 function buildVehicleTimeline(
   vehicle: VehicleSchedule,
   axisEnd: number,
 ): VehicleTimeline {
-  const sortedTrips = [...vehicle.trips].sort(
-    (a, b) => a.schedule.startTime - b.schedule.startTime,
-  )
+  const blocks: Array<
+    Extract<TimelineSegment, { type: 'trip' } | { type: 'break' }>
+  > = [
+    ...vehicle.trips.map((trip) => ({ type: 'trip' as const, trip })),
+    ...vehicle.breaks.map((pause) => ({ type: 'break' as const, ...pause })),
+  ]
+  const blockStart = (block: (typeof blocks)[number]) =>
+    block.type === 'trip' ? block.trip.schedule.startTime : block.start
+  const blockEnd = (block: (typeof blocks)[number]) =>
+    block.type === 'trip' ? block.trip.schedule.endTime : block.end
+  blocks.sort((a, b) => blockStart(a) - blockStart(b))
+
   const segments: TimelineSegment[] = []
   let pointer = 0
   let busyTime = 0
 
-  sortedTrips.forEach((trip) => {
-    const start = trip.schedule.startTime
-    const end = trip.schedule.endTime
+  blocks.forEach((block) => {
+    const start = blockStart(block)
+    const end = blockEnd(block)
 
     if (start > pointer + 1e-6) {
       segments.push({
@@ -171,8 +244,10 @@ function buildVehicleTimeline(
       })
     }
 
-    segments.push({ type: 'trip', trip })
-    busyTime += trip.timing.total
+    segments.push(block)
+    if (block.type === 'trip') {
+      busyTime += block.trip.timing.total
+    }
     pointer = Math.max(pointer, end)
   })
 
@@ -197,19 +272,55 @@ function buildVehicleTimeline(
   }
 }
 
+function collectPhaseBounds(
+  trip: TripPlan,
+): Array<{ key: PhaseKey; bounds: [number, number] }> {
+  const { stops } = trip.schedule
+  const bounds: Array<{ key: PhaseKey; bounds: [number, number] }> = []
+
+  stops.forEach((stop, index) => {
+    if (index > 0) {
+      const previous = stops[index - 1]
+      const leg = trip.legs[index - 1]
+      const key: PhaseKey = leg?.loaded
+        ? 'loaded-run'
+        : stop.kind === 'depot'
+          ? 'return'
+          : 'approach'
+      bounds.push({ key, bounds: [previous.departure, stop.arrival] })
+    }
+
+    bounds.push({ key: 'waiting', bounds: [stop.arrival, stop.serviceStart] })
+    if (stop.kind === 'shipper') {
+      bounds.push({
+        key: 'loading',
+        bounds: [stop.serviceStart, stop.departure],
+      })
+    } else if (stop.kind === 'receiver') {
+      bounds.push({
+        key: 'unloading',
+        bounds: [stop.serviceStart, stop.departure],
+      })
+    }
+  })
+
+  return bounds
+}
+
 function buildTripPhases(trip: TripPlan, baseColor: string): TripPhase[] {
   const phases: TripPhase[] = []
   const start = trip.schedule.startTime
 
-  phaseDefinitions.forEach((definition) => {
-    const [phaseStart, phaseEnd] = definition.bounds(trip.schedule)
+  collectPhaseBounds(trip).forEach(({ key, bounds }, index) => {
+    const definition = phaseDefinitions.find((item) => item.key === key)
+    const [phaseStart, phaseEnd] = bounds
     const duration = Math.max(phaseEnd - phaseStart, 0)
-    if (duration <= 1e-4) {
+    if (!definition || duration <= 1e-4) {
       return
     }
 
     phases.push({
-      key: definition.key,
+      key: `${definition.key}-${index}`,
       label: definition.label,
       color: definition.color(baseColor),
       duration,
@@ -228,7 +339,159 @@ function buildPhaseLegend(baseColor: string) {
   }))
 }
 
-export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
+const IMAGE_WIDTH = 1200
+const IMAGE_PADDING = 24
+const IMAGE_LABEL_WIDTH = 180
+const IMAGE_ROW_HEIGHT = 44
+const IMAGE_ROW_GAP = 8
+
+interface GanttImageInput {
+  tracks: Array<{ vehicle: VehicleSchedule; timeline: VehicleTimeline }>
+  axis: TimeAxisConfig
+  colorMap: Map<string, RequestLegendEntry>
+  requestLegend: ImageLegendItem[]
+  conflictsByTrip: Map<string, Diagnostic[]>
+  t: Translate
+}
+
+// Standalone SVG version of the chart: time axis, one bar row per vehicle
+// and the legends, without the interactive details of the DOM version.
+function renderGanttImage({
+  tracks,
+  axis,
+  colorMap,
+  requestLegend,
+  conflictsByTrip,
+  t,
+}: GanttImageInput): ChartImage {
+  const timelineLeft = IMAGE_PADDING + IMAGE_LABEL_WIDTH
+  const timelineWidth = IMAGE_WIDTH - IMAGE_PADDING - timelineLeft
+  const scale = timelineWidth / (axis.axisEnd || 1)
+  const x = (time: number) => (timelineLeft + time * scale).toFixed(1)
+  const rowsTop = 112
+  const rowsHeight =
+    tracks.length * IMAGE_ROW_HEIGHT +
+    Math.max(tracks.length - 1, 0) * IMAGE_ROW_GAP
+  const parts: string[] = [
+    `<text x="${IMAGE_PADDING}" y="32" font-size="18" font-weight="600" fill="#111827">${escapeSvgText(t('gantt.title'))}</text>`,
+    `<text x="${IMAGE_PADDING}" y="${rowsTop - 12}" font-size="11" font-weight="600" fill="#6b7280">${escapeSvgText(t('gantt.fleet').toUpperCase())}</text>`,
+  ]
+
+  if (axis.days > 1) {
+    for (let day = 0; day < axis.days; day += 1) {
+      parts.push(
+        `<text x="${x(day * HOURS_IN_DAY)}" y="64" font-size="11" font-weight="600" fill="#6b7280">${escapeSvgText(t('gantt.day', { day: day + 1 }).toUpperCase())}</text>`,
+      )
+    }
+  } else {
+    parts.push(
+      `<text x="${timelineLeft}" y="64" font-size="11" font-weight="600" fill="#6b7280">${escapeSvgText(t('gantt.timeAxis').toUpperCase())}</text>`,
+    )
+  }
+
+  axis.ticks.forEach((tick, index) => {
+    const anchor =
+      index === 0 ? 'start' : index === axis.ticks.length - 1 ? 'end' : 'middle'
+    const isDayBoundary = axis.days > 1 && tick > 0 && tick % HOURS_IN_DAY === 0
+    parts.push(
+      `<text x="${x(tick)}" y="88" font-size="11" text-anchor="${anchor}" fill="#6b7280">${formatTick(tick, axis)}</text>`,
+      `<line x1="${x(tick)}" y1="94" x2="${x(tick)}" y2="${rowsTop + rowsHeight}" stroke="${isDayBoundary ? '#64748b' : '#e5e7eb'}" stroke-width="1"/>`,
+    )
+  })
+
+  tracks.forEach(({ vehicle, timeline }, rowIndex) => {
+    const top = rowsTop + rowIndex * (IMAGE_ROW_HEIGHT + IMAGE_ROW_GAP)
+    parts.push(
+      `<text x="${IMAGE_PADDING}" y="${top + 18}" font-size="13" font-weight="600" fill="#374151">${escapeSvgText(t('gantt.vehicle', { id: vehicle.vehicleId }))}</text>`,
+      `<text x="${IMAGE_PADDING}" y="${top + 34}" font-size="11" fill="#6b7280">${escapeSvgText(vehicle.vehicleType.name)}</text>`,
+      `<rect x="${timelineLeft}" y="${top}" width="${timelineWidth}" height="${IMAGE_ROW_HEIGHT}" rx="6" fill="#ffffff" fill-opacity="0.6" stroke="#e5e7eb"/>`,
+    )
+
+    for (const segment of timeline.segments) {
+      if (segment.type === 'break') {
+        parts.push(
+          `<rect x="${x(segment.start)}" y="${top + 4}" width="${((segment.end - segment.start) * scale).toFixed(1)}" height="${IMAGE_ROW_HEIGHT - 8}" rx="3" fill="#d1fae5" stroke="#6ee7b7"/>`,
+        )
+      }
+      if (segment.type !== 'trip') {
+        continue
+      }
+      const { trip } = segment
+      const baseColor = colorMap.get(trip.requestId)?.color ?? '#2563eb'
+      const start = trip.schedule.startTime
+      const width = Math.max(trip.schedule.endTime - start, 0) * scale
+      for (const phase of buildTripPhases(trip, baseColor)) {
+        parts.push(
+          `<rect x="${x(start + phase.startOffset)}" y="${top + 4}" width="${(phase.duration * scale).toFixed(1)}" height="${IMAGE_ROW_HEIGHT - 8}" fill="${phase.color}"/>`,
+        )
+      }
+      if (conflictsByTrip.has(trip.id)) {
+        parts.push(
+          `<rect x="${x(start)}" y="${top + 4}" width="${width.toFixed(1)}" height="${IMAGE_ROW_HEIGHT - 8}" fill="none" stroke="#ef4444" stroke-width="2"/>`,
+        )
+      }
+      const label = t('gantt.trip', { number: trip.tripNumber })
+      // Labels that would overflow a short bar are left out.
+      if (width >= label.length * 6.5 + 12) {
+        parts.push(
+          `<text x="${(timelineLeft + start * scale + 6).toFixed(1)}" y="${top + IMAGE_ROW_HEIGHT / 2 + 4}" font-size="11" font-weight="600" fill="#ffffff">${escapeSvgText(label)}</text>`,
+        )
+      }
+    }
+  })
+
+  const legendWidth = IMAGE_WIDTH - IMAGE_PADDING * 2
+  let legendTop = rowsTop + rowsHeight + 24
+  const legends: Array<[string, ImageLegendItem[]]> = [
+    [t('gantt.requestLegend'), requestLegend],
+    [
+      t('gantt.phaseLegend'),
+      [
+        ...buildPhaseLegend('#2563eb').map((phase) => ({
+          label: t(phase.label),
+          color: phase.color,
+          swatch: 'box' as const,
+        })),
+        { label: t('gantt.driverBreak'), color: '#6ee7b7', swatch: 'box' },
+        { label: t('gantt.conflict'), color: '#ef4444', swatch: 'line' },
+      ],
+    ],
+  ]
+  for (const [title, items] of legends) {
+    if (items.length === 0) {
+      continue
+    }
+    const legend = renderImageLegend(
+      title,
+      items,
+      IMAGE_PADDING,
+      legendTop,
+      legendWidth,
+    )
+    parts.push(legend.markup)
+    legendTop += legend.height + 8
+  }
+
+  const height = Math.ceil(legendTop + IMAGE_PADDING)
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_WIDTH}" height="${height}" viewBox="0 0 ${IMAGE_WIDTH} ${height}" font-family="${IMAGE_FONT}"><rect width="100%" height="100%" fill="#ffffff"/>${parts.join('')}</svg>`,
+    width: IMAGE_WIDTH,
+    height,
+  }
+}
+
+export function GanttChart({
+  vehicles,
+  colorMap,
+  horizon,
+  conflicts = [],
+  onMoveTrip,
+  onToggleTripLock,
+  cursorTime = null,
+}: GanttChartProps) {
+  const { locale, t } = useI18n()
+  const [drag, setDrag] = useState<TripDrag | null>(null)
+  const [dropTarget, setDropTarget] = useState<TripPlacement | null>(null)
   const maxTime = Math.max(
     horizon,
     ...vehicles.map((vehicle) =>
@@ -239,7 +502,13 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
     ),
   )
 
-  const axis = buildTimeAxis(maxTime)
+  const days = Math.max(
+    1,
+    ...vehicles.flatMap((vehicle) =>
+      vehicle.trips.map((trip) => trip.schedule.day + 1),
+    ),
+  )
+  const axis = buildTimeAxis(maxTime, days)
 
   const vehicleTracks = vehicles.map((vehicle) => ({
     vehicle,
@@ -275,8 +544,76 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
 
   const phaseLegend = buildPhaseLegend('#2563eb')
 
+  const conflictsByTrip = new Map<string, Diagnostic[]>()
+  for (const conflict of [
+    ...conflicts,
+    ...vehicles.flatMap((vehicle) => vehicle.violations),
+  ]) {
+    if (conflict.tripId) {
+      conflictsByTrip.set(conflict.tripId, [
+        ...(conflictsByTrip.get(conflict.tripId) ?? []),
+        conflict,
+      ])
+    }
+  }
+
+  const dragHandlers: TripDragHandlers | null = onMoveTrip
+    ? {
+        drag,
+        onDragStart: setDrag,
+        onDragEnd: () => {
+          setDrag(null)
+          setDropTarget(null)
+        },
+        onToggleLock: onToggleTripLock,
+      }
+    : null
+
+  const placementAt = (
+    event: DragEvent<HTMLElement>,
+    vehicleId: number,
+  ): TripPlacement | null => {
+    if (!drag) {
+      return null
+    }
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const time =
+      ((event.clientX - bounds.left) / bounds.width) * axis.axisEnd -
+      drag.grabOffset
+    return {
+      vehicleId,
+      startTime: Math.max(Math.round(time / SNAP_STEP) * SNAP_STEP, 0),
+    }
+  }
+
+  const handleDragOver = (event: DragEvent<HTMLElement>, vehicleId: number) => {
+    const placement = placementAt(event, vehicleId)
+    if (!placement) {
+      return
+    }
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    setDropTarget((current) =>
+      current?.vehicleId === placement.vehicleId &&
+      current.startTime === placement.startTime
+        ? current
+        : placement,
+    )
+  }
+
+  const handleDrop = (event: DragEvent<HTMLElement>, vehicleId: number) => {
+    const placement = placementAt(event, vehicleId)
+    if (!drag || !placement || !onMoveTrip) {
+      return
+    }
+    event.preventDefault()
+    onMoveTrip(drag.tripId, placement)
+    setDrag(null)
+    setDropTarget(null)
+  }
+
   const formatPercent = (value: number) =>
-    (value * 100).toLocaleString('ru-RU', {
+    (value * 100).toLocaleString(localeTags[locale], {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     })
@@ -284,7 +621,7 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
   if (vehicles.length === 0 || maxTime === 0) {
     return (
       <div className='rounded-lg border border-dashed p-6 text-sm text-muted-foreground'>
-        Добавьте заявки и выполните расчёт, чтобы увидеть диаграмму Ганта.
+        {t('gantt.empty')}
       </div>
     )
   }
@@ -298,22 +635,48 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
   return (
     <div className='space-y-4'>
       <div className='flex flex-wrap items-center justify-between gap-2'>
-        <h3 className='text-lg font-semibold'>Диаграмма Ганта</h3>
-        <div className='text-sm text-muted-foreground'>
-          Горизонт отображения: {axis.axisEnd.toFixed(2)} ч
+        <h3 className='text-lg font-semibold'>{t('gantt.title')}</h3>
+        <div className='flex flex-wrap items-center gap-3'>
+          <div className='text-sm text-muted-foreground'>
+            {t('gantt.horizon', { hours: formatHours(axis.axisEnd, locale) })}
+            {axis.days > 1 && t('gantt.horizonDays', { days: axis.days })}
+          </div>
+          <ImageExportButtons
+            fileName='gantt-chart'
+            createImage={() =>
+              renderGanttImage({
+                tracks: vehicleTracks,
+                axis,
+                colorMap,
+                requestLegend: legendEntries.map((entry) => ({
+                  label: entry.label,
+                  color: entry.color,
+                  swatch: 'box',
+                })),
+                conflictsByTrip,
+                t,
+              })
+            }
+          />
         </div>
       </div>
+      {onMoveTrip && (
+        <p className='text-sm text-muted-foreground'>{t('gantt.dragHint')}</p>
+      )}
       <div className='grid gap-3 rounded-xl border bg-card p-4 shadow-sm sm:grid-cols-3'>
-        <SummaryStat label='Автомобилей в работе' value={vehicles.length} />
         <SummaryStat
-          label='Средняя загрузка'
+          label={t('gantt.activeVehicles')}
+          value={vehicles.length}
+        />
+        <SummaryStat
+          label={t('gantt.averageLoad')}
           value={`${formatPercent(averageUtilization)}%`}
-          hint='Доля времени, в течение которого автомобили задействованы в рейсах'
+          hint={t('gantt.averageLoad.hint')}
         />
         <SummaryStat
-          label='Баланс занятости'
-          value={`${formatHours(totalBusyTime)} ч / ${formatHours(totalIdleTime)} ч`}
-          hint='Общее время занятости и простоя по автопарку'
+          label={t('gantt.balance')}
+          value={`${t('common.hours', { value: formatHours(totalBusyTime, locale) })} / ${t('common.hours', { value: formatHours(totalIdleTime, locale) })}`}
+          hint={t('gantt.balance.hint')}
         />
       </div>
       <div className='overflow-x-auto rounded-xl border bg-card p-4 shadow-sm'>
@@ -324,7 +687,7 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
                 className='flex h-[56px] items-end pb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground'
                 style={{ height: HEADER_HEIGHT }}
               >
-                Автопарк
+                {t('gantt.fleet')}
               </div>
               <div className='flex flex-col' style={{ gap: `${ROW_GAP}px` }}>
                 {vehicleTracks.map(({ vehicle, timeline }) => (
@@ -345,6 +708,13 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
                   style={{ minHeight: timelineContentHeight }}
                 >
                   <TimelineGrid axis={axis} height={timelineContentHeight} />
+                  {cursorTime !== null && (
+                    <TimelineCursor
+                      time={cursorTime}
+                      axisEnd={axis.axisEnd}
+                      height={timelineContentHeight}
+                    />
+                  )}
                   <div
                     className='flex flex-col'
                     style={{ gap: `${ROW_GAP}px` }}
@@ -356,6 +726,18 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
                         colorMap={colorMap}
                         segments={timeline.segments}
                         height={ROW_HEIGHT}
+                        label={t('gantt.vehicle', { id: vehicle.vehicleId })}
+                        conflictsByTrip={conflictsByTrip}
+                        dragHandlers={dragHandlers}
+                        dropTime={
+                          dropTarget?.vehicleId === vehicle.vehicleId
+                            ? dropTarget.startTime
+                            : null
+                        }
+                        onDragOver={(event) =>
+                          handleDragOver(event, vehicle.vehicleId)
+                        }
+                        onDrop={(event) => handleDrop(event, vehicle.vehicleId)}
                       />
                     ))}
                   </div>
@@ -367,7 +749,9 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
       </div>
       {legendEntries.length > 0 && (
         <div className='flex flex-wrap gap-3 rounded-lg border border-border bg-muted/40 p-3 text-xs text-muted-foreground'>
-          <span className='font-semibold text-foreground'>Легенда заявок:</span>
+          <span className='font-semibold text-foreground'>
+            {t('gantt.requestLegend')}
+          </span>
           {legendEntries.map((entry) => (
             <span key={entry.requestId} className='flex items-center gap-2'>
               <span
@@ -381,7 +765,9 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
         </div>
       )}
       <div className='flex flex-wrap gap-3 rounded-lg border border-border bg-muted/40 p-3 text-xs text-muted-foreground'>
-        <span className='font-semibold text-foreground'>Этапы рейса:</span>
+        <span className='font-semibold text-foreground'>
+          {t('gantt.phaseLegend')}
+        </span>
         {phaseLegend.map((phase) => (
           <span key={phase.key} className='flex items-center gap-2'>
             <span
@@ -389,9 +775,23 @@ export function GanttChart({ vehicles, colorMap, horizon }: GanttChartProps) {
               style={{ backgroundColor: phase.color }}
               aria-hidden
             />
-            {phase.label}
+            {t(phase.label)}
           </span>
         ))}
+        <span className='flex items-center gap-2'>
+          <span
+            className='h-3 w-3 rounded-sm border border-emerald-300 bg-emerald-100'
+            aria-hidden
+          />
+          {t('gantt.driverBreak')}
+        </span>
+        <span className='flex items-center gap-2'>
+          <span
+            className='h-3 w-3 rounded-sm bg-slate-200 ring-2 ring-red-500'
+            aria-hidden
+          />
+          {t('gantt.conflict')}
+        </span>
       </div>
     </div>
   )
@@ -408,8 +808,9 @@ function VehicleInfoPanel({
   timeline,
   height,
 }: VehicleInfoPanelProps) {
+  const { locale, t } = useI18n()
   const formatPercent = (value: number) =>
-    (value * 100).toLocaleString('ru-RU', {
+    (value * 100).toLocaleString(localeTags[locale], {
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     })
@@ -419,16 +820,37 @@ function VehicleInfoPanel({
       className='flex flex-col justify-center rounded-lg border border-border/60 bg-muted/40 px-3 py-2 shadow-inner'
       style={{ height }}
     >
-      <div className='text-sm font-semibold text-muted-foreground'>
-        Автомобиль #{vehicle.vehicleId}
+      <div className='flex items-center justify-between gap-2 text-sm font-semibold text-muted-foreground'>
+        <span>{t('gantt.vehicle', { id: vehicle.vehicleId })}</span>
+        {vehicle.violations.length > 0 && (
+          <span
+            className='rounded-sm bg-amber-100 px-1.5 text-[10px] font-semibold text-amber-700'
+            title={vehicle.violations
+              .map((violation) => formatDiagnostic(violation, locale))
+              .join('\n')}
+          >
+            {t('gantt.violations', { count: vehicle.violations.length })}
+          </span>
+        )}
+      </div>
+      <div className='text-xs text-muted-foreground/80'>
+        {t('gantt.vehicleDetails', {
+          name: vehicle.vehicleType.name,
+          capacity: vehicle.vehicleType.capacity.toFixed(1),
+          depot: vehicle.homeDepot.name,
+        })}
       </div>
       <div className='mt-1 text-xs text-muted-foreground/80'>
-        {vehicle.trips.length} рейс(а), пробег{' '}
-        {formatDistance(vehicle.totalDistance)} км
+        {t('gantt.vehicleTrips', {
+          count: vehicle.trips.length,
+          distance: formatDistance(vehicle.totalDistance, locale),
+        })}
       </div>
       <div className='text-xs text-muted-foreground/80'>
-        Занятость {formatPercent(timeline.utilization)}%, простой{' '}
-        {formatHours(timeline.idleTime)} ч
+        {t('gantt.vehicleBusy', {
+          percent: formatPercent(timeline.utilization),
+          idle: formatHours(timeline.idleTime, locale),
+        })}
       </div>
     </div>
   )
@@ -439,6 +861,13 @@ interface VehicleTimelineRowProps {
   axisEnd: number
   colorMap: Map<string, RequestLegendEntry>
   height: number
+  label: string
+  conflictsByTrip: Map<string, Diagnostic[]>
+  dragHandlers: TripDragHandlers | null
+  // Start time a dragged trip would get when dropped on this row.
+  dropTime: number | null
+  onDragOver: (event: DragEvent<HTMLElement>) => void
+  onDrop: (event: DragEvent<HTMLElement>) => void
 }
 
 function VehicleTimelineRow({
@@ -446,12 +875,36 @@ function VehicleTimelineRow({
   axisEnd,
   colorMap,
   height,
+  label,
+  conflictsByTrip,
+  dragHandlers,
+  dropTime,
+  onDragOver,
+  onDrop,
 }: VehicleTimelineRowProps) {
+  const { locale, t } = useI18n()
+  const safeAxis = axisEnd || 1
+
   return (
-    <div
-      className='relative overflow-hidden rounded-lg border border-border/70 bg-white shadow-sm'
+    <section
+      className={`relative overflow-hidden rounded-lg border bg-white shadow-sm ${
+        dropTime === null ? 'border-border/70' : 'border-primary'
+      }`}
       style={{ height }}
+      aria-label={label}
+      onDragOver={dragHandlers ? onDragOver : undefined}
+      onDrop={dragHandlers ? onDrop : undefined}
     >
+      {dropTime !== null && (
+        <div
+          className='pointer-events-none absolute inset-y-0 z-20 border-l-2 border-primary'
+          style={{ left: `${(dropTime / safeAxis) * 100}%` }}
+        >
+          <span className='ml-1 rounded-sm bg-primary px-1 text-[10px] font-semibold text-primary-foreground tabular-nums'>
+            {t('common.hours', { value: formatHours(dropTime, locale) })}
+          </span>
+        </div>
+      )}
       {segments.map((segment) =>
         segment.type === 'trip' ? (
           <TripBlock
@@ -459,6 +912,15 @@ function VehicleTimelineRow({
             trip={segment.trip}
             colorMap={colorMap}
             axisEnd={axisEnd}
+            conflicts={conflictsByTrip.get(segment.trip.id) ?? []}
+            dragHandlers={dragHandlers}
+          />
+        ) : segment.type === 'break' ? (
+          <BreakBlock
+            key={`break-${segment.start.toFixed(2)}-${segment.end.toFixed(2)}`}
+            start={segment.start}
+            end={segment.end}
+            axisEnd={axisEnd}
           />
         ) : (
           <IdleBlock
@@ -469,7 +931,7 @@ function VehicleTimelineRow({
           />
         ),
       )}
-    </div>
+    </section>
   )
 }
 
@@ -477,9 +939,18 @@ interface TripBlockProps {
   trip: TripPlan
   colorMap: Map<string, RequestLegendEntry>
   axisEnd: number
+  conflicts: Diagnostic[]
+  dragHandlers: TripDragHandlers | null
 }
 
-function TripBlock({ trip, colorMap, axisEnd }: TripBlockProps) {
+function TripBlock({
+  trip,
+  colorMap,
+  axisEnd,
+  conflicts,
+  dragHandlers,
+}: TripBlockProps) {
+  const { locale, t } = useI18n()
   const legendEntry = colorMap.get(trip.requestId)
   const baseColor = legendEntry?.color ?? '#2563eb'
   const safeAxis = axisEnd || 1
@@ -502,15 +973,24 @@ function TripBlock({ trip, colorMap, axisEnd }: TripBlockProps) {
       ? `linear-gradient(90deg, ${gradientStops})`
       : undefined
 
-  const travelTime = formatHours(trip.timing.travel)
-  const handlingTime = formatHours(trip.timing.loading + trip.timing.unloading)
-  const startTime = formatHours(trip.schedule.startTime)
-  const endTime = formatHours(trip.schedule.endTime)
+  const travelTime = formatHours(trip.timing.travel, locale)
+  const handlingTime = formatHours(
+    trip.timing.loading + trip.timing.unloading,
+    locale,
+  )
+  const waitingTime = formatHours(trip.timing.waiting, locale)
+  const startTime = formatHours(trip.schedule.startTime, locale)
+  const endTime = formatHours(trip.schedule.endTime, locale)
   const warnings = trip.warnings ?? []
+  const dragged = dragHandlers?.drag?.tripId === trip.id
+  const onToggleLock = dragHandlers?.onToggleLock
+  const LockIcon = trip.locked ? Lock : LockOpen
 
   return (
-    <div
-      className='absolute inset-y-2 z-10 flex flex-col gap-1.5 rounded-md px-3 py-2 text-xs text-white shadow-md ring-1 ring-black/5'
+    <article
+      className={`absolute inset-y-2 z-10 flex flex-col gap-1.5 rounded-md px-3 py-2 text-xs text-white shadow-md ${
+        conflicts.length > 0 ? 'ring-2 ring-red-500' : 'ring-1 ring-black/5'
+      } ${dragHandlers ? 'cursor-grab' : ''} ${dragged ? 'opacity-50' : ''}`}
       style={{
         left: `${offset}%`,
         width: `${width}%`,
@@ -519,38 +999,97 @@ function TripBlock({ trip, colorMap, axisEnd }: TripBlockProps) {
           ? undefined
           : darken(baseColor, 0.05),
       }}
-      title={`Рейс ${trip.tripNumber}: ${startTime}–${endTime} ч`}
+      title={[
+        t('gantt.tripTitle', {
+          number: trip.tripNumber,
+          start: startTime,
+          end: endTime,
+        }),
+        ...conflicts.map((conflict) => formatDiagnostic(conflict, locale)),
+      ].join('\n')}
+      aria-label={t('gantt.trip', { number: trip.tripNumber })}
+      draggable={dragHandlers !== null}
+      onDragStart={(event) => {
+        const row = event.currentTarget.parentElement
+        if (!dragHandlers || !row) {
+          return
+        }
+        const block = event.currentTarget.getBoundingClientRect()
+        event.dataTransfer.effectAllowed = 'move'
+        event.dataTransfer.setData('text/plain', trip.id)
+        dragHandlers.onDragStart({
+          tripId: trip.id,
+          grabOffset:
+            ((event.clientX - block.left) / row.getBoundingClientRect().width) *
+            safeAxis,
+        })
+      }}
+      onDragEnd={dragHandlers?.onDragEnd}
     >
-      <div className='flex items-center justify-between text-[11px] font-semibold uppercase tracking-wide text-white/85'>
-        <span>Рейс #{trip.tripNumber}</span>
+      <div className='flex items-center justify-between gap-2 text-[11px] font-semibold uppercase tracking-wide text-white/85'>
+        <span className='flex items-center gap-1'>
+          {onToggleLock ? (
+            <button
+              type='button'
+              className='rounded-sm p-0.5 hover:bg-white/20'
+              title={t(trip.locked ? 'gantt.unlock' : 'gantt.lock')}
+              aria-pressed={trip.locked === true}
+              onClick={() => onToggleLock(trip.id)}
+            >
+              <LockIcon className='size-3' aria-hidden />
+            </button>
+          ) : (
+            trip.locked && (
+              <Lock
+                className='size-3'
+                aria-label={t('gantt.locked')}
+                role='img'
+              />
+            )
+          )}
+          {t('gantt.trip', { number: trip.tripNumber })}
+        </span>
         <span className='tabular-nums'>
-          {startTime} – {endTime} ч
+          {t('gantt.tripTime', { start: startTime, end: endTime })}
         </span>
       </div>
       <div className='text-[11px] font-medium leading-tight text-white/90'>
         {trip.requestLabel}
       </div>
       <div className='text-[10px] text-white/85'>
-        АТП → {trip.shipperCode} → {trip.receiverCode} → АТП
+        {describeTripRoute(trip, locale)}
       </div>
       <div className='flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] font-medium text-white/85'>
-        <span className='tabular-nums'>Т: {trip.load.toFixed(2)} т</span>
         <span className='tabular-nums'>
-          П: {formatDistance(trip.distances.total)} км
+          {t('gantt.load', { value: trip.load.toFixed(2) })}
+        </span>
+        <span className='tabular-nums'>
+          {t('gantt.distance', {
+            value: formatDistance(trip.distances.total, locale),
+          })}
+        </span>
+        <span className='tabular-nums'>
+          {t('gantt.handling', { value: handlingTime })}
         </span>
-        <span className='tabular-nums'>Р: {handlingTime} ч</span>
-        <span className='tabular-nums'>В пути: {travelTime} ч</span>
+        <span className='tabular-nums'>
+          {t('gantt.travel', { value: travelTime })}
+        </span>
+        {trip.timing.waiting > 1e-4 && (
+          <span className='tabular-nums'>
+            {t('gantt.waiting', { value: waitingTime })}
+          </span>
+        )}
       </div>
       {warnings.length > 0 && (
         <div className='rounded-sm border border-amber-300/60 bg-amber-400/30 px-2 py-1 text-[10px] font-semibold text-white shadow-inner'>
           {warnings.map((warning, index) => (
             <div key={`${trip.id}-warning-${index}`} className='leading-tight'>
-              {warning}
+              {formatDiagnostic(warning, locale)}
             </div>
           ))}
         </div>
       )}
-    </div>
+    </article>
   )
 }
 
@@ -561,10 +1100,11 @@ interface IdleBlockProps {
 }
 
 function IdleBlock({ start, end, axisEnd }: IdleBlockProps) {
+  const { locale, t } = useI18n()
   const safeAxis = axisEnd || 1
   const offset = (start / safeAxis) * 100
   const width = ((end - start) / safeAxis) * 100
-  const duration = formatHours(end - start)
+  const duration = formatHours(end - start, locale)
 
   return (
     <div
@@ -573,11 +1113,55 @@ function IdleBlock({ start, end, axisEnd }: IdleBlockProps) {
         left: `${offset}%`,
         width: `${width}%`,
       }}
-      title={`Простой: ${start.toFixed(2)} – ${end.toFixed(2)} ч (${duration} ч)`}
+      title={t('gantt.idleTitle', {
+        start: start.toFixed(2),
+        end: end.toFixed(2),
+        duration,
+      })}
     >
-      <span className='whitespace-nowrap uppercase tracking-wide'>Простой</span>
+      <span className='whitespace-nowrap uppercase tracking-wide'>
+        {t('gantt.idle')}
+      </span>
       <span className='whitespace-nowrap overflow-hidden text-ellipsis text-slate-500/80'>
-        {duration} ч
+        {t('common.hours', { value: duration })}
+      </span>
+    </div>
+  )
+}
+
+interface BreakBlockProps {
+  start: number
+  end: number
+  axisEnd: number
+}
+
+function BreakBlock({ start, end, axisEnd }: BreakBlockProps) {
+  const { locale, t } = useI18n()
+  const safeAxis = axisEnd || 1
+  const offset = (start / safeAxis) * 100
+  const width = ((end - start) / safeAxis) * 100
+  const duration = formatHours(end - start, locale)
+
+  return (
+    <div
+      className='absolute inset-y-3 z-0 flex items-center justify-center gap-2 rounded-md border border-emerald-300/80 bg-emerald-100/90 px-2 text-[10px] font-medium text-emerald-700'
+      style={{
+        left: `${offset}%`,
+        width: `${width}%`,
+        backgroundImage:
+          'repeating-linear-gradient(135deg, transparent 0 6px, rgba(16, 185, 129, 0.18) 6px 12px)',
+      }}
+      title={t('gantt.breakTitle', {
+        start: start.toFixed(2),
+        end: end.toFixed(2),
+        duration,
+      })}
+    >
+      <span className='whitespace-nowrap uppercase tracking-wide'>
+        {t('gantt.break')}
+      </span>
+      <span className='whitespace-nowrap overflow-hidden text-ellipsis text-emerald-700/80'>
+        {t('common.hours', { value: duration })}
       </span>
     </div>
   )
@@ -607,10 +1191,14 @@ function TimelineGrid({ axis, height }: TimelineGridProps) {
         }
 
         const position = (tick / safeAxis) * 100
+        const isDayBoundary =
+          axis.days > 1 && tick > 0 && tick % HOURS_IN_DAY === 0
         return (
           <div
             key={`grid-${tick}`}
-            className='absolute top-0 bottom-0 w-px bg-border/60'
+            className={`absolute top-0 bottom-0 w-px ${
+              isDayBoundary ? 'bg-foreground/40' : 'bg-border/60'
+            }`}
             style={{ left: `${position}%` }}
           />
         )
@@ -619,11 +1207,37 @@ function TimelineGrid({ axis, height }: TimelineGridProps) {
   )
 }
 
+interface TimelineCursorProps {
+  time: number
+  axisEnd: number
+  height: number
+}
+
+function TimelineCursor({ time, axisEnd, height }: TimelineCursorProps) {
+  if (height <= 0 || axisEnd <= 0) {
+    return null
+  }
+
+  return (
+    <div
+      className='pointer-events-none absolute inset-x-6 top-4 z-20'
+      style={{ height: Math.max(height, 1) }}
+      aria-hidden
+    >
+      <div
+        className='absolute top-0 bottom-0 w-0.5 -translate-x-1/2 bg-rose-500'
+        style={{ left: `${clamp(time / axisEnd) * 100}%` }}
+      />
+    </div>
+  )
+}
+
 interface TimelineAxisProps {
   axis: TimeAxisConfig
 }
 
 function TimelineAxis({ axis }: TimelineAxisProps) {
+  const { t } = useI18n()
   const safeAxis = axis.axisEnd || 1
 
   return (
@@ -631,13 +1245,27 @@ function TimelineAxis({ axis }: TimelineAxisProps) {
       className='relative h-[56px] border-b border-border/70 px-6 text-[11px] text-muted-foreground'
       style={{ minHeight: HEADER_HEIGHT }}
     >
-      <span className='absolute left-6 top-2 font-semibold uppercase tracking-wide text-muted-foreground'>
-        Время, ч
-      </span>
+      {axis.days > 1 ? (
+        <div className='absolute inset-x-6 top-2'>
+          {Array.from({ length: axis.days }, (_, day) => day).map((day) => (
+            <span
+              key={day}
+              className='absolute font-semibold uppercase tracking-wide text-muted-foreground'
+              style={{ left: `${((day * HOURS_IN_DAY) / safeAxis) * 100}%` }}
+            >
+              {t('gantt.day', { day: day + 1 })}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <span className='absolute left-6 top-2 font-semibold uppercase tracking-wide text-muted-foreground'>
+          {t('gantt.timeAxis')}
+        </span>
+      )}
       <div className='absolute inset-x-6 bottom-0 flex h-[32px] items-end'>
         <div className='relative flex-1'>
           {axis.ticks.map((tick, index) => {
-            const label = tick.toFixed(Number.isInteger(tick) ? 0 : 1)
+            const label = formatTick(tick, axis)
 
             if (index === 0) {
               return (
@@ -688,9 +1316,10 @@ interface SummaryStatProps {
 }
 
 function SummaryStat({ label, value, hint }: SummaryStatProps) {
+  const { locale } = useI18n()
   const displayValue =
     typeof value === 'number'
-      ? value.toLocaleString('ru-RU', {
+      ? value.toLocaleString(localeTags[locale], {
           minimumFractionDigits: 0,
           maximumFractionDigits: 0,
         })
@@ -0,0 +1,92 @@
+'use client'
+
+import type { GridConfig } from '@entities'
+import { getColumnLabels, MAX_GRID_SIZE } from '@entities'
+import { useState } from 'react'
+import { useI18n } from '../lib/i18n'
+
+interface GridSettingsProps {
+  grid: GridConfig
+  onChange: (grid: GridConfig) => void
+}
+
+function parseColumnLabels(value: string): string[] | null {
+  const labels = value
+    .split(/[\s,;]+/)
+    .map((label) => label.trim().toUpperCase())
+    .filter(Boolean)
+  return labels.length > 0 ? labels : null
+}
+
+export function GridSettings({ grid, onChange }: GridSettingsProps) {
+  const { t } = useI18n()
+  const [labelsText, setLabelsText] = useState(
+    grid.columnLabels?.join(', ') ?? '',
+  )
+  const previewLabels = getColumnLabels(grid)
+  const preview =
+    previewLabels.length > 6
+      ? `${previewLabels.slice(0, 3).join(', ')} … ${previewLabels.slice(-2).join(', ')}`
+      : previewLabels.join(', ')
+
+  const handleSizeChange = (field: 'columns' | 'rows', value: number) => {
+    onChange({ ...grid, [field]: Math.min(Math.round(value), MAX_GRID_SIZE) })
+  }
+
+  return (
+    <div className='grid gap-4 md:grid-cols-3'>
+      <label className='space-y-2'>
+        <span className='block text-sm font-medium text-muted-foreground'>
+          {t('grid.columns')}
+        </span>
+        <input
+          type='number'
+          min={1}
+          max={MAX_GRID_SIZE}
+          step={1}
+          value={grid.columns}
+          onChange={(event) =>
+            handleSizeChange('columns', Number(event.target.value))
+          }
+          className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+        />
+      </label>
+      <label className='space-y-2'>
+        <span className='block text-sm font-medium text-muted-foreground'>
+          {t('grid.rows')}
+        </span>
+        <input
+          type='number'
+          min={1}
+          max={MAX_GRID_SIZE}
+          step={1}
+          value={grid.rows}
+          onChange={(event) =>
+            handleSizeChange('rows', Number(event.target.value))
+          }
+          className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+        />
+      </label>
+      <label className='space-y-2'>
+        <span className='block text-sm font-medium text-muted-foreground'>
+          {t('grid.columnLabels')}
+        </span>
+        <input
+          value={labelsText}
+          onChange={(event) => {
+            setLabelsText(event.target.value)
+            onChange({
+              ...grid,
+              columnLabels: parseColumnLabels(event.target.value),
+            })
+          }}
+          placeholder={t('grid.columnLabelsPlaceholder')}
+          className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+        />
+        <span className='block text-xs text-muted-foreground'>
+          {t('grid.preview', { columns: preview, rows: grid.rows })}
+        </span>
+      </label>
+    </div>
+  )
+}
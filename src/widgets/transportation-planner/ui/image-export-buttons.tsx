@@ -0,0 +1,58 @@
+'use client'
+
+import { Button } from '@shared/ui/button'
+import { ImageDown } from 'lucide-react'
+import { useState } from 'react'
+import { type ChartImage, downloadChartImage } from '../lib/chart-image'
+import { useI18n } from '../lib/i18n'
+
+interface ImageExportButtonsProps {
+  fileName: string
+  // Built on demand so that the image shows the chart as it is at the click.
+  createImage: () => ChartImage | null
+}
+
+export function ImageExportButtons({
+  fileName,
+  createImage,
+}: ImageExportButtonsProps) {
+  const { t } = useI18n()
+  const [failed, setFailed] = useState(false)
+
+  const handleExport = (format: 'svg' | 'png') => {
+    const image = createImage()
+    if (!image) {
+      return
+    }
+    setFailed(false)
+    downloadChartImage(image, fileName, format).catch(() => setFailed(true))
+  }
+
+  return (
+    <div className='flex flex-wrap items-center gap-2'>
+      <Button
+        type='button'
+        variant='outline'
+        size='sm'
+        onClick={() => handleExport('svg')}
+        title={t('image.svgHint')}
+      >
+        <ImageDown className='size-4' />
+        {t('image.svg')}
+      </Button>
+      <Button
+        type='button'
+        variant='outline'
+        size='sm'
+        onClick={() => handleExport('png')}
+        title={t('image.pngHint')}
+      >
+        <ImageDown className='size-4' />
+        {t('image.png')}
+      </Button>
+      {failed && (
+        <span className='text-xs text-destructive'>{t('image.failed')}</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import type { RequestInfeasibility } from '@entities'
+import {
+  formatHours,
+  infeasibilityReasonLabels,
+  requestPriorityLabels,
+} from '@entities'
+import { useI18n } from '../lib/i18n'
+
+interface InfeasibilityPanelProps {
+  items: RequestInfeasibility[]
+}
+
+export function InfeasibilityPanel({ items }: InfeasibilityPanelProps) {
+  const { locale, t } = useI18n()
+
+  if (items.length === 0) {
+    return (
+      <section className='rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-900'>
+        <h3 className='font-semibold'>{t('infeasibility.title')}</h3>
+        <p className='mt-1'>{t('infeasibility.allOnTime')}</p>
+      </section>
+    )
+  }
+
+  return (
+    <section className='rounded-xl border border-destructive/40 bg-destructive/5 p-4 text-sm'>
+      <h3 className='font-semibold text-destructive'>
+        {t('infeasibility.count', { count: items.length })}
+      </h3>
+      <div className='mt-3 overflow-x-auto'>
+        <table className='min-w-full divide-y divide-border'>
+          <thead>
+            <tr>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('infeasibility.request')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('infeasibility.priority')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('infeasibility.deadline')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('infeasibility.completion')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('infeasibility.delay')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('infeasibility.reasons')}
+              </th>
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-border'>
+            {items.map((item) => (
+              <tr key={item.requestId}>
+                <td className='px-3 py-2'>{item.requestLabel}</td>
+                <td className='px-3 py-2'>
+                  {requestPriorityLabels[locale][item.priority]}
+                </td>
+                <td className='px-3 py-2'>
+                  {item.deadline === null
+                    ? '—'
+                    : formatHours(item.deadline, locale)}
+                </td>
+                <td className='px-3 py-2'>
+                  {formatHours(item.completionTime, locale)}
+                </td>
+                <td className='px-3 py-2 font-medium text-destructive'>
+                  {formatHours(item.delay, locale)}
+                </td>
+                <td className='px-3 py-2'>
+                  {item.reasons
+                    .map((reason) => infeasibilityReasonLabels[locale][reason])
+                    .join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,29 @@
+'use client'
+
+import type { Locale } from '@entities'
+import { isLocale, localeNames, useI18n } from '../lib/i18n'
+
+export function LocaleSwitch() {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <label className='flex items-center gap-2 text-sm text-muted-foreground'>
+      {t('common.locale')}
+      <select
+        className='rounded-md border border-input bg-transparent px-2 py-1.5 text-sm outline-none focus:border-primary'
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) {
+            setLocale(event.target.value)
+          }
+        }}
+      >
+        {(Object.keys(localeNames) as Locale[]).map((option) => (
+          <option key={option} value={option}>
+            {localeNames[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import type { EdgeWeight, RoadNetwork } from '@entities'
+import { Button } from '@shared/ui/button'
+import { useState } from 'react'
+import { useI18n } from '../lib/i18n'
+
+interface NetworkSettingsProps {
+  network: RoadNetwork
+  onChange: (network: RoadNetwork) => void
+}
+
+function parseCellList(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean)
+}
+
+function createEdgeWeight(): EdgeWeight {
+  return {
+    id: crypto.randomUUID(),
+    from: '',
+    to: '',
+    weight: 2,
+  }
+}
+
+export function NetworkSettings({ network, onChange }: NetworkSettingsProps) {
+  const { t } = useI18n()
+  const [blockedText, setBlockedText] = useState(
+    network.blockedCells.join(', '),
+  )
+
+  const handleEdgeChange = <K extends keyof EdgeWeight>(
+    id: string,
+    field: K,
+    value: EdgeWeight[K],
+  ) => {
+    onChange({
+      ...network,
+      edgeWeights: network.edgeWeights.map((edge) =>
+        edge.id === id ? { ...edge, [field]: value } : edge,
+      ),
+    })
+  }
+
+  const handleAddEdge = () => {
+    onChange({
+      ...network,
+      edgeWeights: [...network.edgeWeights, createEdgeWeight()],
+    })
+  }
+
+  const handleRemoveEdge = (id: string) => {
+    onChange({
+      ...network,
+      edgeWeights: network.edgeWeights.filter((edge) => edge.id !== id),
+    })
+  }
+
+  return (
+    <div className='space-y-3'>
+      <h3 className='text-base font-semibold'>{t('network.title')}</h3>
+      <label className='block space-y-2'>
+        <span className='block text-sm font-medium text-muted-foreground'>
+          {t('network.blockedCells')}
+        </span>
+        <input
+          value={blockedText}
+          onChange={(event) => {
+            setBlockedText(event.target.value)
+            onChange({
+              ...network,
+              blockedCells: parseCellList(event.target.value),
+            })
+          }}
+          placeholder={t('network.blockedCellsPlaceholder')}
+          className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+        />
+      </label>
+      <div className='flex items-center justify-between'>
+        <span className='text-sm font-medium text-muted-foreground'>
+          {t('network.slowEdges')}
+        </span>
+        <Button type='button' variant='outline' onClick={handleAddEdge}>
+          {t('network.addEdge')}
+        </Button>
+      </div>
+      {network.edgeWeights.length > 0 && (
+        <div className='overflow-x-auto'>
+          <table className='min-w-full divide-y divide-border text-sm'>
+            <thead className='bg-muted/50'>
+              <tr>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('network.from')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('network.to')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('network.weight')}
+                </th>
+                <th className='px-3 py-2' />
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-border'>
+              {network.edgeWeights.map((edge) => (
+                <tr key={edge.id}>
+                  <td className='px-3 py-2'>
+                    <input
+                      className='w-28 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                      value={edge.from}
+                      onChange={(event) =>
+                        handleEdgeChange(
+                          edge.id,
+                          'from',
+                          event.target.value.toUpperCase(),
+                        )
+                      }
+                      placeholder='B2'
+                    />
+                  </td>
+                  <td className='px-3 py-2'>
+                    <input
+                      className='w-28 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                      value={edge.to}
+                      onChange={(event) =>
+                        handleEdgeChange(
+                          edge.id,
+                          'to',
+                          event.target.value.toUpperCase(),
+                        )
+                      }
+                      placeholder='B3'
+                    />
+                  </td>
+                  <td className='px-3 py-2'>
+                    <input
+                      type='number'
+                      min={0.1}
+                      step={0.1}
+                      className='w-28 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                      value={edge.weight}
+                      onChange={(event) =>
+                        handleEdgeChange(
+                          edge.id,
+                          'weight',
+                          Number(event.target.value),
+                        )
+                      }
+                    />
+                  </td>
+                  <td className='px-3 py-2 text-right'>
+                    <Button
+                      type='button'
+                      variant='ghost'
+                      onClick={() => handleRemoveEdge(edge.id)}
+                    >
+                      {t('common.remove')}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
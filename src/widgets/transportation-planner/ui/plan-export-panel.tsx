@@ -0,0 +1,121 @@
+'use client'
+
+import type { PlanResult } from '@entities'
+import {
+  serializePlanCsv,
+  serializePlanJson,
+  serializePlanXlsx,
+  serializeVehicleCalendar,
+} from '@entities'
+import { downloadFile } from '@shared/lib/download'
+import { Button } from '@shared/ui/button'
+import { useState } from 'react'
+import { useI18n } from '../lib/i18n'
+
+interface PlanExportPanelProps {
+  plan: PlanResult
+}
+
+const DEFAULT_SHIFT_HOUR = 8
+
+// Value for a datetime-local input: local time without seconds.
+function toLocalInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+function nextShiftStart(): string {
+  const date = new Date()
+  date.setDate(date.getDate() + 1)
+  date.setHours(DEFAULT_SHIFT_HOUR, 0, 0, 0)
+  return toLocalInputValue(date)
+}
+
+export function PlanExportPanel({ plan }: PlanExportPanelProps) {
+  const { locale, t } = useI18n()
+  const [shiftStart, setShiftStart] = useState(nextShiftStart)
+  const shiftStartDate = new Date(shiftStart)
+  const validShiftStart = !Number.isNaN(shiftStartDate.getTime())
+  const fileDate = new Date().toISOString().slice(0, 10)
+
+  const handleExportCsv = () => {
+    downloadFile(
+      `\ufeff${serializePlanCsv(plan, locale)}`,
+      'operational-plan.csv',
+      'text/csv;charset=utf-8;',
+    )
+  }
+
+  const handleExportXlsx = () => {
+    downloadFile(
+      serializePlanXlsx(plan, locale),
+      `operational-plan-${fileDate}.xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    )
+  }
+
+  const handleExportJson = () => {
+    downloadFile(
+      serializePlanJson(plan),
+      `operational-plan-${fileDate}.json`,
+      'application/json;charset=utf-8;',
+    )
+  }
+
+  const handleExportCalendar = (vehicleId: number) => {
+    const vehicle = plan.vehicles.find((item) => item.vehicleId === vehicleId)
+    if (!vehicle || !validShiftStart) {
+      return
+    }
+    downloadFile(
+      serializeVehicleCalendar(vehicle, shiftStartDate, locale),
+      `vehicle-${vehicleId}-${shiftStart.slice(0, 10)}.ics`,
+      'text/calendar;charset=utf-8;',
+    )
+  }
+
+  return (
+    <section className='rounded-xl border bg-card p-6 shadow-sm'>
+      <h2 className='text-xl font-semibold'>{t('export.title')}</h2>
+      <p className='mb-4 text-sm text-muted-foreground'>{t('export.hint')}</p>
+      <div className='flex flex-wrap gap-3'>
+        <Button type='button' variant='outline' onClick={handleExportCsv}>
+          {t('export.csv')}
+        </Button>
+        <Button type='button' variant='outline' onClick={handleExportXlsx}>
+          {t('export.xlsx')}
+        </Button>
+        <Button type='button' variant='outline' onClick={handleExportJson}>
+          {t('export.json')}
+        </Button>
+      </div>
+
+      <div className='mt-6 space-y-3'>
+        <h3 className='font-semibold'>{t('export.calendar')}</h3>
+        <label className='flex flex-wrap items-center gap-2 text-sm text-muted-foreground'>
+          {t('export.shiftStart')}
+          <input
+            type='datetime-local'
+            className='rounded-md border border-input bg-transparent px-2 py-1.5 text-sm text-foreground outline-none focus:border-primary'
+            value={shiftStart}
+            onChange={(event) => setShiftStart(event.target.value)}
+          />
+        </label>
+        <div className='flex flex-wrap gap-2'>
+          {plan.vehicles.map((vehicle) => (
+            <Button
+              key={vehicle.vehicleId}
+              type='button'
+              variant='outline'
+              size='sm'
+              onClick={() => handleExportCalendar(vehicle.vehicleId)}
+              disabled={!validShiftStart || vehicle.trips.length === 0}
+            >
+              {t('export.vehicleCalendar', { id: vehicle.vehicleId })}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { formatDistance, localeTags } from '@entities'
+import { Button } from '@shared/ui/button'
+import { useI18n } from '../lib/i18n'
+import type { PlanHistoryEntry } from '../lib/plan-storage'
+
+interface PlanHistoryProps {
+  entries: PlanHistoryEntry[]
+  notice: string | null
+  onRestore: (entry: PlanHistoryEntry) => void
+  onDelete: (id: string) => void
+}
+
+export function PlanHistory({
+  entries,
+  notice,
+  onRestore,
+  onDelete,
+}: PlanHistoryProps) {
+  const { locale, t } = useI18n()
+
+  return (
+    <section className='rounded-xl border bg-card p-6 shadow-sm'>
+      <h2 className='mb-4 text-xl font-semibold'>{t('history.title')}</h2>
+      {notice && <p className='mb-3 text-sm text-amber-600'>{notice}</p>}
+      {entries.length === 0 ? (
+        <p className='text-sm text-muted-foreground'>{t('history.empty')}</p>
+      ) : (
+        <div className='max-h-80 overflow-auto'>
+          <table className='min-w-full divide-y divide-border text-sm'>
+            <thead className='bg-muted/50'>
+              <tr>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('history.savedAt')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('history.requests')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('history.vehicles')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('history.distance')}
+                </th>
+                <th className='px-3 py-2' />
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-border'>
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className='px-3 py-2'>
+                    {new Date(entry.savedAt).toLocaleString(localeTags[locale])}
+                  </td>
+                  <td className='px-3 py-2'>{entry.requestCount}</td>
+                  <td className='px-3 py-2'>{entry.vehiclesRequired}</td>
+                  <td className='px-3 py-2'>
+                    {formatDistance(entry.totalDistance, locale)}
+                  </td>
+                  <td className='px-3 py-2 text-right'>
+                    <div className='flex justify-end gap-2'>
+                      <Button
+                        type='button'
+                        variant='outline'
+                        onClick={() => onRestore(entry)}
+                      >
+                        {t('history.restore')}
+                      </Button>
+                      <Button
+                        type='button'
+                        variant='ghost'
+                        onClick={() => onDelete(entry.id)}
+                      >
+                        {t('common.remove')}
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import type { Diagnostic } from '@entities'
+import { formatDiagnostic } from '@entities'
+import { useI18n } from '../lib/i18n'
+
+interface PlanValidationPanelProps {
+  violations: Diagnostic[]
+}
+
+export function PlanValidationPanel({ violations }: PlanValidationPanelProps) {
+  const { locale, t } = useI18n()
+
+  if (violations.length === 0) {
+    return (
+      <section className='rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-900'>
+        <h3 className='font-semibold'>{t('validation.title')}</h3>
+        <p className='mt-1'>{t('validation.passed')}</p>
+      </section>
+    )
+  }
+
+  return (
+    <section className='rounded-xl border border-destructive/40 bg-destructive/5 p-4 text-sm'>
+      <h3 className='font-semibold text-destructive'>
+        {t('validation.count', { count: violations.length })}
+      </h3>
+      <ul className='mt-3 list-disc space-y-1 pl-5'>
+        {violations.map((violation, index) => (
+          <li key={`${violation.code}-${index}`}>
+            {formatDiagnostic(violation, locale)}
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { formatHours, localeTags } from '@entities'
+import { Button } from '@shared/ui/button'
+import { Pause, Play } from 'lucide-react'
+import { useI18n } from '../lib/i18n'
+import type { Playback } from '../lib/use-playback'
+import { PLAYBACK_SPEEDS } from '../lib/use-playback'
+
+interface PlaybackControlsProps {
+  playback: Playback
+}
+
+export function PlaybackControls({ playback }: PlaybackControlsProps) {
+  const { locale, t } = useI18n()
+  const { time, end, playing, speed, seek, toggle, setSpeed } = playback
+
+  return (
+    <div className='flex flex-wrap items-center gap-3 rounded-lg border border-border bg-muted/30 px-3 py-2'>
+      <Button
+        type='button'
+        variant='outline'
+        size='sm'
+        onClick={toggle}
+        aria-label={playing ? t('playback.pause') : t('playback.play')}
+        title={playing ? t('playback.pause') : t('playback.play')}
+      >
+        {playing ? <Pause className='size-4' /> : <Play className='size-4' />}
+      </Button>
+      <input
+        type='range'
+        className='min-w-48 flex-1 accent-primary'
+        min={0}
+        max={end}
+        step={0.05}
+        value={Math.min(time, end)}
+        onChange={(event) => seek(Number(event.target.value))}
+        aria-label={t('playback.time')}
+      />
+      <span className='w-20 text-right text-sm tabular-nums'>
+        {t('common.hours', { value: formatHours(time, locale) })}
+      </span>
+      <label className='flex items-center gap-2 text-sm text-muted-foreground'>
+        {t('playback.speed')}
+        <select
+          className='rounded-md border border-input bg-transparent px-2 py-1.5 text-sm outline-none focus:border-primary'
+          value={speed}
+          onChange={(event) => {
+            const next = PLAYBACK_SPEEDS.find(
+              (option) => option === Number(event.target.value),
+            )
+            if (next !== undefined) {
+              setSpeed(next)
+            }
+          }}
+        >
+          {PLAYBACK_SPEEDS.map((option) => (
+            <option key={option} value={option}>
+              {t('playback.speedOption', {
+                value: option.toLocaleString(localeTags[locale]),
+              })}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
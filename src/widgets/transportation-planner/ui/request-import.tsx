@@ -0,0 +1,236 @@
+'use client'
+
+import type {
+  ColumnMapping,
+  CsvTable,
+  GridConfig,
+  RequestImportField,
+  RequestInput,
+} from '@entities'
+import {
+  guessColumnMapping,
+  mapRequestRows,
+  parseCsv,
+  requestImportFields,
+  validateColumnMapping,
+} from '@entities'
+import { Button } from '@shared/ui/button'
+import { type ChangeEvent, useMemo, useState } from 'react'
+import { useI18n } from '../lib/i18n'
+
+export type RequestImportMode = 'replace' | 'append'
+
+interface RequestImportProps {
+  grid: GridConfig
+  workdayLength: number
+  onImport: (requests: RequestInput[], mode: RequestImportMode) => void
+}
+
+interface LoadedFile {
+  name: string
+  table: CsvTable
+}
+
+export function RequestImport({
+  grid,
+  workdayLength,
+  onImport,
+}: RequestImportProps) {
+  const { locale, t } = useI18n()
+  const [file, setFile] = useState<LoadedFile | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [readError, setReadError] = useState<string | null>(null)
+
+  const mappingError = mapping ? validateColumnMapping(mapping, locale) : null
+  const rows = useMemo(
+    () =>
+      file && mapping && !mappingError
+        ? mapRequestRows(file.table, mapping, grid, workdayLength, locale)
+        : [],
+    [file, mapping, mappingError, grid, workdayLength, locale],
+  )
+  const validRequests = rows.flatMap((row) =>
+    row.request ? [row.request] : [],
+  )
+  const invalidRows = rows.filter((row) => !row.request)
+  const columnOptions = (file?.table.header ?? []).map((title, index) => ({
+    value: String(index),
+    label: title || t('import.column', { index: index + 1 }),
+  }))
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    event.target.value = ''
+    if (!selected) {
+      return
+    }
+    try {
+      const table = parseCsv(await selected.text())
+      if (table.header.length === 0 || table.rows.length === 0) {
+        setReadError(t('import.emptyFile'))
+        return
+      }
+      setFile({ name: selected.name, table })
+      setMapping(guessColumnMapping(table.header))
+      setReadError(null)
+    } catch {
+      setReadError(t('import.readFailed'))
+    }
+  }
+
+  const handleMappingChange = (field: RequestImportField, value: string) => {
+    setMapping((prev) =>
+      prev ? { ...prev, [field]: value === '' ? null : Number(value) } : prev,
+    )
+  }
+
+  const handleReset = () => {
+    setFile(null)
+    setMapping(null)
+  }
+
+  const handleImport = (mode: RequestImportMode) => {
+    if (validRequests.length === 0) {
+      return
+    }
+    onImport(validRequests, mode)
+    handleReset()
+  }
+
+  return (
+    <div className='mb-4 space-y-4 rounded-lg border border-dashed border-border p-4'>
+      <div className='flex flex-wrap items-center justify-between gap-3'>
+        <div className='text-sm text-muted-foreground'>
+          {file
+            ? t('import.file', {
+                name: file.name,
+                rows: file.table.rows.length,
+              })
+            : t('import.hint')}
+        </div>
+        <label className='inline-flex cursor-pointer items-center rounded-md border border-input px-4 py-2 text-sm font-medium hover:bg-muted/60'>
+          {t('import.chooseFile')}
+          <input
+            type='file'
+            accept='.csv,.txt,text/csv'
+            className='sr-only'
+            onChange={handleFileChange}
+          />
+        </label>
+      </div>
+      {readError && <p className='text-sm text-destructive'>{readError}</p>}
+      {file && mapping && (
+        <>
+          <div className='grid gap-3 md:grid-cols-4'>
+            {requestImportFields.map((definition) => (
+              <label key={definition.field} className='space-y-1'>
+                <span className='block text-xs font-medium text-muted-foreground'>
+                  {definition.label[locale]}
+                  {definition.required ? ' *' : ''}
+                </span>
+                <select
+                  className='w-full rounded-md border border-input bg-transparent px-2 py-1.5 text-sm outline-none focus:border-primary'
+                  value={mapping[definition.field] ?? ''}
+                  onChange={(event) =>
+                    handleMappingChange(definition.field, event.target.value)
+                  }
+                >
+                  <option value=''>—</option>
+                  {columnOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {mappingError ? (
+            <p className='text-sm text-destructive'>{mappingError}</p>
+          ) : (
+            <>
+              <p className='text-sm text-muted-foreground'>
+                {t('import.ready', {
+                  valid: validRequests.length,
+                  total: rows.length,
+                })}
+                {invalidRows.length > 0 && t('import.skipInvalid')}
+              </p>
+              <div className='max-h-72 overflow-auto rounded-md border'>
+                <table className='min-w-full divide-y divide-border text-xs'>
+                  <thead className='sticky top-0 bg-muted'>
+                    <tr>
+                      <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                        {t('import.line')}
+                      </th>
+                      <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                        {t('import.route')}
+                      </th>
+                      <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                        {t('import.volume')}
+                      </th>
+                      <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                        {t('import.windows')}
+                      </th>
+                      <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                        {t('import.check')}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className='divide-y divide-border'>
+                    {rows.map((row) => (
+                      <tr
+                        key={row.line}
+                        className={row.request ? undefined : 'bg-destructive/5'}
+                      >
+                        <td className='px-3 py-1.5'>{row.line}</td>
+                        <td className='px-3 py-1.5'>
+                          {row.request
+                            ? `${row.request.shipperCode} → ${row.request.receiverCode}`
+                            : '—'}
+                        </td>
+                        <td className='px-3 py-1.5'>
+                          {row.request?.volume.toFixed(2) ?? '—'}
+                        </td>
+                        <td className='px-3 py-1.5'>
+                          {row.request
+                            ? `${row.request.shipperWindow.open}–${row.request.shipperWindow.close} / ${row.request.receiverWindow.open}–${row.request.receiverWindow.close}`
+                            : '—'}
+                        </td>
+                        <td
+                          className={`px-3 py-1.5 ${row.request ? 'text-muted-foreground' : 'text-destructive'}`}
+                        >
+                          {row.errors.length > 0 ? row.errors.join(' ') : 'OK'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+          <div className='flex flex-wrap gap-3'>
+            <Button
+              type='button'
+              onClick={() => handleImport('replace')}
+              disabled={validRequests.length === 0}
+            >
+              {t('import.replace')}
+            </Button>
+            <Button
+              type='button'
+              variant='outline'
+              onClick={() => handleImport('append')}
+              disabled={validRequests.length === 0}
+            >
+              {t('import.append')}
+            </Button>
+            <Button type='button' variant='ghost' onClick={handleReset}>
+              {t('import.cancel')}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
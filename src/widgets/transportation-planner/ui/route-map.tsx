@@ -1,27 +1,213 @@
 'use client'
 
-import type { PlanResult } from '@entities'
-import { depotPoint, gridLetters, gridSize, parseGridCode } from '@entities'
-import { useId, useMemo } from 'react'
+import type {
+  GridConfig,
+  PlannerParameters,
+  PlanResult,
+  TripPlan,
+  VehicleActivity,
+} from '@entities'
+import {
+  formatDistance,
+  getColumnLabels,
+  locateVehicles,
+  parseGridCode,
+} from '@entities'
+import { useId, useMemo, useRef, useState } from 'react'
+import {
+  type ChartImage,
+  escapeSvgText,
+  IMAGE_FONT,
+  type ImageLegendItem,
+  renderImageLegend,
+} from '../lib/chart-image'
+import { type MessageKey, useI18n } from '../lib/i18n'
+import { ImageExportButtons } from './image-export-buttons'
 import type { RequestLegendEntry } from './types'
 
 interface RouteMapProps {
   plan: PlanResult
   colorMap: Map<string, RequestLegendEntry>
+  parameters: PlannerParameters
+  // Playback time; vehicles are drawn where they are at that moment.
+  time?: number | null
 }
 
-const CELL_SIZE = 72
+const MAX_CELL_SIZE = 72
+const MIN_CELL_SIZE = 20
+const MAP_EXTENT = 432
 const PADDING = 32
 
-export function RouteMap({ plan, colorMap }: RouteMapProps) {
-  const svgTitleId = useId()
-  const depot = useMemo(() => parseGridCode(depotPoint.code), [])
-  const { width, height } = useMemo(() => {
-    return {
-      width: gridSize * CELL_SIZE + PADDING * 2,
-      height: gridSize * CELL_SIZE + PADDING * 2,
+const ACTIVITY_STYLES: Record<
+  VehicleActivity,
+  { color: string; label: MessageKey }
+> = {
+  idle: { color: '#6b7280', label: 'playback.activity.idle' },
+  'empty-run': { color: '#f8fafc', label: 'playback.activity.empty-run' },
+  waiting: { color: '#fbbf24', label: 'playback.activity.waiting' },
+  loading: { color: '#8b5cf6', label: 'playback.activity.loading' },
+  'loaded-run': { color: '#16a34a', label: 'playback.activity.loaded-run' },
+  unloading: { color: '#0ea5e9', label: 'playback.activity.unloading' },
+}
+
+const ACTIVITIES = Object.keys(ACTIVITY_STYLES) as VehicleActivity[]
+
+function resolveCellSize(grid: GridConfig): number {
+  const largestSide = Math.max(grid.columns, grid.rows, 1)
+  return Math.min(
+    MAX_CELL_SIZE,
+    Math.max(MIN_CELL_SIZE, Math.floor(MAP_EXTENT / largestSide)),
+  )
+}
+
+interface MapLeg {
+  codes: string[]
+  loaded: boolean
+  distance: number
+}
+
+interface PixelPoint {
+  x: number
+  y: number
+}
+
+function collectLegs(trip: TripPlan): MapLeg[] {
+  return trip.legs.map((leg) => ({
+    codes: leg.path.length > 0 ? leg.path : [leg.from, leg.to],
+    loaded: leg.loaded,
+    distance: leg.distance,
+  }))
+}
+
+function cellCenter(
+  code: string,
+  grid: GridConfig,
+  cellSize: number,
+): PixelPoint | null {
+  const point = parseGridCode(code, grid)
+  if (!point) {
+    return null
+  }
+  return {
+    x: PADDING + (point.column + 0.5) * cellSize,
+    y: PADDING + (grid.rows - point.row - 0.5) * cellSize,
+  }
+}
+
+// Point halfway along a polyline, where the leg label is placed.
+function pathMidpoint(points: PixelPoint[]): PixelPoint {
+  const lengths = points
+    .slice(1)
+    .map((point, index) =>
+      Math.hypot(point.x - points[index].x, point.y - points[index].y),
+    )
+  let remaining = lengths.reduce((acc, length) => acc + length, 0) / 2
+  for (const [index, length] of lengths.entries()) {
+    if (remaining <= length && length > 0) {
+      const from = points[index]
+      const to = points[index + 1]
+      const ratio = remaining / length
+      return {
+        x: from.x + (to.x - from.x) * ratio,
+        y: from.y + (to.y - from.y) * ratio,
+      }
     }
-  }, [])
+    remaining -= length
+  }
+  return points[0]
+}
+
+const IMAGE_MIN_WIDTH = 640
+const IMAGE_TITLE_HEIGHT = 40
+
+// Text on the map is styled through utility classes, which do not travel
+// with the markup; the computed values are written onto the copy instead.
+function inlineTextStyles(source: SVGSVGElement, copy: SVGSVGElement) {
+  const sourceTexts = source.querySelectorAll('text')
+  copy.querySelectorAll('text').forEach((text, index) => {
+    const style = getComputedStyle(sourceTexts[index])
+    text.setAttribute('fill', style.fill)
+    text.setAttribute('font-size', style.fontSize)
+    text.setAttribute('font-weight', style.fontWeight)
+    text.removeAttribute('class')
+  })
+}
+
+function renderMapImage(
+  source: SVGSVGElement,
+  title: string,
+  legends: Array<[string, ImageLegendItem[]]>,
+): ChartImage {
+  const mapWidth = Number(source.getAttribute('width'))
+  const mapHeight = Number(source.getAttribute('height'))
+  const width = Math.max(mapWidth, IMAGE_MIN_WIDTH)
+  const copy = source.cloneNode(true) as SVGSVGElement
+  inlineTextStyles(source, copy)
+  copy.removeAttribute('class')
+  copy.setAttribute('x', String((width - mapWidth) / 2))
+  copy.setAttribute('y', String(IMAGE_TITLE_HEIGHT))
+
+  const parts: string[] = [
+    `<text x="${PADDING}" y="28" font-size="18" font-weight="600" fill="#111827">${escapeSvgText(title)}</text>`,
+    new XMLSerializer().serializeToString(copy),
+  ]
+  let legendTop = IMAGE_TITLE_HEIGHT + mapHeight + 8
+  for (const [legendTitle, items] of legends) {
+    if (items.length === 0) {
+      continue
+    }
+    const legend = renderImageLegend(
+      legendTitle,
+      items,
+      PADDING,
+      legendTop,
+      width - PADDING * 2,
+    )
+    parts.push(legend.markup)
+    legendTop += legend.height + 8
+  }
+
+  const height = Math.ceil(legendTop + PADDING / 2)
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${IMAGE_FONT}"><rect width="100%" height="100%" fill="#ffffff"/>${parts.join('')}</svg>`,
+    width,
+    height,
+  }
+}
+
+export function RouteMap({
+  plan,
+  colorMap,
+  parameters,
+  time = null,
+}: RouteMapProps) {
+  const { locale, t } = useI18n()
+  const [selectedVehicle, setSelectedVehicle] = useState<number | null>(null)
+  const { depots, grid, network } = parameters
+  const showNetwork = parameters.distanceMode === 'network'
+  const svgTitleId = useId()
+  const svgRef = useRef<SVGSVGElement>(null)
+  const cellSize = resolveCellSize(grid)
+  const markerScale = cellSize / MAX_CELL_SIZE
+  const columnLabels = useMemo(() => getColumnLabels(grid), [grid])
+  const width = grid.columns * cellSize + PADDING * 2
+  const height = grid.rows * cellSize + PADDING * 2
+  const vehicleIds = useMemo(
+    () => plan.vehicles.map((vehicle) => vehicle.vehicleId),
+    [plan.vehicles],
+  )
+  // A vehicle picked on a previous plan may be gone after recalculation.
+  const shownVehicle =
+    selectedVehicle !== null && vehicleIds.includes(selectedVehicle)
+      ? selectedVehicle
+      : null
+  const trips = useMemo(
+    () =>
+      shownVehicle === null
+        ? plan.trips
+        : plan.trips.filter((trip) => trip.vehicleId === shownVehicle),
+    [plan.trips, shownVehicle],
+  )
 
   const points = useMemo(() => {
     const map = new Map<
@@ -30,87 +216,238 @@ export function RouteMap({ plan, colorMap }: RouteMapProps) {
     >()
 
     const convert = (code: string) => {
-      const point = parseGridCode(code)
+      const point = parseGridCode(code, grid)
       if (!point) {
         return null
       }
-      const x = PADDING + (point.column + 0.5) * CELL_SIZE
-      const y = PADDING + (gridSize - point.row - 0.5) * CELL_SIZE
-      return { x, y, label: code }
+      const x = PADDING + (point.column + 0.5) * cellSize
+      const y = PADDING + (grid.rows - point.row - 0.5) * cellSize
+      return { x, y, label: point.code }
     }
 
-    const depot = convert(depotPoint.code)
-    if (depot) {
-      map.set(depotPoint.code, { ...depot, isDepot: true })
+    for (const depot of depots) {
+      const point = convert(depot.code)
+      if (point) {
+        map.set(point.label, {
+          ...point,
+          label: `${depot.name} (${point.label})`,
+          isDepot: true,
+        })
+      }
     }
 
-    for (const trip of plan.trips) {
-      const shipper = convert(trip.shipperCode)
-      const receiver = convert(trip.receiverCode)
-
-      if (shipper && !map.has(trip.shipperCode)) {
-        map.set(trip.shipperCode, { ...shipper, isDepot: false })
-      }
-      if (receiver && !map.has(trip.receiverCode)) {
-        map.set(trip.receiverCode, { ...receiver, isDepot: false })
+    for (const trip of trips) {
+      for (const stop of trip.schedule.stops) {
+        if (map.has(stop.code)) {
+          continue
+        }
+        const point = convert(stop.code)
+        if (point) {
+          map.set(stop.code, { ...point, isDepot: stop.kind === 'depot' })
+        }
       }
     }
 
     return Array.from(map.values())
-  }, [plan.trips])
+  }, [trips, depots, grid, cellSize])
 
-  const routes = useMemo(() => {
-    const grouped = new Map<
+  // Legs travelled several times are drawn once, thicker; labels are shared
+  // by every leg on the same cells.
+  const legs = useMemo(() => {
+    const routes = new Map<
+      string,
+      {
+        key: string
+        points: PixelPoint[]
+        loaded: boolean
+        count: number
+        color: string
+      }
+    >()
+    const labels = new Map<
       string,
-      { shipper: string; receiver: string; count: number; color: string }
+      { key: string; position: PixelPoint; distance: number }
     >()
 
-    for (const trip of plan.trips) {
-      if (!grouped.has(trip.requestId)) {
-        grouped.set(trip.requestId, {
-          shipper: trip.shipperCode,
-          receiver: trip.receiverCode,
-          count: 1,
-          color: colorMap.get(trip.requestId)?.color ?? '#1f77b4',
+    for (const trip of trips) {
+      for (const leg of collectLegs(trip)) {
+        const pathKey = leg.codes.join('-')
+        const points = leg.codes.flatMap((code) => {
+          const point = cellCenter(code, grid, cellSize)
+          return point ? [point] : []
         })
-      } else {
-        const existing = grouped.get(trip.requestId)
+        if (points.length < 2) {
+          continue
+        }
+
+        const key = `${trip.requestId}:${leg.loaded}:${pathKey}`
+        const existing = routes.get(key)
         if (existing) {
           existing.count += 1
+        } else {
+          routes.set(key, {
+            key,
+            points,
+            loaded: leg.loaded,
+            count: 1,
+            color: colorMap.get(trip.requestId)?.color ?? '#1f77b4',
+          })
+        }
+        if (leg.distance > 0 && !labels.has(pathKey)) {
+          labels.set(pathKey, {
+            key: pathKey,
+            position: pathMidpoint(points),
+            distance: leg.distance,
+          })
         }
       }
     }
 
-    return Array.from(grouped.values())
-  }, [plan.trips, colorMap])
+    // Loaded runs are drawn over the empty ones they share cells with.
+    const ordered = Array.from(routes.values()).sort(
+      (a, b) => Number(a.loaded) - Number(b.loaded),
+    )
+    return { routes: ordered, labels: Array.from(labels.values()) }
+  }, [trips, colorMap, grid, cellSize])
+
+  const vehicles = useMemo(
+    () =>
+      time === null
+        ? []
+        : locateVehicles(plan, time, grid)
+            .filter(
+              (position) =>
+                shownVehicle === null || position.vehicleId === shownVehicle,
+            )
+            .map((position) => ({
+              ...position,
+              x: PADDING + (position.column + 0.5) * cellSize,
+              y: PADDING + (grid.rows - position.row - 0.5) * cellSize,
+            })),
+    [plan, time, grid, cellSize, shownVehicle],
+  )
 
   const gridLines = useMemo(() => {
     const lines: Array<{ x1: number; y1: number; x2: number; y2: number }> = []
-    for (let i = 0; i <= gridSize; i += 1) {
-      const offset = PADDING + i * CELL_SIZE
+    for (let i = 0; i <= grid.rows; i += 1) {
+      const offset = PADDING + i * cellSize
       lines.push({ x1: PADDING, y1: offset, x2: width - PADDING, y2: offset })
+    }
+    for (let i = 0; i <= grid.columns; i += 1) {
+      const offset = PADDING + i * cellSize
       lines.push({ x1: offset, y1: PADDING, x2: offset, y2: height - PADDING })
     }
     return lines
-  }, [height, width])
+  }, [grid.columns, grid.rows, cellSize, height, width])
+
+  const networkOverlay = useMemo(() => {
+    if (!showNetwork) {
+      return { blocked: [], slowEdges: [] }
+    }
+    const center = (code: string) => {
+      const point = parseGridCode(code, grid)
+      if (!point) {
+        return null
+      }
+      return {
+        code: point.code,
+        x: PADDING + (point.column + 0.5) * cellSize,
+        y: PADDING + (grid.rows - point.row - 0.5) * cellSize,
+      }
+    }
+
+    const blocked = network.blockedCells.flatMap((code) => {
+      const cell = center(code)
+      return cell ? [cell] : []
+    })
+    const slowEdges = network.edgeWeights.flatMap((edge) => {
+      const from = center(edge.from)
+      const to = center(edge.to)
+      return from && to ? [{ id: edge.id, from, to, weight: edge.weight }] : []
+    })
+
+    return { blocked, slowEdges }
+  }, [showNetwork, network, grid, cellSize])
+
+  const createImage = () => {
+    if (!svgRef.current) {
+      return null
+    }
+    const usedRequestIds = new Set(trips.map((trip) => trip.requestId))
+    const legends: Array<[string, ImageLegendItem[]]> = [
+      [
+        t('gantt.requestLegend'),
+        Array.from(colorMap.entries())
+          .filter(([requestId]) => usedRequestIds.has(requestId))
+          .map(([, entry]) => ({
+            label: entry.label,
+            color: entry.color,
+            swatch: 'box',
+          })),
+      ],
+      [
+        t('map.legLegend'),
+        [
+          { label: t('map.loadedLeg'), color: '#475569', swatch: 'line' },
+          { label: t('map.emptyLeg'), color: '#64748b', swatch: 'dashed' },
+        ],
+      ],
+    ]
+    if (time !== null) {
+      legends.push([
+        t('playback.legend'),
+        ACTIVITIES.map((activity) => ({
+          label: t(ACTIVITY_STYLES[activity].label),
+          color: ACTIVITY_STYLES[activity].color,
+          swatch: 'box',
+        })),
+      ])
+    }
+    return renderMapImage(svgRef.current, t('map.title'), legends)
+  }
 
   return (
     <div className='space-y-3'>
-      <h3 className='text-lg font-semibold'>Схема маршрутов</h3>
+      <div className='flex flex-wrap items-center justify-between gap-3'>
+        <h3 className='text-lg font-semibold'>{t('map.title')}</h3>
+        <div className='flex flex-wrap items-center gap-3'>
+          <ImageExportButtons fileName='route-map' createImage={createImage} />
+          <label className='flex items-center gap-2 text-sm text-muted-foreground'>
+            {t('map.vehicleFilter')}
+            <select
+              className='rounded-md border border-input bg-transparent px-2 py-1.5 text-sm outline-none focus:border-primary'
+              value={shownVehicle ?? ''}
+              onChange={(event) =>
+                setSelectedVehicle(
+                  event.target.value === '' ? null : Number(event.target.value),
+                )
+              }
+            >
+              <option value=''>{t('map.allVehicles')}</option>
+              {vehicleIds.map((id) => (
+                <option key={id} value={id}>
+                  {t('gantt.vehicle', { id })}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
       <div className='overflow-x-auto'>
         <svg
+          ref={svgRef}
           width={width}
           height={height}
           className='rounded-lg border bg-muted/20'
           role='img'
           aria-labelledby={svgTitleId}
         >
-          <title id={svgTitleId}>Маршруты автомобилей на сетке района</title>
+          <title id={svgTitleId}>{t('map.description')}</title>
           <rect
             x={PADDING}
             y={PADDING}
-            width={gridSize * CELL_SIZE}
-            height={gridSize * CELL_SIZE}
+            width={grid.columns * cellSize}
+            height={grid.rows * cellSize}
             fill='white'
           />
           {gridLines.map((line) => (
@@ -125,10 +462,45 @@ export function RouteMap({ plan, colorMap }: RouteMapProps) {
             />
           ))}
 
-          {gridLetters.map((letter, index) => (
+          {networkOverlay.blocked.map((cell) => (
+            <rect
+              key={`blocked-${cell.code}`}
+              x={cell.x - cellSize / 2}
+              y={cell.y - cellSize / 2}
+              width={cellSize}
+              height={cellSize}
+              fill='#94a3b8'
+              fillOpacity={0.45}
+            >
+              <title>{t('map.blockedCell', { code: cell.code })}</title>
+            </rect>
+          ))}
+          {networkOverlay.slowEdges.map((edge) => (
+            <line
+              key={`edge-${edge.id}`}
+              x1={edge.from.x}
+              y1={edge.from.y}
+              x2={edge.to.x}
+              y2={edge.to.y}
+              stroke='#f59e0b'
+              strokeWidth={Math.max(4 * markerScale, 2)}
+              strokeDasharray='6 4'
+              strokeOpacity={0.8}
+            >
+              <title>
+                {t('map.slowEdge', {
+                  from: edge.from.code,
+                  to: edge.to.code,
+                  weight: edge.weight,
+                })}
+              </title>
+            </line>
+          ))}
+
+          {columnLabels.map((letter, index) => (
             <text
               key={`col-${letter}`}
-              x={PADDING + index * CELL_SIZE + CELL_SIZE / 2}
+              x={PADDING + index * cellSize + cellSize / 2}
               y={PADDING - 8}
               textAnchor='middle'
               className='fill-foreground text-xs'
@@ -136,13 +508,13 @@ export function RouteMap({ plan, colorMap }: RouteMapProps) {
               {letter}
             </text>
           ))}
-          {Array.from({ length: gridSize }, (_, index) => {
-            const rowLabel = gridSize - index
+          {Array.from({ length: grid.rows }, (_, index) => {
+            const rowLabel = grid.rows - index
             return (
               <text
                 key={`row-${rowLabel}`}
-                x={PADDING - 12}
-                y={PADDING + index * CELL_SIZE + CELL_SIZE / 2 + 4}
+                x={PADDING - 6}
+                y={PADDING + index * cellSize + cellSize / 2 + 4}
                 textAnchor='end'
                 className='fill-foreground text-xs'
               >
@@ -151,55 +523,137 @@ export function RouteMap({ plan, colorMap }: RouteMapProps) {
             )
           })}
 
-          {routes.map((route) => {
-            const shipper = parseGridCode(route.shipper)
-            const receiver = parseGridCode(route.receiver)
-            if (!depot || !shipper || !receiver) {
-              return null
-            }
-            const depotX = PADDING + (depot.column + 0.5) * CELL_SIZE
-            const depotY = PADDING + (gridSize - depot.row - 0.5) * CELL_SIZE
-            const shipperX = PADDING + (shipper.column + 0.5) * CELL_SIZE
-            const shipperY =
-              PADDING + (gridSize - shipper.row - 0.5) * CELL_SIZE
-            const receiverX = PADDING + (receiver.column + 0.5) * CELL_SIZE
-            const receiverY =
-              PADDING + (gridSize - receiver.row - 0.5) * CELL_SIZE
+          {legs.routes.map((route) => (
+            <polyline
+              key={route.key}
+              points={route.points
+                .map((point) => `${point.x},${point.y}`)
+                .join(' ')}
+              fill='none'
+              stroke={route.color}
+              strokeWidth={
+                (route.loaded ? 2 + route.count : 1 + route.count / 2) *
+                Math.max(markerScale, 0.5)
+              }
+              strokeOpacity={route.loaded ? 0.8 : 0.55}
+              strokeDasharray={route.loaded ? undefined : '6 4'}
+              strokeLinejoin='round'
+            />
+          ))}
+          {legs.labels.map((label) => (
+            <text
+              key={`label-${label.key}`}
+              x={label.position.x}
+              y={label.position.y - 4}
+              textAnchor='middle'
+              stroke='white'
+              strokeWidth={3}
+              paintOrder='stroke'
+              className='fill-slate-700 text-[10px] font-medium'
+            >
+              {t('map.legDistance', {
+                value: formatDistance(label.distance, locale),
+              })}
+            </text>
+          ))}
 
+          {points.map((point) => {
+            const radius = (point.isDepot ? 12 : 9) * markerScale
             return (
-              <polyline
-                key={`${route.shipper}-${route.receiver}`}
-                points={`${depotX},${depotY} ${shipperX},${shipperY} ${receiverX},${receiverY} ${depotX},${depotY}`}
-                fill='none'
-                stroke={route.color}
-                strokeWidth={2 + route.count}
-                strokeOpacity={0.75}
-              />
+              <g
+                key={point.label}
+                transform={`translate(${point.x}, ${point.y})`}
+              >
+                <circle
+                  r={radius}
+                  fill={point.isDepot ? '#111827' : '#2563eb'}
+                  opacity={0.9}
+                />
+                <text
+                  x={0}
+                  y={-radius - (point.isDepot ? 6 : 5)}
+                  textAnchor='middle'
+                  className='fill-foreground text-xs font-semibold'
+                >
+                  {point.label}
+                </text>
+              </g>
             )
           })}
 
-          {points.map((point) => (
-            <g
-              key={point.label}
-              transform={`translate(${point.x}, ${point.y})`}
-            >
-              <circle
-                r={point.isDepot ? 12 : 9}
-                fill={point.isDepot ? '#111827' : '#2563eb'}
-                opacity={0.9}
-              />
-              <text
-                x={0}
-                y={point.isDepot ? -18 : -14}
-                textAnchor='middle'
-                className='fill-foreground text-xs font-semibold'
+          {vehicles.map((vehicle) => {
+            const size = Math.max(22 * markerScale, 12)
+            return (
+              <g
+                key={`vehicle-${vehicle.vehicleId}`}
+                transform={`translate(${vehicle.x}, ${vehicle.y})`}
               >
-                {point.label}
-              </text>
-            </g>
-          ))}
+                <title>
+                  {t('playback.vehicleTitle', {
+                    id: vehicle.vehicleId,
+                    activity: t(ACTIVITY_STYLES[vehicle.activity].label),
+                    load: vehicle.load.toFixed(2),
+                  })}
+                </title>
+                <rect
+                  x={-size / 2}
+                  y={-size / 2}
+                  width={size}
+                  height={size}
+                  rx={4}
+                  fill={ACTIVITY_STYLES[vehicle.activity].color}
+                  stroke={
+                    (vehicle.requestId &&
+                      colorMap.get(vehicle.requestId)?.color) ||
+                    '#111827'
+                  }
+                  strokeWidth={2}
+                />
+                <text
+                  y={4}
+                  textAnchor='middle'
+                  className={`text-[10px] font-semibold ${
+                    vehicle.activity === 'empty-run'
+                      ? 'fill-slate-900'
+                      : 'fill-white'
+                  }`}
+                >
+                  {vehicle.vehicleId}
+                </text>
+              </g>
+            )
+          })}
         </svg>
       </div>
+      <div className='flex flex-wrap items-center gap-3 text-xs text-muted-foreground'>
+        <span className='font-medium text-foreground'>
+          {t('map.legLegend')}
+        </span>
+        <span className='flex items-center gap-1.5'>
+          <span className='inline-block w-6 border-t-[3px] border-slate-600' />
+          {t('map.loadedLeg')}
+        </span>
+        <span className='flex items-center gap-1.5'>
+          <span className='inline-block w-6 border-t-2 border-dashed border-slate-500' />
+          {t('map.emptyLeg')}
+        </span>
+      </div>
+      {time !== null && (
+        <div className='flex flex-wrap items-center gap-3 text-xs text-muted-foreground'>
+          <span className='font-medium text-foreground'>
+            {t('playback.legend')}
+          </span>
+          {ACTIVITIES.map((activity) => (
+            <span key={activity} className='flex items-center gap-1.5'>
+              <span
+                className='inline-block size-3 rounded-sm border border-slate-400'
+                style={{ backgroundColor: ACTIVITY_STYLES[activity].color }}
+              />
+              {t(ACTIVITY_STYLES[activity].label)}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
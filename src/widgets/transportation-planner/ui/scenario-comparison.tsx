@@ -0,0 +1,504 @@
+'use client'
+
+import type {
+  ComparisonMetricKey,
+  Locale,
+  PlannerParameters,
+  PlanResult,
+  RequestInput,
+} from '@entities'
+import {
+  buildPlan,
+  compareSummaries,
+  comparisonMetrics,
+  formatDiagnostic,
+  formatDistance,
+  formatHours,
+  formatMoney,
+} from '@entities'
+import { Button } from '@shared/ui/button'
+import { useMemo, useState } from 'react'
+import { useI18n } from '../lib/i18n'
+import { buildRequestColorMap } from '../lib/request-colors'
+import { sanitizeRequests } from '../lib/sanitize-requests'
+import { validateParameters } from '../lib/validate-parameters'
+import { GanttChart } from './gantt-chart'
+
+interface ScenarioComparisonProps {
+  requests: RequestInput[]
+  parameters: PlannerParameters
+}
+
+interface ComparisonVariant {
+  id: string
+  label: string
+  distanceMode: PlannerParameters['distanceMode']
+  routingMode: PlannerParameters['routingMode']
+  optimizationMode: PlannerParameters['optimizationMode']
+  // null keeps the configured fleet; otherwise the whole fleet is this type.
+  fleetTypeId: string | null
+}
+
+interface ComparedPlan {
+  id: string
+  label: string
+  plan: PlanResult
+}
+
+const selectClassName =
+  'w-full rounded-md border border-input bg-transparent px-2 py-1.5 text-sm outline-none focus:border-primary'
+
+function createVariant(
+  parameters: PlannerParameters,
+  label: string,
+): ComparisonVariant {
+  return {
+    id: crypto.randomUUID(),
+    label,
+    distanceMode: parameters.distanceMode,
+    routingMode: parameters.routingMode,
+    optimizationMode: parameters.optimizationMode,
+    fleetTypeId: null,
+  }
+}
+
+function applyVariant(
+  parameters: PlannerParameters,
+  variant: ComparisonVariant,
+): PlannerParameters {
+  const fleetSize = parameters.fleet.reduce(
+    (acc, type) => acc + Math.max(type.count, 0),
+    0,
+  )
+  return {
+    ...parameters,
+    distanceMode: variant.distanceMode,
+    routingMode: variant.routingMode,
+    optimizationMode: variant.optimizationMode,
+    fleet: variant.fleetTypeId
+      ? parameters.fleet
+          .filter((type) => type.id === variant.fleetTypeId)
+          .map((type) => ({ ...type, count: fleetSize }))
+      : parameters.fleet,
+  }
+}
+
+function formatMetric(
+  key: ComparisonMetricKey,
+  value: number,
+  locale: Locale,
+): string {
+  switch (key) {
+    case 'totalTrips':
+    case 'vehiclesRequired':
+      return value.toFixed(0)
+    case 'totalDistance':
+    case 'emptyDistance':
+      return formatDistance(value, locale)
+    case 'totalCost':
+    case 'margin':
+      return formatMoney(value, locale)
+    case 'utilization':
+      return value.toFixed(2)
+    default:
+      return formatHours(value, locale)
+  }
+}
+
+export function ScenarioComparison({
+  requests,
+  parameters,
+}: ScenarioComparisonProps) {
+  const { locale, t } = useI18n()
+  const [variants, setVariants] = useState<ComparisonVariant[]>(() => [
+    createVariant(parameters, t('comparison.variant', { index: 1 })),
+  ])
+  const [results, setResults] = useState<ComparedPlan[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const colorMap = useMemo(
+    () =>
+      buildRequestColorMap(
+        results?.flatMap((result) => result.plan.trips) ?? [],
+      ),
+    [results],
+  )
+  const horizon = Math.max(
+    parameters.workdayLength,
+    ...(results ?? []).map((result) => result.plan.summary.maxCompletionTime),
+  )
+  const vehicleRows = Math.max(
+    0,
+    ...(results ?? []).map((result) => result.plan.vehicles.length),
+  )
+
+  const handleVariantChange = <K extends keyof ComparisonVariant>(
+    id: string,
+    field: K,
+    value: ComparisonVariant[K],
+  ) => {
+    setVariants((prev) =>
+      prev.map((variant) =>
+        variant.id === id ? { ...variant, [field]: value } : variant,
+      ),
+    )
+  }
+
+  const handleAddVariant = () => {
+    setVariants((prev) => [
+      ...prev,
+      createVariant(
+        parameters,
+        t('comparison.variant', { index: prev.length + 1 }),
+      ),
+    ])
+  }
+
+  const handleRemoveVariant = (id: string) => {
+    setVariants((prev) => prev.filter((variant) => variant.id !== id))
+  }
+
+  const handleCompare = () => {
+    const sanitized = sanitizeRequests(requests, parameters.workdayLength)
+    if (sanitized.length === 0) {
+      setResults(null)
+      setError(t('comparison.noRequests'))
+      return
+    }
+    if (variants.length === 0) {
+      setResults(null)
+      setError(t('comparison.noVariants'))
+      return
+    }
+    // Variants change the distance mode and the fleet, so each one is
+    // checked the way the planner checks its own settings.
+    const compared = [
+      { id: 'base', label: t('comparison.base'), parameters },
+      ...variants.map((variant) => ({
+        id: variant.id,
+        label: variant.label,
+        parameters: applyVariant(parameters, variant),
+      })),
+    ]
+    for (const item of compared) {
+      const parametersError = validateParameters(item.parameters, locale)
+      if (parametersError) {
+        setResults(null)
+        setError(`${item.label}: ${parametersError}`)
+        return
+      }
+    }
+    setError(null)
+    setResults(
+      compared.map((item) => ({
+        id: item.id,
+        label: item.label,
+        plan: buildPlan(sanitized, item.parameters),
+      })),
+    )
+  }
+
+  const deltas = useMemo(
+    () =>
+      results?.map((result) =>
+        compareSummaries(results[0].plan.summary, result.plan.summary),
+      ) ?? [],
+    [results],
+  )
+
+  return (
+    <section className='space-y-6 rounded-xl border bg-card p-6 shadow-sm'>
+      <div className='flex flex-wrap items-center justify-between gap-3'>
+        <h2 className='text-xl font-semibold'>{t('comparison.title')}</h2>
+        <div className='flex flex-wrap gap-3'>
+          <Button type='button' variant='outline' onClick={handleAddVariant}>
+            {t('comparison.addVariant')}
+          </Button>
+          <Button type='button' onClick={handleCompare}>
+            {t('comparison.compare')}
+          </Button>
+        </div>
+      </div>
+
+      <div className='overflow-x-auto'>
+        <table className='min-w-full divide-y divide-border text-sm'>
+          <thead className='bg-muted/50'>
+            <tr>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('comparison.name')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('comparison.distanceMode')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('comparison.routingMode')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('comparison.optimizationMode')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('comparison.fleet')}
+              </th>
+              <th className='px-3 py-2' />
+            </tr>
+          </thead>
+          <tbody className='divide-y divide-border'>
+            {variants.map((variant) => (
+              <tr key={variant.id}>
+                <td className='px-3 py-2'>
+                  <input
+                    className={selectClassName}
+                    value={variant.label}
+                    onChange={(event) =>
+                      handleVariantChange(
+                        variant.id,
+                        'label',
+                        event.target.value,
+                      )
+                    }
+                  />
+                </td>
+                <td className='px-3 py-2'>
+                  <select
+                    className={selectClassName}
+                    value={variant.distanceMode}
+                    onChange={(event) =>
+                      handleVariantChange(
+                        variant.id,
+                        'distanceMode',
+                        event.target.value as ComparisonVariant['distanceMode'],
+                      )
+                    }
+                  >
+                    <option value='manhattan'>
+                      {t('comparison.distanceMode.manhattan')}
+                    </option>
+                    <option value='euclidean'>
+                      {t('comparison.distanceMode.euclidean')}
+                    </option>
+                    <option value='network'>
+                      {t('comparison.distanceMode.network')}
+                    </option>
+                  </select>
+                </td>
+                <td className='px-3 py-2'>
+                  <select
+                    className={selectClassName}
+                    value={variant.routingMode}
+                    onChange={(event) =>
+                      handleVariantChange(
+                        variant.id,
+                        'routingMode',
+                        event.target.value as ComparisonVariant['routingMode'],
+                      )
+                    }
+                  >
+                    <option value='pendulum'>
+                      {t('comparison.routingMode.pendulum')}
+                    </option>
+                    <option value='chained'>
+                      {t('comparison.routingMode.chained')}
+                    </option>
+                  </select>
+                </td>
+                <td className='px-3 py-2'>
+                  <select
+                    className={selectClassName}
+                    value={variant.optimizationMode}
+                    onChange={(event) =>
+                      handleVariantChange(
+                        variant.id,
+                        'optimizationMode',
+                        event.target
+                          .value as ComparisonVariant['optimizationMode'],
+                      )
+                    }
+                  >
+                    <option value='greedy'>
+                      {t('comparison.optimizationMode.greedy')}
+                    </option>
+                    <option value='fleet'>
+                      {t('comparison.optimizationMode.fleet')}
+                    </option>
+                  </select>
+                </td>
+                <td className='px-3 py-2'>
+                  <select
+                    className={selectClassName}
+                    value={variant.fleetTypeId ?? ''}
+                    onChange={(event) =>
+                      handleVariantChange(
+                        variant.id,
+                        'fleetTypeId',
+                        event.target.value || null,
+                      )
+                    }
+                  >
+                    <option value=''>{t('comparison.currentFleet')}</option>
+                    {parameters.fleet.map((type) => (
+                      <option key={type.id} value={type.id}>
+                        {t('comparison.singleType', { name: type.name })}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className='px-3 py-2 text-right'>
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    onClick={() => handleRemoveVariant(variant.id)}
+                  >
+                    {t('common.remove')}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className='text-xs text-muted-foreground'>{t('comparison.note')}</p>
+      {error && <p className='text-sm text-destructive'>{error}</p>}
+
+      {results && (
+        <>
+          <div className='overflow-x-auto'>
+            <h3 className='mb-2 text-base font-semibold'>
+              {t('comparison.metrics')}
+            </h3>
+            <table className='min-w-full divide-y divide-border text-sm'>
+              <thead className='bg-muted/50'>
+                <tr>
+                  <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                    {t('comparison.metric')}
+                  </th>
+                  {results.map((result) => (
+                    <th
+                      key={result.id}
+                      className='px-3 py-2 text-left font-medium text-muted-foreground'
+                    >
+                      {result.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className='divide-y divide-border'>
+                {comparisonMetrics.map((metric, metricIndex) => (
+                  <tr key={metric.key}>
+                    <td className='px-3 py-2'>{metric.label[locale]}</td>
+                    {results.map((result, index) => {
+                      const delta = deltas[index][metricIndex]
+                      return (
+                        <td key={result.id} className='px-3 py-2'>
+                          {formatMetric(metric.key, delta.value, locale)}
+                          {index > 0 && Math.abs(delta.delta) > 1e-6 && (
+                            <span
+                              className={`ml-2 text-xs ${
+                                delta.improved === null
+                                  ? 'text-muted-foreground'
+                                  : delta.improved
+                                    ? 'text-emerald-600'
+                                    : 'text-destructive'
+                              }`}
+                            >
+                              {delta.delta > 0 ? '+' : '−'}
+                              {formatMetric(
+                                metric.key,
+                                Math.abs(delta.delta),
+                                locale,
+                              )}
+                            </span>
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className='overflow-x-auto'>
+            <h3 className='mb-2 text-base font-semibold'>
+              {t('comparison.vehicles')}
+            </h3>
+            <table className='min-w-full divide-y divide-border text-sm'>
+              <thead className='bg-muted/50'>
+                <tr>
+                  <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                    {t('comparison.vehicleNumber')}
+                  </th>
+                  {results.map((result) => (
+                    <th
+                      key={result.id}
+                      className='px-3 py-2 text-left font-medium text-muted-foreground'
+                    >
+                      {result.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className='divide-y divide-border'>
+                {Array.from({ length: vehicleRows }, (_, row) => row + 1).map(
+                  (vehicleNumber) => (
+                    <tr key={vehicleNumber}>
+                      <td className='px-3 py-2'>#{vehicleNumber}</td>
+                      {results.map((result) => {
+                        const vehicle = result.plan.vehicles[vehicleNumber - 1]
+                        return (
+                          <td key={result.id} className='px-3 py-2'>
+                            {vehicle ? (
+                              <>
+                                <div>{vehicle.vehicleType.name}</div>
+                                <div className='text-xs text-muted-foreground'>
+                                  {t('comparison.vehicleStats', {
+                                    trips: vehicle.trips.length,
+                                    distance: formatDistance(
+                                      vehicle.totalDistance,
+                                      locale,
+                                    ),
+                                    hours: formatHours(
+                                      vehicle.totalTime,
+                                      locale,
+                                    ),
+                                  })}
+                                </div>
+                              </>
+                            ) : (
+                              <span className='text-muted-foreground'>—</span>
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ),
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className='space-y-8'>
+            {results.map((result) => (
+              <div key={result.id} className='space-y-2'>
+                <h3 className='text-base font-semibold'>{result.label}</h3>
+                {result.plan.errors.length > 0 && (
+                  <ul className='space-y-1 text-xs text-destructive'>
+                    {result.plan.errors
+                      .map((diagnostic) => formatDiagnostic(diagnostic, locale))
+                      .map((message) => (
+                        <li key={message}>{message}</li>
+                      ))}
+                  </ul>
+                )}
+                <GanttChart
+                  vehicles={result.plan.vehicles}
+                  colorMap={colorMap}
+                  horizon={horizon}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import type {
+  PlannerParameters,
+  PlanResult,
+  RequestInput,
+  ScenarioFile,
+} from '@entities'
+import { createScenario, parseScenario, serializeScenario } from '@entities'
+import { downloadFile } from '@shared/lib/download'
+import { Button } from '@shared/ui/button'
+import { type ChangeEvent, useState } from 'react'
+import { useI18n } from '../lib/i18n'
+
+interface ScenarioControlsProps {
+  requests: RequestInput[]
+  parameters: PlannerParameters
+  plan: PlanResult | null
+  onLoad: (scenario: ScenarioFile) => void
+}
+
+export function ScenarioControls({
+  requests,
+  parameters,
+  plan,
+  onLoad,
+}: ScenarioControlsProps) {
+  const { locale, t } = useI18n()
+  const [includePlan, setIncludePlan] = useState(true)
+  const [messages, setMessages] = useState<{
+    errors: string[]
+    warnings: string[]
+  }>({ errors: [], warnings: [] })
+
+  const handleSave = () => {
+    const scenario = createScenario(
+      requests,
+      parameters,
+      includePlan ? plan : null,
+    )
+    const date = scenario.savedAt.slice(0, 10)
+    downloadFile(
+      serializeScenario(scenario),
+      `scenario-${date}.json`,
+      'application/json;charset=utf-8;',
+    )
+  }
+
+  const handleOpen = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    event.target.value = ''
+    if (!selected) {
+      return
+    }
+    const { scenario, errors, warnings } = parseScenario(
+      await selected.text(),
+      locale,
+    )
+    setMessages({ errors, warnings })
+    if (scenario) {
+      onLoad(scenario)
+    }
+  }
+
+  return (
+    <div className='space-y-2'>
+      <div className='flex flex-wrap items-center gap-3'>
+        <Button type='button' variant='outline' onClick={handleSave}>
+          {t('scenario.save')}
+        </Button>
+        <label className='inline-flex cursor-pointer items-center rounded-md border border-input px-4 py-2 text-sm font-medium hover:bg-muted/60'>
+          {t('scenario.open')}
+          <input
+            type='file'
+            accept='.json,application/json'
+            className='sr-only'
+            onChange={handleOpen}
+          />
+        </label>
+        <label className='flex items-center gap-2 text-sm text-muted-foreground'>
+          <input
+            type='checkbox'
+            checked={includePlan}
+            onChange={(event) => setIncludePlan(event.target.checked)}
+            disabled={!plan}
+          />
+          {t('scenario.includePlan')}
+        </label>
+      </div>
+      {messages.errors.length > 0 && (
+        <ul className='space-y-1 text-sm text-destructive'>
+          {messages.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      {messages.warnings.length > 0 && (
+        <ul className='space-y-1 text-sm text-amber-600'>
+          {messages.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
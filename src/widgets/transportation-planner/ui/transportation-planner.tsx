@@ -1,31 +1,73 @@
 'use client'
 
-import type { PlannerParameters, PlanResult, RequestInput } from '@entities'
+import type {
+  CostModel,
+  Depot,
+  Diagnostic,
+  OptimizationReport,
+  PlannerParameters,
+  PlanResult,
+  RequestInput,
+  RequestPriority,
+  ScenarioFile,
+  TimeWindow,
+  TripPlacement,
+  WorkRules,
+} from '@entities'
 import {
   buildPlan,
+  createScenario,
   defaultParameters,
+  describeTripRoute,
+  formatDiagnostic,
   formatDistance,
   formatHours,
+  formatMoney,
+  HOURS_IN_DAY,
+  localeTags,
+  parseScenario,
+  requestPriorityLabels,
+  rescheduleTrip,
+  setTripLock,
+  validatePlan,
 } from '@entities'
 import { Button } from '@shared/ui/button'
+import { useRouter } from 'next/navigation'
 import type { ReactNode } from 'react'
-import { useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { I18nProvider, type MessageKey, useI18n } from '../lib/i18n'
+import {
+  addHistoryEntry,
+  deleteHistoryEntry,
+  isStorageAvailable,
+  listHistory,
+  loadWorkspace,
+  type PlanHistoryEntry,
+  saveWorkspace,
+} from '../lib/plan-storage'
+import { buildRequestColorMap } from '../lib/request-colors'
+import { sanitizeRequests } from '../lib/sanitize-requests'
+import { usePlayback } from '../lib/use-playback'
+import { validateParameters } from '../lib/validate-parameters'
+import { DepotTable } from './depot-table'
+import { FleetTable } from './fleet-table'
 import { GanttChart } from './gantt-chart'
+import { GridSettings } from './grid-settings'
+import { InfeasibilityPanel } from './infeasibility-panel'
+import { LocaleSwitch } from './locale-switch'
+import { NetworkSettings } from './network-settings'
+import { PlanExportPanel } from './plan-export-panel'
+import { PlanHistory } from './plan-history'
+import { PlanValidationPanel } from './plan-validation-panel'
+import { PlaybackControls } from './playback-controls'
+import { RequestImport, type RequestImportMode } from './request-import'
 import { RouteMap } from './route-map'
-import type { RequestLegendEntry } from './types'
+import { ScenarioComparison } from './scenario-comparison'
+import { ScenarioControls } from './scenario-controls'
 
 type EditableRequest = RequestInput
 
-const colorPalette = [
-  '#2563eb',
-  '#fb923c',
-  '#10b981',
-  '#f97316',
-  '#8b5cf6',
-  '#ec4899',
-  '#14b8a6',
-  '#f59e0b',
-]
+const AUTOSAVE_DELAY = 800
 
 function createEmptyRequest(): EditableRequest {
   return {
@@ -33,43 +75,125 @@ function createEmptyRequest(): EditableRequest {
     shipperCode: '',
     receiverCode: '',
     volume: 0,
-    workingHours: 8,
+    shipperWindow: { open: 0, close: 8 },
+    receiverWindow: { open: 0, close: 8 },
   }
 }
 
 export function TransportationPlanner() {
+  return (
+    <I18nProvider>
+      <PlannerWorkspace />
+    </I18nProvider>
+  )
+}
+
+function PlannerWorkspace() {
+  const { locale, t } = useI18n()
   const [requests, setRequests] = useState<EditableRequest[]>([
     {
       id: crypto.randomUUID(),
       shipperCode: 'B3',
       receiverCode: 'E2',
       volume: 8,
-      workingHours: 10,
+      shipperWindow: { open: 0, close: 10 },
+      receiverWindow: { open: 1, close: 10 },
     },
   ])
   const [parameters, setParameters] =
     useState<PlannerParameters>(defaultParameters)
   const [plan, setPlan] = useState<PlanResult | null>(null)
+  // Independent check of the current plan against the inputs it came with.
+  const [planViolations, setPlanViolations] = useState<Diagnostic[]>([])
+  // Input validation messages; plan diagnostics are formatted on render so
+  // that they follow the selected locale.
   const [errors, setErrors] = useState<string[]>([])
+  // Bumped on scenario load so inputs with local draft text re-read props.
+  const [scenarioRevision, setScenarioRevision] = useState(0)
   const [visualizationTab, setVisualizationTab] = useState<'gantt' | 'map'>(
     'gantt',
   )
+  const [history, setHistory] = useState<PlanHistoryEntry[]>([])
+  const [workspaceReady, setWorkspaceReady] = useState(false)
+  const [storageError, setStorageError] = useState<MessageKey | null>(null)
+  const router = useRouter()
 
-  const colorMap = useMemo(() => {
-    const map = new Map<string, RequestLegendEntry>()
-    if (!plan) {
-      return map
+  const applyScenario = useCallback((scenario: ScenarioFile) => {
+    setRequests(scenario.requests)
+    setParameters(scenario.parameters)
+    setPlan(scenario.plan)
+    setPlanViolations(
+      scenario.plan
+        ? validatePlan(
+            sanitizeRequests(
+              scenario.requests,
+              scenario.parameters.workdayLength,
+            ),
+            scenario.parameters,
+            scenario.plan,
+          )
+        : [],
+    )
+    setErrors([])
+    setScenarioRevision((prev) => prev + 1)
+  }, [])
+
+  useEffect(() => {
+    if (!isStorageAvailable()) {
+      setWorkspaceReady(true)
+      return
     }
-    plan.trips.forEach((trip, index) => {
-      if (!map.has(trip.requestId)) {
-        map.set(trip.requestId, {
-          color: colorPalette[index % colorPalette.length],
-          label: trip.requestLabel,
-        })
-      }
-    })
-    return map
-  }, [plan])
+    let cancelled = false
+    Promise.all([loadWorkspace(), listHistory()])
+      .then(([saved, entries]) => {
+        if (cancelled) {
+          return
+        }
+        setHistory(entries)
+        const scenario = saved ? parseScenario(saved).scenario : null
+        if (scenario) {
+          applyScenario(scenario)
+        }
+      })
+      .catch(() => {
+        setStorageError('planner.storageUnavailable')
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setWorkspaceReady(true)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [applyScenario])
+
+  useEffect(() => {
+    if (!workspaceReady || !isStorageAvailable()) {
+      return
+    }
+    const timer = window.setTimeout(() => {
+      saveWorkspace(createScenario(requests, parameters, plan)).catch(() => {
+        setStorageError('planner.autosaveFailed')
+      })
+    }, AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [workspaceReady, requests, parameters, plan])
+
+  const colorMap = useMemo(
+    () => buildRequestColorMap(plan?.trips ?? []),
+    [plan],
+  )
+
+  // Time span shown by the Gantt chart and replayed on the route map.
+  const timelineHorizon = plan
+    ? Math.max(
+        (Math.max(plan.summary.daysUsed, 1) - 1) * HOURS_IN_DAY +
+          parameters.workdayLength,
+        plan.summary.maxCompletionTime,
+      )
+    : 0
+  const playback = usePlayback(timelineHorizon)
 
   const handleRequestChange = <K extends keyof EditableRequest>(
     id: string,
@@ -92,6 +216,33 @@ export function TransportationPlanner() {
     setRequests((prev) => [...prev, createEmptyRequest()])
   }
 
+  const handleImportRequests = (
+    imported: RequestInput[],
+    mode: RequestImportMode,
+  ) => {
+    setRequests((prev) =>
+      mode === 'replace' ? imported : [...prev, ...imported],
+    )
+  }
+
+  const handleRestoreHistory = (entry: PlanHistoryEntry) => {
+    const { scenario, errors: restoreErrors } = parseScenario(
+      entry.scenario,
+      locale,
+    )
+    if (scenario) {
+      applyScenario(scenario)
+    } else {
+      setErrors(restoreErrors)
+    }
+  }
+
+  const handleDeleteHistory = (id: string) => {
+    deleteHistoryEntry(id)
+      .then(() => setHistory((prev) => prev.filter((entry) => entry.id !== id)))
+      .catch(() => setStorageError('planner.historyDeleteFailed'))
+  }
+
   const handleRemoveRequest = (id: string) => {
     setRequests((prev) =>
       prev.length === 1 ? prev : prev.filter((request) => request.id !== id),
@@ -105,146 +256,167 @@ export function TransportationPlanner() {
     setParameters((prev) => ({ ...prev, [field]: value }))
   }
 
+  const handleCostChange = (field: keyof CostModel, value: number) => {
+    setParameters((prev) => ({
+      ...prev,
+      costs: { ...prev.costs, [field]: value },
+    }))
+  }
+
+  const handleWorkRuleChange = (field: keyof WorkRules, value: number) => {
+    setParameters((prev) => ({
+      ...prev,
+      workRules: { ...prev.workRules, [field]: value },
+    }))
+  }
+
+  const handleDepotsChange = (depots: Depot[]) => {
+    setParameters((prev) => ({
+      ...prev,
+      depots,
+      fleet: prev.fleet.map((type) =>
+        type.depotId && !depots.some((depot) => depot.id === type.depotId)
+          ? { ...type, depotId: null }
+          : type,
+      ),
+    }))
+  }
+
   const handleCalculate = () => {
-    const sanitized = requests
-      .map((request) => ({
-        ...request,
-        shipperCode: request.shipperCode.trim().toUpperCase(),
-        receiverCode: request.receiverCode.trim().toUpperCase(),
-        workingHours:
-          Number.isFinite(request.workingHours) && request.workingHours > 0
-            ? request.workingHours
-            : 8,
-        volume:
-          Number.isFinite(request.volume) && request.volume > 0
-            ? request.volume
-            : 0,
-      }))
-      .filter(
-        (request) =>
-          request.shipperCode && request.receiverCode && request.volume > 0,
-      )
+    const sanitized = sanitizeRequests(requests, parameters.workdayLength)
 
     if (sanitized.length === 0) {
       setPlan(null)
-      setErrors(['Необходимо добавить хотя бы одну корректную заявку.'])
+      setErrors([t('planner.noRequests')])
       return
     }
 
-    if (
-      parameters.capacity <= 0 ||
-      parameters.speed <= 0 ||
-      parameters.cellSize <= 0
-    ) {
+    const parametersError = validateParameters(parameters, locale)
+    if (parametersError) {
       setPlan(null)
-      setErrors([
-        'Проверьте параметры перевозки: вместимость, скорость и размер клетки должны быть больше нуля.',
-      ])
+      setErrors([parametersError])
       return
     }
 
-    const calculation = buildPlan(sanitized, parameters)
+    // Locked trips of the current plan are kept in place.
+    const calculation = buildPlan(sanitized, parameters, plan)
     setPlan(calculation)
-    setErrors(calculation.errors)
+    setPlanViolations(validatePlan(sanitized, parameters, calculation))
+    setErrors([])
     if (calculation.trips.length === 0) {
       setVisualizationTab('gantt')
     }
+
+    if (isStorageAvailable()) {
+      addHistoryEntry(createScenario(requests, parameters, calculation))
+        .then(listHistory)
+        .then(setHistory)
+        .catch(() => setStorageError('planner.historySaveFailed'))
+    }
   }
 
-  const handleExportCsv = () => {
+  const handleMoveTrip = (tripId: string, placement: TripPlacement) => {
     if (!plan) {
       return
     }
-    const rows: string[][] = []
-    rows.push(['Сводка'])
-    rows.push(['Количество рейсов', String(plan.summary.totalTrips)])
-    rows.push(['Перевезённый объём, т', plan.summary.totalVolume.toFixed(2)])
-    rows.push(['Пробег общий, км', plan.summary.totalDistance.toFixed(1)])
-    rows.push(['Пробег с грузом, км', plan.summary.loadedDistance.toFixed(1)])
-    rows.push(['Пробег без груза, км', plan.summary.emptyDistance.toFixed(1)])
-    rows.push([
-      'Коэффициент использования',
-      plan.summary.utilization.toLocaleString('ru-RU', {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      }),
-    ])
-    rows.push([
-      'Автомобилей задействовано',
-      String(plan.summary.vehiclesRequired),
-    ])
-    rows.push([])
-    rows.push(['Рейсы'])
-    rows.push([
-      'Авто',
-      'Рейс',
-      'Маршрут',
-      'Тоннаж, т',
-      'Расстояние, км',
-      'Время, ч',
-      'Начало, ч',
-      'Окончание, ч',
-    ])
-
-    plan.trips.forEach((trip) => {
-      rows.push([
-        `#${trip.vehicleId}`,
-        String(trip.tripNumber),
-        trip.requestLabel,
-        trip.load.toFixed(2),
-        trip.distances.total.toFixed(1),
-        trip.timing.total.toFixed(2),
-        trip.schedule.startTime.toFixed(2),
-        trip.schedule.endTime.toFixed(2),
-      ])
-    })
-
-    const csvContent = rows.map((row) => row.join(';')).join('\n')
-    const blob = new Blob([`\ufeff${csvContent}`], {
-      type: 'text/csv;charset=utf-8;',
-    })
-    const url = URL.createObjectURL(blob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = 'operational-plan.csv'
-    link.click()
-    URL.revokeObjectURL(url)
+    const sanitized = sanitizeRequests(requests, parameters.workdayLength)
+    const moved = rescheduleTrip(sanitized, parameters, plan, tripId, placement)
+    setPlan(moved)
+    setPlanViolations(validatePlan(sanitized, parameters, moved))
+  }
+
+  const handleToggleTripLock = (tripId: string) => {
+    const trip = plan?.trips.find((item) => item.id === tripId)
+    if (plan && trip) {
+      setPlan(setTripLock(plan, tripId, !trip.locked))
+    }
   }
 
+  const handleUnlockTrips = () => {
+    if (plan) {
+      setPlan(
+        plan.trips
+          .filter((trip) => trip.locked)
+          .reduce((acc, trip) => setTripLock(acc, trip.id, false), plan),
+      )
+    }
+  }
+
+  const lockedTrips = plan?.trips.filter((trip) => trip.locked).length ?? 0
+
+  // The waybill page reads the plan from the saved workspace, so it is saved
+  // right away instead of waiting for the autosave.
+  const handleOpenWaybills = () => {
+    if (!plan) {
+      return
+    }
+    saveWorkspace(createScenario(requests, parameters, plan))
+      .then(() => router.push('/waybills'))
+      .catch(() => {
+        setStorageError('planner.autosaveFailed')
+      })
+  }
+
+  const errorMessages = [
+    ...errors,
+    ...(plan?.errors.map((error) => formatDiagnostic(error, locale)) ?? []),
+  ]
+
   return (
     <div className='space-y-10'>
       <header className='space-y-2'>
-        <h1 className='text-3xl font-bold'>
-          Оперативное планирование перевозок
-        </h1>
-        <p className='text-muted-foreground'>
-          Введите заявки клиентов, настройте параметры перевозок и выполните
-          расчёт.
-        </p>
+        <div className='flex flex-wrap items-start justify-between gap-3'>
+          <h1 className='text-3xl font-bold'>{t('planner.title')}</h1>
+          <LocaleSwitch />
+        </div>
+        <p className='text-muted-foreground'>{t('planner.subtitle')}</p>
+        <ScenarioControls
+          requests={requests}
+          parameters={parameters}
+          plan={plan}
+          onLoad={applyScenario}
+        />
       </header>
 
       <section className='rounded-xl border bg-card p-6 shadow-sm'>
         <div className='mb-4 flex items-center justify-between'>
-          <h2 className='text-xl font-semibold'>Заявки на перевозку</h2>
+          <h2 className='text-xl font-semibold'>{t('requests.title')}</h2>
           <Button type='button' variant='outline' onClick={handleAddRequest}>
-            Добавить заявку
+            {t('requests.add')}
           </Button>
         </div>
+        <RequestImport
+          grid={parameters.grid}
+          workdayLength={parameters.workdayLength}
+          onImport={handleImportRequests}
+        />
         <div className='overflow-x-auto'>
           <table className='min-w-full divide-y divide-border text-sm'>
             <thead className='bg-muted/50'>
               <tr>
                 <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                  Грузоотправитель
+                  {t('requests.shipper')}
                 </th>
                 <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                  Грузополучатель
+                  {t('requests.receiver')}
                 </th>
                 <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                  Объём, т
+                  {t('requests.volume')}
                 </th>
                 <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                  Рабочее время, ч
+                  {t('requests.rate')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('requests.shipperWindow')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('requests.receiverWindow')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('requests.priority')}
+                </th>
+                <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                  {t('requests.deadline')}
                 </th>
                 <th className='px-3 py-2' />
               </tr>
@@ -263,7 +435,7 @@ export function TransportationPlanner() {
                           event.target.value,
                         )
                       }
-                      placeholder='Например, A2'
+                      placeholder={t('requests.shipperPlaceholder')}
                     />
                   </td>
                   <td className='px-3 py-2'>
@@ -277,7 +449,7 @@ export function TransportationPlanner() {
                           event.target.value,
                         )
                       }
-                      placeholder='Например, C5'
+                      placeholder={t('requests.receiverPlaceholder')}
                     />
                   </td>
                   <td className='px-3 py-2'>
@@ -300,14 +472,77 @@ export function TransportationPlanner() {
                     <input
                       type='number'
                       min={0}
-                      step={0.5}
+                      step={10}
                       className='w-28 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
-                      value={request.workingHours}
+                      value={request.revenuePerTonne ?? ''}
+                      placeholder={String(parameters.costs.revenuePerTonne)}
                       onChange={(event) =>
                         handleRequestChange(
                           request.id,
-                          'workingHours',
-                          Number(event.target.value),
+                          'revenuePerTonne',
+                          event.target.value === ''
+                            ? undefined
+                            : Number(event.target.value),
+                        )
+                      }
+                    />
+                  </td>
+                  <td className='px-3 py-2'>
+                    <TimeWindowField
+                      value={request.shipperWindow}
+                      onChange={(window) =>
+                        handleRequestChange(request.id, 'shipperWindow', window)
+                      }
+                    />
+                  </td>
+                  <td className='px-3 py-2'>
+                    <TimeWindowField
+                      value={request.receiverWindow}
+                      onChange={(window) =>
+                        handleRequestChange(
+                          request.id,
+                          'receiverWindow',
+                          window,
+                        )
+                      }
+                    />
+                  </td>
+                  <td className='px-3 py-2'>
+                    <select
+                      className='w-32 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                      value={request.priority ?? 'normal'}
+                      onChange={(event) =>
+                        handleRequestChange(
+                          request.id,
+                          'priority',
+                          event.target.value as RequestPriority,
+                        )
+                      }
+                    >
+                      {Object.entries(requestPriorityLabels[locale]).map(
+                        ([priority, label]) => (
+                          <option key={priority} value={priority}>
+                            {label}
+                          </option>
+                        ),
+                      )}
+                    </select>
+                  </td>
+                  <td className='px-3 py-2'>
+                    <input
+                      type='number'
+                      min={0}
+                      step={0.5}
+                      className='w-24 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+                      value={request.deadline ?? ''}
+                      placeholder='—'
+                      onChange={(event) =>
+                        handleRequestChange(
+                          request.id,
+                          'deadline',
+                          event.target.value === ''
+                            ? undefined
+                            : Number(event.target.value),
                         )
                       }
                     />
@@ -319,7 +554,7 @@ export function TransportationPlanner() {
                       onClick={() => handleRemoveRequest(request.id)}
                       disabled={requests.length === 1}
                     >
-                      Удалить
+                      {t('common.remove')}
                     </Button>
                   </td>
                 </tr>
@@ -330,46 +565,48 @@ export function TransportationPlanner() {
       </section>
 
       <section className='rounded-xl border bg-card p-6 shadow-sm'>
-        <h2 className='mb-4 text-xl font-semibold'>Параметры расчёта</h2>
-        <div className='grid gap-4 md:grid-cols-3'>
-          <ParameterField
-            label='Грузоподъёмность автомобиля, т'
-            value={parameters.capacity}
-            min={1}
-            step={0.5}
-            onChange={(value) => handleParameterChange('capacity', value)}
+        <h2 className='mb-4 text-xl font-semibold'>{t('parameters.title')}</h2>
+        <div className='space-y-6'>
+          <GridSettings
+            key={`grid-${scenarioRevision}`}
+            grid={parameters.grid}
+            onChange={(grid) => handleParameterChange('grid', grid)}
           />
-          <ParameterField
-            label='Время на погрузку/выгрузку, ч/т'
-            value={parameters.loadUnloadRate}
-            min={0.01}
-            step={0.01}
-            onChange={(value) => handleParameterChange('loadUnloadRate', value)}
+          <DepotTable
+            depots={parameters.depots}
+            onChange={handleDepotsChange}
+          />
+          <FleetTable
+            fleet={parameters.fleet}
+            depots={parameters.depots}
+            onChange={(fleet) => handleParameterChange('fleet', fleet)}
           />
+        </div>
+        <div className='mt-6 grid gap-4 md:grid-cols-3'>
           <ParameterField
-            label='Размер клетки, км'
+            label={t('parameters.cellSize')}
             value={parameters.cellSize}
             min={1}
             step={0.5}
             onChange={(value) => handleParameterChange('cellSize', value)}
           />
           <ParameterField
-            label='Средняя скорость, км/ч'
-            value={parameters.speed}
+            label={t('parameters.workdayLength')}
+            value={parameters.workdayLength}
             min={1}
             step={1}
-            onChange={(value) => handleParameterChange('speed', value)}
+            onChange={(value) => handleParameterChange('workdayLength', value)}
           />
           <ParameterField
-            label='Длительность смены, ч'
-            value={parameters.workdayLength}
+            label={t('parameters.planningDays')}
+            value={parameters.planningDays}
             min={1}
             step={1}
-            onChange={(value) => handleParameterChange('workdayLength', value)}
+            onChange={(value) => handleParameterChange('planningDays', value)}
           />
           <div className='space-y-2'>
             <span className='block text-sm font-medium text-muted-foreground'>
-              Метод расчёта расстояний
+              {t('parameters.distanceMode')}
             </span>
             <select
               className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
@@ -381,44 +618,240 @@ export function TransportationPlanner() {
                 )
               }
             >
-              <option value='manhattan'>Изолированный (манхэттенский)</option>
-              <option value='euclidean'>Топографический (евклидов)</option>
+              <option value='manhattan'>
+                {t('parameters.distanceMode.manhattan')}
+              </option>
+              <option value='euclidean'>
+                {t('parameters.distanceMode.euclidean')}
+              </option>
+              <option value='network'>
+                {t('parameters.distanceMode.network')}
+              </option>
             </select>
           </div>
+          <div className='space-y-2'>
+            <span className='block text-sm font-medium text-muted-foreground'>
+              {t('parameters.routingMode')}
+            </span>
+            <select
+              className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+              value={parameters.routingMode}
+              onChange={(event) =>
+                handleParameterChange(
+                  'routingMode',
+                  event.target.value as PlannerParameters['routingMode'],
+                )
+              }
+            >
+              <option value='pendulum'>
+                {t('parameters.routingMode.pendulum')}
+              </option>
+              <option value='chained'>
+                {t('parameters.routingMode.chained')}
+              </option>
+            </select>
+          </div>
+          <div className='space-y-2'>
+            <span className='block text-sm font-medium text-muted-foreground'>
+              {t('parameters.optimizationMode')}
+            </span>
+            <select
+              className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+              value={parameters.optimizationMode}
+              onChange={(event) =>
+                handleParameterChange(
+                  'optimizationMode',
+                  event.target.value as PlannerParameters['optimizationMode'],
+                )
+              }
+            >
+              <option value='greedy'>
+                {t('parameters.optimizationMode.greedy')}
+              </option>
+              <option value='fleet'>
+                {t('parameters.optimizationMode.fleet')}
+              </option>
+            </select>
+          </div>
+          <div className='space-y-2'>
+            <span className='block text-sm font-medium text-muted-foreground'>
+              {t('parameters.consolidation')}
+            </span>
+            <select
+              className='w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+              value={parameters.consolidation}
+              onChange={(event) =>
+                handleParameterChange(
+                  'consolidation',
+                  event.target.value as PlannerParameters['consolidation'],
+                )
+              }
+            >
+              <option value='none'>{t('parameters.consolidation.none')}</option>
+              <option value='shipper'>
+                {t('parameters.consolidation.shipper')}
+              </option>
+              <option value='nearby'>
+                {t('parameters.consolidation.nearby')}
+              </option>
+            </select>
+          </div>
+          {parameters.consolidation === 'nearby' && (
+            <ParameterField
+              label={t('parameters.consolidationRadius')}
+              value={parameters.consolidationRadius}
+              min={0}
+              step={1}
+              onChange={(value) =>
+                handleParameterChange('consolidationRadius', value)
+              }
+            />
+          )}
+        </div>
+        <div className='mt-6 space-y-3'>
+          <h3 className='text-base font-semibold'>{t('parameters.costs')}</h3>
+          <div className='grid gap-4 md:grid-cols-4'>
+            <ParameterField
+              label={t('parameters.fuelCost')}
+              value={parameters.costs.fuelCostPerKm}
+              min={0}
+              step={1}
+              onChange={(value) => handleCostChange('fuelCostPerKm', value)}
+            />
+            <ParameterField
+              label={t('parameters.driverCost')}
+              value={parameters.costs.driverCostPerHour}
+              min={0}
+              step={10}
+              onChange={(value) => handleCostChange('driverCostPerHour', value)}
+            />
+            <ParameterField
+              label={t('parameters.vehicleDailyCost')}
+              value={parameters.costs.vehicleDailyCost}
+              min={0}
+              step={100}
+              onChange={(value) => handleCostChange('vehicleDailyCost', value)}
+            />
+            <ParameterField
+              label={t('parameters.revenuePerTonne')}
+              value={parameters.costs.revenuePerTonne}
+              min={0}
+              step={10}
+              onChange={(value) => handleCostChange('revenuePerTonne', value)}
+            />
+          </div>
+        </div>
+        <div className='mt-6 space-y-3'>
+          <h3 className='text-base font-semibold'>
+            {t('parameters.workRules')}
+          </h3>
+          <div className='grid gap-4 md:grid-cols-4'>
+            <ParameterField
+              label={t('parameters.drivingBeforeBreak')}
+              value={parameters.workRules.drivingBeforeBreak}
+              min={0.5}
+              step={0.25}
+              onChange={(value) =>
+                handleWorkRuleChange('drivingBeforeBreak', value)
+              }
+            />
+            <ParameterField
+              label={t('parameters.breakDuration')}
+              value={parameters.workRules.breakDuration}
+              min={0.25}
+              step={0.25}
+              onChange={(value) => handleWorkRuleChange('breakDuration', value)}
+            />
+            <ParameterField
+              label={t('parameters.maxDrivingTime')}
+              value={parameters.workRules.maxDrivingTime}
+              min={1}
+              step={0.5}
+              onChange={(value) =>
+                handleWorkRuleChange('maxDrivingTime', value)
+              }
+            />
+            <ParameterField
+              label={t('parameters.maxWorkingTime')}
+              value={parameters.workRules.maxWorkingTime}
+              min={1}
+              step={0.5}
+              onChange={(value) =>
+                handleWorkRuleChange('maxWorkingTime', value)
+              }
+            />
+          </div>
         </div>
+        {parameters.distanceMode === 'network' && (
+          <div className='mt-6'>
+            <NetworkSettings
+              key={`network-${scenarioRevision}`}
+              network={parameters.network}
+              onChange={(network) => handleParameterChange('network', network)}
+            />
+          </div>
+        )}
         <div className='mt-6 flex flex-wrap gap-3'>
           <Button type='button' onClick={handleCalculate}>
-            Рассчитать план
+            {t('planner.calculate')}
           </Button>
           <Button
             type='button'
             variant='outline'
-            onClick={handleExportCsv}
+            onClick={handleOpenWaybills}
             disabled={!plan}
           >
-            Экспорт в CSV
+            {t('planner.waybills')}
           </Button>
         </div>
-        {errors.length > 0 && (
+        {lockedTrips > 0 && (
+          <div className='mt-4 flex flex-wrap items-center gap-3 text-sm text-muted-foreground'>
+            <span>{t('planner.lockedTrips', { count: lockedTrips })}</span>
+            <Button
+              type='button'
+              variant='outline'
+              size='sm'
+              onClick={handleUnlockTrips}
+            >
+              {t('planner.unlockTrips')}
+            </Button>
+          </div>
+        )}
+        {errorMessages.length > 0 && (
           <ul className='mt-4 space-y-2 text-sm text-destructive'>
-            {errors.map((error) => (
+            {errorMessages.map((error) => (
               <li key={error}>{error}</li>
             ))}
           </ul>
         )}
       </section>
 
+      <PlanHistory
+        entries={history}
+        notice={storageError && t(storageError)}
+        onRestore={handleRestoreHistory}
+        onDelete={handleDeleteHistory}
+      />
+
       {plan && (
         <section className='space-y-8'>
+          {plan.optimization && (
+            <OptimizationReportPanel report={plan.optimization} />
+          )}
+          <InfeasibilityPanel items={plan.infeasible} />
+          <PlanValidationPanel violations={planViolations} />
           <SummaryCards plan={plan} />
           <TripsTable plan={plan} />
           <VehicleTable plan={plan} />
+          <PlanExportPanel plan={plan} />
           <section className='rounded-xl border bg-card p-6 shadow-sm'>
             <div className='flex flex-col gap-4 md:flex-row md:items-center md:justify-between'>
               <div>
-                <h2 className='text-xl font-semibold'>Визуализации</h2>
+                <h2 className='text-xl font-semibold'>
+                  {t('visualizations.title')}
+                </h2>
                 <p className='text-sm text-muted-foreground'>
-                  Переключайтесь между схемой маршрутов и диаграммой Ганта.
+                  {t('visualizations.hint')}
                 </p>
               </div>
               <div className='inline-flex items-center gap-2 rounded-lg border border-border bg-muted/30 p-1'>
@@ -426,30 +859,42 @@ export function TransportationPlanner() {
                   isActive={visualizationTab === 'gantt'}
                   onClick={() => setVisualizationTab('gantt')}
                 >
-                  Диаграмма Ганта
+                  {t('visualizations.gantt')}
                 </TabButton>
                 <TabButton
                   isActive={visualizationTab === 'map'}
                   onClick={() => setVisualizationTab('map')}
                 >
-                  Схема маршрутов
+                  {t('visualizations.map')}
                 </TabButton>
               </div>
             </div>
-            <div className='mt-6'>
+            <div className='mt-6 space-y-4'>
+              <PlaybackControls playback={playback} />
               {visualizationTab === 'gantt' ? (
                 <GanttChart
                   vehicles={plan.vehicles}
                   colorMap={colorMap}
-                  horizon={parameters.workdayLength}
+                  conflicts={planViolations}
+                  onMoveTrip={handleMoveTrip}
+                  onToggleTripLock={handleToggleTripLock}
+                  horizon={timelineHorizon}
+                  cursorTime={playback.time}
                 />
               ) : (
-                <RouteMap plan={plan} colorMap={colorMap} />
+                <RouteMap
+                  plan={plan}
+                  colorMap={colorMap}
+                  parameters={parameters}
+                  time={playback.time}
+                />
               )}
             </div>
           </section>
         </section>
       )}
+
+      <ScenarioComparison requests={requests} parameters={parameters} />
     </div>
   )
 }
@@ -486,44 +931,167 @@ function ParameterField({
   )
 }
 
+interface TimeWindowFieldProps {
+  value: TimeWindow
+  onChange: (value: TimeWindow) => void
+}
+
+function TimeWindowField({ value, onChange }: TimeWindowFieldProps) {
+  const { t } = useI18n()
+
+  return (
+    <div className='flex items-center gap-2'>
+      <input
+        type='number'
+        min={0}
+        step={0.5}
+        aria-label={t('requests.windowOpen')}
+        className='w-20 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+        value={value.open}
+        onChange={(event) =>
+          onChange({ ...value, open: Number(event.target.value) })
+        }
+      />
+      <span className='text-muted-foreground'>–</span>
+      <input
+        type='number'
+        min={0}
+        step={0.5}
+        aria-label={t('requests.windowClose')}
+        className='w-20 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus:border-primary'
+        value={value.close}
+        onChange={(event) =>
+          onChange({ ...value, close: Number(event.target.value) })
+        }
+      />
+    </div>
+  )
+}
+
+interface OptimizationReportPanelProps {
+  report: OptimizationReport
+}
+
+function OptimizationReportPanel({ report }: OptimizationReportPanelProps) {
+  const { locale, t } = useI18n()
+  const savedVehicles = report.baselineVehicles - report.vehicles
+  const savedTime = report.baselineTotalTime - report.totalTime
+  const improved = savedVehicles > 0 || savedTime > 1e-6
+
+  return (
+    <section className='rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-900'>
+      <h3 className='font-semibold'>{t('optimization.title')}</h3>
+      {improved ? (
+        <p className='mt-1'>
+          {t('optimization.vehicles', {
+            from: report.baselineVehicles,
+            to: report.vehicles,
+          })}
+          {savedVehicles > 0
+            ? t('optimization.savedVehicles', { count: savedVehicles })
+            : ''}
+          ,{' '}
+          {t('optimization.totalTime', {
+            from: formatHours(report.baselineTotalTime, locale),
+            to: formatHours(report.totalTime, locale),
+          })}
+          {savedTime > 1e-6
+            ? t('optimization.savedTime', {
+                hours: formatHours(savedTime, locale),
+              })
+            : ''}
+          .
+        </p>
+      ) : (
+        <p className='mt-1'>{t('optimization.alreadyOptimal')}</p>
+      )}
+      <p className='mt-1 text-xs text-emerald-800/80'>
+        {t('optimization.evaluations', { count: report.evaluations })}
+      </p>
+    </section>
+  )
+}
+
 interface SummaryCardsProps {
   plan: PlanResult
 }
 
 function SummaryCards({ plan }: SummaryCardsProps) {
+  const { locale, t } = useI18n()
+  const { summary } = plan
+  const emptyDistance = formatDistance(summary.emptyDistance, locale)
   const cards = [
     {
-      title: 'Рейсов выполнено',
-      value: plan.summary.totalTrips,
-      description: 'Общее количество рейсов по всем заявкам',
+      title: t('summary.trips'),
+      value: summary.totalTrips,
+      description: t('summary.trips.description'),
     },
     {
-      title: 'Перевезено, тонн',
-      value: plan.summary.totalVolume.toFixed(2),
-      description: 'Совокупный объём перевозок',
+      title: t('summary.volume'),
+      value: summary.totalVolume.toFixed(2),
+      description: t('summary.volume.description'),
     },
     {
-      title: 'Общий пробег, км',
-      value: formatDistance(plan.summary.totalDistance),
-      description: 'Пробег автомобилей за сутки',
+      title: t('summary.distance'),
+      value: formatDistance(summary.totalDistance, locale),
+      description:
+        summary.daysUsed > 1
+          ? t('summary.distance.descriptionDays', {
+              days: summary.daysUsed,
+              empty: emptyDistance,
+            })
+          : t('summary.distance.description', { empty: emptyDistance }),
     },
     {
-      title: 'Коэффициент пробега',
-      value: plan.summary.utilization.toLocaleString('ru-RU', {
+      title: t('summary.utilization'),
+      value: summary.utilization.toLocaleString(localeTags[locale], {
         minimumFractionDigits: 2,
         maximumFractionDigits: 2,
       }),
-      description: 'Отношение пробега с грузом к общему',
+      description: t('summary.utilization.description'),
     },
     {
-      title: 'Максимальное время, ч',
-      value: formatHours(plan.summary.maxCompletionTime),
-      description: 'Завершение последнего рейса',
+      title: t('summary.completion'),
+      value: formatHours(summary.maxCompletionTime, locale),
+      description:
+        summary.daysUsed > 1
+          ? t('summary.completion.descriptionDays', { day: summary.daysUsed })
+          : t('summary.completion.description'),
     },
     {
-      title: 'Автомобилей задействовано',
-      value: plan.summary.vehiclesRequired,
-      description: 'Минимальное число машин в работе',
+      title: t('summary.vehicles'),
+      value: summary.vehiclesRequired,
+      description: t('summary.vehicles.description'),
+    },
+    {
+      title: t('summary.costs'),
+      value: formatMoney(summary.finance.totalCost, locale),
+      description: t('summary.costs.description', {
+        fuel: formatMoney(summary.finance.fuelCost, locale),
+        driver: formatMoney(summary.finance.driverCost, locale),
+        fixed: formatMoney(summary.finance.fixedCost, locale),
+      }),
+    },
+    {
+      title: t('summary.revenue'),
+      value: formatMoney(summary.finance.revenue, locale),
+      description: t('summary.revenue.description'),
+    },
+    {
+      title: t('summary.margin'),
+      value: formatMoney(summary.finance.margin, locale),
+      description:
+        summary.finance.revenue > 0
+          ? t('summary.margin.description', {
+              percent: (
+                (summary.finance.margin / summary.finance.revenue) *
+                100
+              ).toLocaleString(localeTags[locale], {
+                minimumFractionDigits: 1,
+                maximumFractionDigits: 1,
+              }),
+            })
+          : t('summary.margin.noRevenue'),
     },
   ]
 
@@ -552,59 +1120,120 @@ interface TripsTableProps {
 }
 
 function TripsTable({ plan }: TripsTableProps) {
+  const { locale, t } = useI18n()
+  const vehicleTypes = new Map(
+    plan.vehicles.map((vehicle) => [vehicle.vehicleId, vehicle.vehicleType]),
+  )
+
   return (
     <section className='rounded-xl border bg-card p-6 shadow-sm'>
-      <h2 className='mb-4 text-xl font-semibold'>Детализация рейсов</h2>
+      <h2 className='mb-4 text-xl font-semibold'>{t('trips.title')}</h2>
       <div className='overflow-x-auto'>
         <table className='min-w-full divide-y divide-border text-sm'>
           <thead className='bg-muted/50'>
             <tr>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Автомобиль
+                {t('trips.vehicle')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Рейс
+                {t('trips.trip')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Маршрут
+                {t('trips.route')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Тоннаж, т
+                {t('trips.load')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Пробег, км
+                {t('trips.distance')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Время, ч
+                {t('trips.time')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Начало
+                {t('trips.start')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Окончание
+                {t('trips.end')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Примечания
+                {t('trips.margin')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('trips.notes')}
               </th>
             </tr>
           </thead>
           <tbody className='divide-y divide-border'>
             {plan.trips.map((trip) => (
               <tr key={trip.id}>
-                <td className='px-3 py-2'>#{trip.vehicleId}</td>
+                <td className='px-3 py-2'>
+                  <div>#{trip.vehicleId}</div>
+                  <div className='text-xs text-muted-foreground'>
+                    {vehicleTypes.get(trip.vehicleId)?.name}
+                  </div>
+                </td>
                 <td className='px-3 py-2'>{trip.tripNumber}</td>
-                <td className='px-3 py-2'>{trip.requestLabel}</td>
-                <td className='px-3 py-2'>{trip.load.toFixed(2)}</td>
+                <td className='px-3 py-2'>
+                  <div>{trip.requestLabel}</div>
+                  <div className='text-xs text-muted-foreground'>
+                    {describeTripRoute(trip, locale)}
+                  </div>
+                </td>
+                <td className='px-3 py-2'>
+                  {trip.load.toFixed(2)}
+                  {vehicleTypes.has(trip.vehicleId) && (
+                    <span className='text-xs text-muted-foreground'>
+                      {' '}
+                      / {vehicleTypes.get(trip.vehicleId)?.capacity.toFixed(2)}
+                    </span>
+                  )}
+                  {trip.drops.length > 1 && (
+                    <div className='text-xs text-muted-foreground'>
+                      {trip.drops
+                        .map(
+                          (drop) =>
+                            `${drop.receiverCode}: ${t('common.tonnes', { value: drop.load.toFixed(2) })}`,
+                        )
+                        .join(', ')}
+                    </div>
+                  )}
+                </td>
                 <td className='px-3 py-2'>{trip.distances.total.toFixed(1)}</td>
-                <td className='px-3 py-2'>{trip.timing.total.toFixed(2)}</td>
+                <td className='px-3 py-2'>
+                  {trip.timing.total.toFixed(2)}
+                  {trip.timing.waiting > 1e-4 && (
+                    <div className='text-xs text-muted-foreground'>
+                      {t('trips.waiting', {
+                        hours: formatHours(trip.timing.waiting, locale),
+                      })}
+                    </div>
+                  )}
+                </td>
                 <td className='px-3 py-2'>
                   {trip.schedule.startTime.toFixed(2)}
+                  {plan.summary.daysUsed > 1 && (
+                    <div className='text-xs text-muted-foreground'>
+                      {t('trips.day', { day: trip.schedule.day + 1 })}
+                    </div>
+                  )}
                 </td>
                 <td className='px-3 py-2'>
                   {trip.schedule.endTime.toFixed(2)}
                 </td>
+                <td className='px-3 py-2'>
+                  {formatMoney(trip.finance.margin, locale)}
+                  <div className='text-xs text-muted-foreground'>
+                    {formatMoney(trip.finance.revenue, locale)} −{' '}
+                    {formatMoney(trip.finance.totalCost, locale)}
+                  </div>
+                </td>
                 <td className='px-3 py-2 text-xs text-muted-foreground'>
-                  {trip.warnings.length > 0 ? trip.warnings.join('; ') : '—'}
+                  {trip.warnings.length > 0
+                    ? trip.warnings
+                        .map((warning) => formatDiagnostic(warning, locale))
+                        .join('; ')
+                    : '—'}
                 </td>
               </tr>
             ))}
@@ -620,24 +1249,47 @@ interface VehicleTableProps {
 }
 
 function VehicleTable({ plan }: VehicleTableProps) {
+  const { locale, t } = useI18n()
+
   return (
     <section className='rounded-xl border bg-card p-6 shadow-sm'>
-      <h2 className='mb-4 text-xl font-semibold'>Загрузка автопарка</h2>
+      <h2 className='mb-4 text-xl font-semibold'>{t('vehicles.title')}</h2>
       <div className='overflow-x-auto'>
         <table className='min-w-full divide-y divide-border text-sm'>
           <thead className='bg-muted/50'>
             <tr>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Автомобиль
+                {t('vehicles.vehicle')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('vehicles.type')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('vehicles.capacity')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('vehicles.trips')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('vehicles.distance')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Рейсов
+                {t('vehicles.time')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Пробег, км
+                {t('vehicles.driving')}
               </th>
               <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
-                Время, ч
+                {t('vehicles.breaks')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('vehicles.cost')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('vehicles.margin')}
+              </th>
+              <th className='px-3 py-2 text-left font-medium text-muted-foreground'>
+                {t('vehicles.violations')}
               </th>
             </tr>
           </thead>
@@ -645,11 +1297,30 @@ function VehicleTable({ plan }: VehicleTableProps) {
             {plan.vehicles.map((vehicle) => (
               <tr key={vehicle.vehicleId}>
                 <td className='px-3 py-2'>#{vehicle.vehicleId}</td>
+                <td className='px-3 py-2'>{vehicle.vehicleType.name}</td>
+                <td className='px-3 py-2'>
+                  {vehicle.vehicleType.capacity.toFixed(2)}
+                </td>
                 <td className='px-3 py-2'>{vehicle.trips.length}</td>
                 <td className='px-3 py-2'>
                   {vehicle.totalDistance.toFixed(1)}
                 </td>
                 <td className='px-3 py-2'>{vehicle.totalTime.toFixed(2)}</td>
+                <td className='px-3 py-2'>{vehicle.drivingTime.toFixed(2)}</td>
+                <td className='px-3 py-2'>{vehicle.breaks.length}</td>
+                <td className='px-3 py-2'>
+                  {formatMoney(vehicle.finance.totalCost, locale)}
+                </td>
+                <td className='px-3 py-2'>
+                  {formatMoney(vehicle.finance.margin, locale)}
+                </td>
+                <td className='px-3 py-2 text-xs text-muted-foreground'>
+                  {vehicle.violations.length > 0
+                    ? vehicle.violations
+                        .map((violation) => formatDiagnostic(violation, locale))
+                        .join('; ')
+                    : '—'}
+                </td>
               </tr>
             ))}
           </tbody>
@@ -0,0 +1,231 @@
+'use client'
+
+import type { PlanResult, VehicleWaybill } from '@entities'
+import { buildWaybills, localeTags, parseScenario } from '@entities'
+import { downloadFile } from '@shared/lib/download'
+import { Button } from '@shared/ui/button'
+import Link from 'next/link'
+import { useEffect, useMemo, useState } from 'react'
+import { I18nProvider, type MessageKey, useI18n } from '../lib/i18n'
+import { isStorageAvailable, loadWorkspace } from '../lib/plan-storage'
+import {
+  renderWaybillDocument,
+  WAYBILL_COLUMNS,
+  waybillCoverRows,
+  waybillStopCells,
+  waybillTripText,
+  waybillVehicleText,
+} from '../lib/waybill-document'
+import { LocaleSwitch } from './locale-switch'
+
+type ReportState =
+  | { status: 'loading' }
+  | { status: 'ready'; plan: PlanResult; generatedAt: Date }
+  | { status: 'missing'; message: MessageKey }
+
+/**
+ * Print-ready waybills of the plan saved in the planner workspace: a cover
+ * sheet with the plan summary and one itinerary per vehicle.
+ */
+export function WaybillReport() {
+  return (
+    <I18nProvider>
+      <WaybillReportContent />
+    </I18nProvider>
+  )
+}
+
+function WaybillReportContent() {
+  const { locale, t } = useI18n()
+  const [state, setState] = useState<ReportState>({ status: 'loading' })
+
+  useEffect(() => {
+    if (!isStorageAvailable()) {
+      setState({ status: 'missing', message: 'waybill.loadFailed' })
+      return
+    }
+    let cancelled = false
+    loadWorkspace()
+      .then((saved) => {
+        if (cancelled) {
+          return
+        }
+        const plan = saved ? parseScenario(saved).scenario?.plan : null
+        setState(
+          plan
+            ? { status: 'ready', plan, generatedAt: new Date() }
+            : { status: 'missing', message: 'waybill.empty' },
+        )
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setState({ status: 'missing', message: 'waybill.loadFailed' })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const plan = state.status === 'ready' ? state.plan : null
+  const waybills = useMemo(() => (plan ? buildWaybills(plan) : []), [plan])
+
+  const handleDownload = () => {
+    if (state.status !== 'ready') {
+      return
+    }
+    const { generatedAt } = state
+    downloadFile(
+      renderWaybillDocument(state.plan.summary, waybills, locale, generatedAt),
+      `waybills-${generatedAt.toISOString().slice(0, 10)}.html`,
+      'text/html;charset=utf-8;',
+    )
+  }
+
+  return (
+    <div className='space-y-8 print:space-y-0'>
+      <div className='flex flex-wrap items-center justify-between gap-3 print:hidden'>
+        <Link
+          href='/'
+          className='text-sm font-medium text-primary underline-offset-4 hover:underline'
+        >
+          {t('waybill.back')}
+        </Link>
+        <div className='flex flex-wrap items-center gap-3'>
+          <LocaleSwitch />
+          <Button
+            type='button'
+            variant='outline'
+            onClick={handleDownload}
+            disabled={!plan}
+          >
+            {t('waybill.download')}
+          </Button>
+          <Button type='button' onClick={() => window.print()} disabled={!plan}>
+            {t('waybill.print')}
+          </Button>
+        </div>
+      </div>
+
+      <header className='space-y-1'>
+        <h1 className='text-3xl font-semibold'>{t('waybill.title')}</h1>
+        {state.status === 'ready' && (
+          <p className='text-sm text-muted-foreground'>
+            {t('waybill.generated', {
+              date: state.generatedAt.toLocaleString(localeTags[locale]),
+            })}
+          </p>
+        )}
+      </header>
+
+      {state.status === 'loading' && (
+        <p className='text-sm text-muted-foreground'>{t('waybill.loading')}</p>
+      )}
+      {state.status === 'missing' && (
+        <p className='rounded-xl border bg-card p-6 text-sm text-muted-foreground'>
+          {t(state.message)}
+        </p>
+      )}
+
+      {plan && (
+        <>
+          <section className='space-y-3'>
+            <h2 className='text-xl font-semibold'>{t('waybill.cover')}</h2>
+            <table className='w-full max-w-xl border-collapse text-sm'>
+              <tbody>
+                {waybillCoverRows(plan.summary, locale).map((row) => (
+                  <tr key={row.label} className='border-b border-border'>
+                    <th className='py-1.5 pr-4 text-left font-medium'>
+                      {row.label}
+                    </th>
+                    <td className='py-1.5 text-right tabular-nums'>
+                      {row.value}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+          {waybills.map((waybill) => (
+            <VehicleWaybillSheet key={waybill.vehicleId} waybill={waybill} />
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
+
+interface VehicleWaybillSheetProps {
+  waybill: VehicleWaybill
+}
+
+function VehicleWaybillSheet({ waybill }: VehicleWaybillSheetProps) {
+  const { locale, t } = useI18n()
+  const text = waybillVehicleText(waybill, locale)
+
+  return (
+    <section className='space-y-4 rounded-xl border bg-card p-6 shadow-sm print:break-before-page print:rounded-none print:border-0 print:p-0 print:shadow-none'>
+      <div className='space-y-1'>
+        <h2 className='text-xl font-semibold'>{text.title}</h2>
+        <p className='text-sm'>{text.details}</p>
+        <p className='text-sm text-muted-foreground'>{text.totals}</p>
+      </div>
+
+      {waybill.trips.length === 0 && (
+        <p className='text-sm text-muted-foreground'>{t('waybill.noTrips')}</p>
+      )}
+      {waybill.trips.map((trip) => {
+        const tripText = waybillTripText(trip, locale)
+        return (
+          <div key={trip.tripId} className='space-y-2 break-inside-avoid'>
+            <div>
+              <h3 className='font-semibold'>{tripText.title}</h3>
+              <p className='text-xs text-muted-foreground'>
+                {tripText.details}
+              </p>
+            </div>
+            <table className='w-full border-collapse text-sm'>
+              <thead>
+                <tr>
+                  {WAYBILL_COLUMNS.map((column) => (
+                    <th
+                      key={column}
+                      className='border border-border bg-muted/40 px-2 py-1 text-left font-medium'
+                    >
+                      {t(column)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {trip.stops.map((stop, index) => (
+                  <tr key={`${trip.tripId}-${index}`}>
+                    {waybillStopCells(stop, locale).map((cell, column) => (
+                      <td
+                        key={WAYBILL_COLUMNS[column]}
+                        className={`border border-border px-2 py-1 ${
+                          column < 2 ? '' : 'text-right tabular-nums'
+                        }`}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      })}
+
+      <div className='flex gap-12 pt-6 text-sm'>
+        <span className='min-w-48 border-t border-foreground pt-1'>
+          {t('waybill.driver')}
+        </span>
+        <span className='min-w-48 border-t border-foreground pt-1'>
+          {t('waybill.dispatcher')}
+        </span>
+      </div>
+    </section>
+  )
+}